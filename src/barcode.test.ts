@@ -0,0 +1,111 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { generateDocx } from "./index";
+import { createCodeImage } from "./barcode";
+import { encodeQrCode } from "./qrcode";
+import { DocxGenerationError } from "./types";
+import { createDocx, listParts, paragraph, readPart } from "./test-utils";
+
+// Format information of level M, masks 0 to 7
+const FORMAT_M = [
+  "101010000010010",
+  "101000100100101",
+  "101111001111100",
+  "101101101001011",
+  "100010111111001",
+  "100000011001110",
+  "100111110010111",
+  "100101010100000",
+];
+
+test("encodes QR codes with finder, timing and format patterns", () => {
+  const modules = encodeQrCode("HELLO WORLD", "M")!;
+  assert.equal(modules.length, 21);
+  const bit = (row: number, column: number) => (modules[row][column] ? 1 : 0);
+
+  // Finder patterns in three corners
+  for (const [top, left] of [
+    [0, 0],
+    [0, 14],
+    [14, 0],
+  ]) {
+    const rows = [0, 1, 2, 3, 4, 5, 6].map((row) =>
+      [0, 1, 2, 3, 4, 5, 6]
+        .map((column) => bit(top + row, left + column))
+        .join("")
+    );
+    assert.deepEqual(rows, [
+      "1111111",
+      "1000001",
+      "1011101",
+      "1011101",
+      "1011101",
+      "1000001",
+      "1111111",
+    ]);
+  }
+  assert.equal(
+    [8, 9, 10, 11, 12].map((index) => bit(6, index)).join(""),
+    "10101"
+  );
+  assert.equal(bit(13, 8), 1);
+
+  const format = [
+    ...[0, 1, 2, 3, 4, 5, 7, 8].map((column) => bit(8, column)),
+    ...[7, 5, 4, 3, 2, 1, 0].map((row) => bit(row, 8)),
+  ].join("");
+  assert.ok(FORMAT_M.includes(format), `format information ${format}`);
+  assert.equal(encodeQrCode("x".repeat(3000), "H"), undefined);
+});
+
+test("draws EAN-13 barcodes with their check digit", () => {
+  const image = createCodeImage({
+    type: "barcode",
+    format: "ean13",
+    value: "400638133393",
+  });
+  const svg = String(image.buffer);
+  assert.match(svg, /viewBox="0 0 115 1"/);
+  const bars = new Array(115).fill("0");
+  for (const [, x, width] of svg.matchAll(/M(\d+) 0h(\d+)/g)) {
+    bars.fill("1", Number(x), Number(x) + Number(width));
+  }
+  const pattern = bars.join("").slice(10, 105);
+  assert.equal(pattern.slice(0, 3), "101");
+  assert.equal(pattern.slice(45, 50), "01010");
+  // Check digit 1, as an R pattern, then the end guard
+  assert.equal(pattern.slice(85), "1100110101");
+  assert.equal(image.altText, "400638133393");
+
+  assert.throws(
+    () =>
+      createCodeImage({
+        type: "barcode",
+        format: "ean13",
+        value: "4006381333932",
+      }),
+    (error: unknown) =>
+      error instanceof DocxGenerationError && error.code === "INVALID_BARCODE"
+  );
+});
+
+test("embeds codes as SVG images with a PNG fallback", async () => {
+  const template = await createDocx(paragraph("{payment} {tracking}"));
+  const output = await generateDocx(template, {
+    payment: {
+      type: "qrcode",
+      value: "https://pay.example.com/INV-1",
+      sizeInches: 1.2,
+    },
+    tracking: { type: "barcode", format: "code128", value: "PKG-000123" },
+  });
+  const media = (await listParts(output)).filter((name) =>
+    name.startsWith("word/media/")
+  );
+  assert.equal(media.filter((name) => name.endsWith(".svg")).length, 2);
+  assert.equal(media.filter((name) => name.endsWith(".png")).length, 2);
+  const xml = await readPart(output, "word/document.xml");
+  assert.equal(xml.match(/<asvg:svgBlip /g)?.length, 2);
+  assert.match(xml, /<wp:extent cx="1097280" cy="1097280"\/>/);
+  assert.match(xml, /descr="PKG-000123"/);
+});
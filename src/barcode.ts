@@ -0,0 +1,412 @@
+/**
+ * QR codes and barcodes drawn as images: an SVG picture, crisp at any size,
+ * with a PNG fallback for Word versions without SVG support
+ */
+import {
+  BarcodeData,
+  DocxGenerationError,
+  ImageData,
+  QrCodeData,
+} from "./types";
+import { ensureBuffer } from "./docx";
+import { encodeQrCode } from "./qrcode";
+
+// Bar and space widths of the Code 128 symbols 0-105, then the stop symbol
+// prettier-ignore
+const CODE128_PATTERNS = [
+  "212222", "222122", "222221", "121223", "121322", "131222", "122213",
+  "122312", "132212", "221213", "221312", "231212", "112232", "122132",
+  "122231", "113222", "123122", "123221", "223211", "221132", "221231",
+  "213212", "223112", "312131", "311222", "321122", "321221", "312212",
+  "322112", "322211", "212123", "212321", "232121", "111323", "131123",
+  "131321", "112313", "132113", "132311", "211313", "231113", "231311",
+  "112133", "112331", "132131", "113123", "113321", "133121", "313121",
+  "211331", "231131", "213113", "213311", "213131", "311123", "311321",
+  "331121", "312113", "312311", "332111", "314111", "221411", "431111",
+  "111224", "111422", "121124", "121421", "141122", "141221", "112214",
+  "112412", "122114", "122411", "142112", "142211", "241211", "221114",
+  "413111", "241112", "134111", "111242", "121142", "121241", "114212",
+  "124112", "124211", "411212", "421112", "421211", "212141", "214121",
+  "412121", "111143", "111341", "131141", "114113", "114311", "411113",
+  "411311", "113141", "114131", "311141", "411131", "211412", "211214",
+  "211232", "2331112",
+];
+
+const CODE128_START_B = 104;
+const CODE128_START_C = 105;
+const CODE128_CODE_B = 100;
+const CODE128_CODE_C = 99;
+const CODE128_STOP = 106;
+
+// EAN-13 digit patterns of the left half (L, odd parity), 1 is a bar
+// prettier-ignore
+const EAN_L = [
+  "0001101", "0011001", "0010011", "0111101", "0100011",
+  "0110001", "0101111", "0111011", "0110111", "0001011",
+];
+
+// Parity of the six left digits (L or G), set by the first digit
+// prettier-ignore
+const EAN_PARITY = [
+  "LLLLLL", "LLGLGG", "LLGGLG", "LLGGGL", "LGLLGG",
+  "LGGLLG", "LGGGLL", "LGLGLG", "LGLGGL", "LGGLGL",
+];
+
+const DEFAULT_QR_SIZE = 1;
+const DEFAULT_BAR_HEIGHT = 0.75;
+// Width of the narrowest bar, 0.33 mm
+const DEFAULT_MODULE_INCHES = 0.013;
+
+export function isCodeData(value: unknown): value is QrCodeData | BarcodeData {
+  if (value === null || typeof value !== "object") return false;
+  const { type } = value as QrCodeData | BarcodeData;
+  return type === "qrcode" || type === "barcode";
+}
+
+function invalid(message: string, value: string): DocxGenerationError {
+  return new DocxGenerationError(message, "INVALID_BARCODE", { value });
+}
+
+/**
+ * Symbol values of a Code 128 barcode, check symbol included: code set C
+ * for runs of digits, code set B for the other printable ASCII characters
+ */
+function encodeCode128(text: string): number[] {
+  if (!/^[\x20-\x7e]+$/.test(text)) {
+    throw invalid(
+      `Code 128 barcodes hold printable ASCII characters, got "${text}"`,
+      text
+    );
+  }
+
+  const digitRun = (start: number) => /^\d*/.exec(text.slice(start))![0].length;
+  const firstRun = digitRun(0);
+  let codeC = firstRun >= 4 || (firstRun === text.length && firstRun >= 2);
+  const values = [codeC ? CODE128_START_C : CODE128_START_B];
+
+  for (let i = 0; i < text.length; ) {
+    if (codeC) {
+      if (digitRun(i) >= 2) {
+        values.push(Number(text.slice(i, i + 2)));
+        i += 2;
+        continue;
+      }
+      values.push(CODE128_CODE_B);
+      codeC = false;
+    }
+
+    // Switch to code set C for an even run of at least four digits
+    const run = digitRun(i);
+    if (run >= 4 && run % 2 === 0) {
+      values.push(CODE128_CODE_C);
+      codeC = true;
+    } else {
+      values.push(text.charCodeAt(i) - 32);
+      i++;
+    }
+  }
+
+  const check = values.reduce(
+    (sum, value, index) => sum + value * Math.max(index, 1),
+    0
+  );
+  return [...values, check % 103, CODE128_STOP];
+}
+
+/**
+ * Modules of a Code 128 barcode, true for a bar
+ */
+function getCode128Modules(text: string): boolean[] {
+  const modules: boolean[] = [];
+  for (const value of encodeCode128(text)) {
+    [...CODE128_PATTERNS[value]].forEach((width, index) => {
+      for (let i = 0; i < Number(width); i++) modules.push(index % 2 === 0);
+    });
+  }
+  return modules;
+}
+
+function getEanCheckDigit(digits: string): number {
+  const sum = [...digits.slice(0, 12)].reduce(
+    (total, digit, index) => total + Number(digit) * (index % 2 ? 3 : 1),
+    0
+  );
+  return (10 - (sum % 10)) % 10;
+}
+
+/**
+ * Modules of an EAN-13 barcode from 12 digits, or 13 with a valid check digit
+ */
+function getEan13Modules(text: string): boolean[] {
+  if (!/^\d{12,13}$/.test(text)) {
+    throw invalid(`EAN-13 barcodes hold 12 or 13 digits, got "${text}"`, text);
+  }
+  const check = getEanCheckDigit(text);
+  if (text.length === 13 && Number(text[12]) !== check) {
+    throw invalid(`Wrong EAN-13 check digit in "${text}"`, text);
+  }
+
+  const digits = [...text.slice(0, 12), String(check)].map(Number);
+  const parity = EAN_PARITY[digits[0]];
+  // R patterns are the complement of L, G patterns R reversed
+  const right = (digit: number) =>
+    EAN_L[digit].replace(/./g, (bit) => (bit === "1" ? "0" : "1"));
+  let pattern = "101";
+  digits.slice(1, 7).forEach((digit, index) => {
+    pattern +=
+      parity[index] === "L"
+        ? EAN_L[digit]
+        : [...right(digit)].reverse().join("");
+  });
+  pattern += "01010";
+  digits.slice(7).forEach((digit) => (pattern += right(digit)));
+  pattern += "101";
+  return [...pattern].map((bit) => bit === "1");
+}
+
+function getColor(color: string | undefined, fallback: string): string {
+  const value = (color || fallback).replace(/^#/, "");
+  if (!/^[0-9a-f]{6}$/i.test(value)) {
+    throw new DocxGenerationError(
+      `Invalid colour "${color}", expected a hex colour such as "000000"`,
+      "INVALID_BARCODE",
+      { color }
+    );
+  }
+  return value.toUpperCase();
+}
+
+/**
+ * Dark modules of a code as rectangles, in modules, quiet zone included
+ */
+interface CodeDrawing {
+  width: number;
+  height: number;
+  rects: Array<{ x: number; y: number; width: number; height: number }>;
+}
+
+function drawQrCode(modules: boolean[][], margin: number): CodeDrawing {
+  const rects: CodeDrawing["rects"] = [];
+  modules.forEach((row, y) => {
+    // Merge the dark modules of a row into horizontal runs
+    for (let x = 0; x < row.length; x++) {
+      if (!row[x]) continue;
+      const start = x;
+      while (row[x + 1]) x++;
+      rects.push({
+        x: start + margin,
+        y: y + margin,
+        width: x - start + 1,
+        height: 1,
+      });
+    }
+  });
+  const size = modules.length + margin * 2;
+  return { width: size, height: size, rects };
+}
+
+function drawBars(modules: boolean[], margin: number): CodeDrawing {
+  const rects: CodeDrawing["rects"] = [];
+  for (let x = 0; x < modules.length; x++) {
+    if (!modules[x]) continue;
+    const start = x;
+    while (modules[x + 1]) x++;
+    rects.push({ x: start + margin, y: 0, width: x - start + 1, height: 1 });
+  }
+  return { width: modules.length + margin * 2, height: 1, rects };
+}
+
+function createSvg(
+  drawing: CodeDrawing,
+  widthInches: number,
+  heightInches: number,
+  color: string,
+  background: string
+): string {
+  const path = drawing.rects
+    .map(
+      ({ x, y, width, height }) => `M${x} ${y}h${width}v${height}h-${width}z`
+    )
+    .join("");
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${widthInches}in" height="${heightInches}in" ` +
+    `viewBox="0 0 ${drawing.width} ${drawing.height}" preserveAspectRatio="none" shape-rendering="crispEdges">` +
+    `<rect width="${drawing.width}" height="${drawing.height}" fill="#${background}"/>` +
+    `<path d="${path}" fill="#${color}"/></svg>`
+  );
+}
+
+let crcTable: number[] | undefined;
+
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = [];
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable.push(c >>> 0);
+    }
+  }
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(data.length + 12);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+  view.setUint32(data.length + 8, crc32(chunk.subarray(4, data.length + 8)));
+  return chunk;
+}
+
+/**
+ * zlib stream of stored (uncompressed) deflate blocks, which needs no
+ * compression library in the browser
+ */
+function storeDeflate(data: Uint8Array): Uint8Array {
+  const blocks = Math.max(1, Math.ceil(data.length / 0xffff));
+  const output = new Uint8Array(2 + data.length + blocks * 5 + 4);
+  output.set([0x78, 0x01]);
+  let offset = 2;
+  for (let i = 0; i < blocks; i++) {
+    const block = data.subarray(i * 0xffff, (i + 1) * 0xffff);
+    output[offset] = i === blocks - 1 ? 1 : 0;
+    output[offset + 1] = block.length & 0xff;
+    output[offset + 2] = block.length >>> 8;
+    output[offset + 3] = ~block.length & 0xff;
+    output[offset + 4] = (~block.length >>> 8) & 0xff;
+    output.set(block, offset + 5);
+    offset += block.length + 5;
+  }
+
+  let a = 1;
+  let b = 0;
+  for (const byte of data) {
+    a = (a + byte) % 65521;
+    b = (b + a) % 65521;
+  }
+  new DataView(output.buffer).setUint32(offset, ((b << 16) | a) >>> 0);
+  return output;
+}
+
+/**
+ * Two-colour PNG of a drawing, `scale` pixels per module across and
+ * `rowHeight` pixels per module down
+ */
+function createPng(
+  drawing: CodeDrawing,
+  scale: number,
+  rowHeight: number,
+  color: string,
+  background: string
+): Uint8Array {
+  const width = drawing.width * scale;
+  const height = drawing.height * rowHeight;
+  const stride = Math.ceil(width / 8) + 1;
+  const pixels = new Uint8Array(stride * height);
+  for (const rect of drawing.rects) {
+    for (
+      let y = rect.y * rowHeight;
+      y < (rect.y + rect.height) * rowHeight;
+      y++
+    ) {
+      for (let x = rect.x * scale; x < (rect.x + rect.width) * scale; x++) {
+        pixels[y * stride + 1 + (x >>> 3)] |= 0x80 >>> (x & 7);
+      }
+    }
+  }
+
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  header.set([1, 3, 0, 0, 0], 8); // 1 bit per pixel, palette
+  const palette = new Uint8Array(
+    (background + color).match(/../g)!.map((hex) => parseInt(hex, 16))
+  );
+
+  const parts = [
+    new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk("IHDR", header),
+    pngChunk("PLTE", palette),
+    pngChunk("IDAT", storeDeflate(pixels)),
+    pngChunk("IEND", new Uint8Array(0)),
+  ];
+  const png = new Uint8Array(
+    parts.reduce((total, part) => total + part.length, 0)
+  );
+  let offset = 0;
+  for (const part of parts) {
+    png.set(part, offset);
+    offset += part.length;
+  }
+  return png;
+}
+
+// Pixels of the longer side of the PNG fallback, about
+const FALLBACK_PIXELS = 600;
+
+const images = new WeakMap<QrCodeData | BarcodeData, ImageData>();
+
+/**
+ * Image of a QR code or barcode value, embedded like any other image
+ */
+export function createCodeImage(data: QrCodeData | BarcodeData): ImageData {
+  const cached = images.get(data);
+  if (cached) return cached;
+
+  const value = String(data.value ?? "");
+  const color = getColor(data.color, "000000");
+  const background = getColor(data.background, "FFFFFF");
+  let drawing: CodeDrawing;
+  let widthInches: number;
+  let heightInches: number;
+  let rowHeight: number;
+
+  if (data.type === "qrcode") {
+    const modules = encodeQrCode(value, data.errorCorrection || "M");
+    if (!modules) {
+      throw invalid(
+        `Text too long for a QR code: "${value.slice(0, 40)}..."`,
+        value
+      );
+    }
+    drawing = drawQrCode(modules, data.margin ?? 4);
+    widthInches = heightInches = data.sizeInches || DEFAULT_QR_SIZE;
+    rowHeight = Math.max(1, Math.round(FALLBACK_PIXELS / drawing.height));
+  } else {
+    if (data.format !== "code128" && data.format !== "ean13") {
+      throw invalid(`Unknown barcode format "${data.format}"`, value);
+    }
+    const modules =
+      data.format === "ean13"
+        ? getEan13Modules(value)
+        : getCode128Modules(value);
+    drawing = drawBars(modules, data.margin ?? 10);
+    widthInches = data.widthInches || drawing.width * DEFAULT_MODULE_INCHES;
+    heightInches = data.heightInches || DEFAULT_BAR_HEIGHT;
+    rowHeight = Math.round((FALLBACK_PIXELS * heightInches) / widthInches) || 1;
+  }
+
+  const scale = Math.max(1, Math.round(FALLBACK_PIXELS / drawing.width));
+  const svg = createSvg(drawing, widthInches, heightInches, color, background);
+  const image: ImageData = {
+    type: "image",
+    buffer: ensureBuffer(new TextEncoder().encode(svg)),
+    fallback: ensureBuffer(
+      createPng(drawing, scale, rowHeight, color, background)
+    ),
+    widthInches,
+    heightInches,
+    altText: data.altText ?? value,
+    title: data.title,
+    name: data.name,
+    hyperlink: data.hyperlink,
+    position: data.position,
+  };
+  images.set(data, image);
+  return image;
+}
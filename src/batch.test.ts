@@ -0,0 +1,168 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import JSZip from "jszip";
+import { generateBatch } from "./index";
+import { DocxGenerationError } from "./types";
+import {
+  createDocx,
+  getBodyText,
+  getText,
+  paragraph,
+  readPart,
+  table,
+} from "./test-utils";
+
+const LETTER = paragraph("Dear {name},") + paragraph("Regards");
+
+const RECORDS = [{ name: "Ann" }, { name: "Bob" }, { name: "Cy" }];
+
+test("breaks pages inside the last paragraph of each record", async () => {
+  const output = await generateBatch(await createDocx(LETTER), RECORDS);
+  const xml = await readPart(output, "word/document.xml");
+  assert.equal(
+    getText(xml),
+    "Dear Ann,\nRegards\nDear Bob,\nRegards\nDear Cy,\nRegards"
+  );
+  assert.equal(
+    xml.match(
+      /<w:t xml:space="preserve">Regards<\/w:t><\/w:r><w:r><w:br w:type="page"\/><\/w:r><\/w:p>/g
+    )?.length,
+    2
+  );
+  assert.equal(xml.match(/<w:br w:type="page"\/>/g)?.length, 2);
+
+  // A paragraph follows a record ending with a table
+  const tables = await generateBatch(
+    await createDocx(table(["{name}"])),
+    RECORDS.slice(0, 2)
+  );
+  assert.equal(await getBodyText(tables), "Ann\n\nBob");
+});
+
+test("ends each record with a section restarting page numbers", async () => {
+  const output = await generateBatch(await createDocx(LETTER), RECORDS, {
+    separator: "section",
+  });
+  const xml = await readPart(output, "word/document.xml");
+  assert.equal(
+    getText(xml),
+    "Dear Ann,\nRegards\nDear Bob,\nRegards\nDear Cy,\nRegards"
+  );
+  const breaks = Array.from(
+    xml.matchAll(/<w:p><w:pPr><w:sectPr>.*?<\/w:sectPr><\/w:pPr><w:r>/g)
+  );
+  assert.equal(breaks.length, 2);
+  assert.equal(xml.match(/<w:pgNumType w:start="1"\/>/g)?.length, 3);
+  assert.doesNotMatch(xml, /<w:br w:type="page"\/>/);
+});
+
+test("renders one document per record, or a zip of them", async () => {
+  const template = await createDocx(LETTER);
+  const documents = await generateBatch(template, RECORDS, {
+    mode: "separate",
+  });
+  assert.deepEqual(await Promise.all(documents.map(getBodyText)), [
+    "Dear Ann,\nRegards",
+    "Dear Bob,\nRegards",
+    "Dear Cy,\nRegards",
+  ]);
+
+  const archive = await JSZip.loadAsync(
+    await generateBatch(template, RECORDS, {
+      mode: "separate",
+      zip: true,
+      fileName: (record) => `${record.name}.docx`,
+    })
+  );
+  assert.deepEqual(Object.keys(archive.files), [
+    "Ann.docx",
+    "Bob.docx",
+    "Cy.docx",
+  ]);
+  assert.equal(
+    await getBodyText(await archive.file("Bob.docx")!.async("nodebuffer")),
+    "Dear Bob,\nRegards"
+  );
+
+  await assert.rejects(
+    generateBatch(template, []),
+    (error: unknown) =>
+      error instanceof DocxGenerationError && error.code === "NO_RECORDS"
+  );
+});
+
+test("renders headers, footers and notes holding tags for each record", async () => {
+  const template = await createDocx({
+    body:
+      paragraph("Dear {name},", '<w:r><w:footnoteReference w:id="1"/></w:r>') +
+      paragraph("Regards"),
+    header: paragraph("Letter to {name}"),
+    footer: paragraph("Acme"),
+    footnotes:
+      '<w:footnote w:id="1"><w:p><w:r><w:t>Sent to {name}</w:t></w:r></w:p></w:footnote>',
+  });
+  const output = await generateBatch(template, RECORDS);
+  const xml = await readPart(output, "word/document.xml");
+  const relationships = await readPart(output, "word/_rels/document.xml.rels");
+  const targets = new Map(
+    Array.from(
+      relationships.matchAll(/Id="(\w+)"[^>]*?Target="([^"]*)"/g),
+      ([, id, target]) => [id, target]
+    )
+  );
+
+  // Each record is a section with its own header, page numbers go on
+  const sections = Array.from(
+    xml.matchAll(/<w:sectPr>(.*?)<\/w:sectPr>/g),
+    ([, sectPr]) => sectPr
+  );
+  const getTargets = (kind: string) =>
+    sections.map((sectPr) =>
+      targets.get(
+        new RegExp(`<w:${kind}Reference [^>]*r:id="(\\w+)"`).exec(sectPr)![1]
+      )
+    );
+  assert.deepEqual(getTargets("header"), [
+    "header1.xml",
+    "header2.xml",
+    "header3.xml",
+  ]);
+  assert.deepEqual(getTargets("footer"), [
+    "footer1.xml",
+    "footer1.xml",
+    "footer1.xml",
+  ]);
+  assert.doesNotMatch(xml, /<w:pgNumType|<w:br w:type="page"\/>/);
+  assert.equal(
+    getText(xml),
+    "Dear Ann,\nRegards\nDear Bob,\nRegards\nDear Cy,\nRegards"
+  );
+
+  assert.deepEqual(
+    await Promise.all(
+      ["header1", "header2", "header3"].map(async (name) =>
+        getText(await readPart(output, `word/${name}.xml`))
+      )
+    ),
+    ["Letter to Ann", "Letter to Bob", "Letter to Cy"]
+  );
+  assert.match(
+    await readPart(output, "[Content_Types].xml"),
+    /<Override PartName="\/word\/header3.xml" ContentType="[^"]*header\+xml"\/>/
+  );
+
+  // Notes are copied with new ids
+  assert.deepEqual(
+    Array.from(
+      xml.matchAll(/<w:footnoteReference w:id="(\d+)"\/>/g),
+      ([, id]) => id
+    ),
+    ["1", "2", "3"]
+  );
+  const footnotes = await readPart(output, "word/footnotes.xml");
+  assert.equal(getText(footnotes), "Sent to Ann\nSent to Bob\nSent to Cy");
+  assert.deepEqual(
+    Array.from(footnotes.matchAll(/<w:footnote w:id="(\d+)"/g), ([, id]) => id),
+    ["1", "2", "3"]
+  );
+});
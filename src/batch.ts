@@ -0,0 +1,286 @@
+/**
+ * Mail merge: the document body rendered once per record, joined into one
+ * body with a page or section break between records. Headers, footers and
+ * notes holding tags are rendered for each record too.
+ */
+import JSZip from "jszip";
+import { XMLSerializer } from "xmldom";
+import { GenerateBatchOptions } from "./types";
+import {
+  getNextRelationshipId,
+  getRelsPath,
+  readRelationships,
+  resolveTarget,
+} from "./docx";
+
+const HEADER_FOOTER_CONTENT_TYPES = {
+  header:
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.header+xml",
+  footer:
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.footer+xml",
+};
+
+// References to headers and footers from section properties
+const PART_REFERENCE_REGEX =
+  /(<w:(?:header|footer)Reference\b[^>]*?\sr:id=")([^"]*)"/g;
+
+// Bookmarks of the template; tags' bookmarks have no id yet at this point
+const TEMPLATE_BOOKMARK_REGEX =
+  /<w:bookmark(?:Start|End)\b[^>]*\sw:id="\d+"[^>]*\/>/g;
+
+// Elements that follow w:pgNumType in w:sectPr
+const AFTER_PAGE_NUMBERING_REGEX =
+  /<w:(?:cols|formProt|vAlign|noEndnote|titlePg|textDirection|bidi|rtlGutter|docGrid|printerSettings|sectPrChange)\b/;
+
+const PAGE_BREAK_RUN = '<w:r><w:br w:type="page"/></w:r>';
+
+// Start and end tags of paragraphs, self-closing ones included
+const PARAGRAPH_TAG_REGEX = /<w:p(?:\s[^>]*?)?(\/?)>|<\/w:p>/g;
+
+/**
+ * A rendered word/document.xml cut around the content of its body
+ */
+function splitBody(xml: string) {
+  const start = xml.indexOf("<w:body>") + "<w:body>".length;
+  const end = xml.lastIndexOf("</w:body>");
+  let content = xml.substring(start, end);
+  let sectPr = "";
+  const sectPrStart = content.lastIndexOf("<w:sectPr");
+  if (sectPrStart !== -1 && content.indexOf("</w:p>", sectPrStart) === -1) {
+    sectPr = content.substring(sectPrStart);
+    content = content.substring(0, sectPrStart);
+  }
+  return {
+    head: xml.substring(0, start),
+    content,
+    sectPr,
+    tail: xml.substring(end),
+  };
+}
+
+/**
+ * Section properties that start page numbering again at 1
+ */
+function restartPageNumbering(sectPr: string): string {
+  if (!sectPr) return sectPr;
+  if (/<w:pgNumType\b/.test(sectPr)) {
+    return sectPr.replace(
+      /<w:pgNumType\b([^>]*?)\s*(\/?)>/,
+      (match, attributes: string, close: string) =>
+        `<w:pgNumType${attributes.replace(/\sw:start="[^"]*"/, "")} w:start="1"${close}>`
+    );
+  }
+  const next = AFTER_PAGE_NUMBERING_REGEX.exec(sectPr);
+  const at = next ? next.index : sectPr.lastIndexOf("</w:sectPr>");
+  if (at === -1) return sectPr;
+  return `${sectPr.substring(0, at)}<w:pgNumType w:start="1"/>${sectPr.substring(at)}`;
+}
+
+/**
+ * Offset of the paragraph ending a record's body, -1 when the body ends with
+ * something else, e.g. a table. Paragraphs of text boxes are skipped.
+ */
+function getLastParagraphStart(content: string): number {
+  if (!/<\/w:p>\s*$|<w:p(?:\s[^>]*?)?\/>\s*$/.test(content)) return -1;
+  const tags = Array.from(content.matchAll(PARAGRAPH_TAG_REGEX));
+  let depth = 0;
+  for (let i = tags.length - 1; i >= 0; i--) {
+    const [tag, selfClosing] = tags[i];
+    if (tag === "</w:p>") depth++;
+    else if (!selfClosing) depth--;
+    if (depth === 0) return tags[i].index!;
+  }
+  return -1;
+}
+
+/**
+ * End a record's body with a page break, inside its last paragraph
+ */
+function addPageBreak(content: string): string {
+  const start = getLastParagraphStart(content);
+  if (start === -1) return `${content}<w:p>${PAGE_BREAK_RUN}</w:p>`;
+  const paragraph = content.substring(start);
+  const end = paragraph.endsWith("/>")
+    ? paragraph.replace(/\s*\/>$/, `>${PAGE_BREAK_RUN}</w:p>`)
+    : paragraph.replace(/<\/w:p>\s*$/, `${PAGE_BREAK_RUN}</w:p>`);
+  return content.substring(0, start) + end;
+}
+
+/**
+ * End a record's body with a section break, in the properties of its last
+ * paragraph
+ */
+function addSectionBreak(content: string, sectPr: string): string {
+  const start = getLastParagraphStart(content);
+  const paragraph = content.substring(start);
+  if (start === -1 || paragraph.includes("<w:sectPr")) {
+    return `${content}<w:p><w:pPr>${sectPr}</w:pPr></w:p>`;
+  }
+  const openTag = /^<w:p(?:\s[^>]*?)?(\/?)>/.exec(paragraph)!;
+  const rest = paragraph.substring(openTag[0].length);
+  const open = openTag[1] ? openTag[0].replace(/\s*\/>$/, ">") : openTag[0];
+  const close = openTag[1] ? "</w:p>" : "";
+  const properties = /^<w:pPr\b[^>]*?(\/?)>/.exec(rest);
+  let withSectPr: string;
+  if (!properties) {
+    withSectPr = `${open}<w:pPr>${sectPr}</w:pPr>${rest}${close}`;
+  } else if (properties[1]) {
+    withSectPr = `${open}<w:pPr>${sectPr}</w:pPr>${rest.substring(properties[0].length)}${close}`;
+  } else {
+    // w:sectPr comes last in w:pPr, before any tracked change
+    const end = rest.indexOf("</w:pPr>");
+    const change = rest.lastIndexOf("<w:pPrChange", end);
+    const at = change === -1 ? end : change;
+    withSectPr = `${open}${rest.substring(0, at)}${sectPr}${rest.substring(at)}${close}`;
+  }
+  return content.substring(0, start) + withSectPr;
+}
+
+/**
+ * A rendered part without the bookmarks of the template, for the records
+ * after the first one
+ */
+export function removeTemplateBookmarks(xml: string): string {
+  return xml.replace(TEMPLATE_BOOKMARK_REGEX, "");
+}
+
+/**
+ * New part for one more record of a header or footer, related to the
+ * document like the original and with the same relationships. Resolves to its
+ * path and to the relationship ids of the original mapped to the copy's.
+ */
+export async function copyRecordPart(
+  doc: JSZip,
+  partPath: string,
+  overrides: Map<string, string>
+): Promise<{ path: string; ids: Map<string, string> }> {
+  const kind = partPath.startsWith("word/header") ? "header" : "footer";
+  let number = 1;
+  while (doc.file(`word/${kind}${number}.xml`)) number++;
+  const path = `word/${kind}${number}.xml`;
+  // The name is taken now, the content is written with the rendered parts
+  doc.file(path, "");
+  overrides.set(`/${path}`, HEADER_FOOTER_CONTENT_TYPES[kind]);
+
+  const relsFile = doc.file(getRelsPath(partPath));
+  if (relsFile) {
+    doc.file(getRelsPath(path), await relsFile.async("uint8array"));
+  }
+
+  const relsPath = getRelsPath("word/document.xml");
+  const relsDoc = await readRelationships(doc, relsPath);
+  const relationships = Array.from(
+    relsDoc.getElementsByTagName("Relationship")
+  );
+  let next = getNextRelationshipId(relsDoc);
+  const ids = new Map<string, string>();
+  for (const relationship of relationships) {
+    const target = relationship.getAttribute("Target") || "";
+    if (resolveTarget("word/document.xml", target) !== partPath) continue;
+    const copy = relsDoc.createElement("Relationship");
+    copy.setAttribute("Id", `rId${next++}`);
+    copy.setAttribute("Type", relationship.getAttribute("Type") || "");
+    copy.setAttribute("Target", path.substring("word/".length));
+    relsDoc.documentElement.appendChild(copy);
+    ids.set(relationship.getAttribute("Id") || "", copy.getAttribute("Id")!);
+  }
+  doc.file(relsPath, new XMLSerializer().serializeToString(relsDoc));
+  return { path, ids };
+}
+
+/**
+ * Point the header and footer references of a record's body to its own parts
+ */
+export function replacePartReferences(
+  xml: string,
+  ids: Map<string, string>
+): string {
+  return xml.replace(
+    PART_REFERENCE_REGEX,
+    (match, start: string, id: string) =>
+      ids.has(id) ? `${start}${ids.get(id)}"` : match
+  );
+}
+
+/**
+ * Add the footnotes or endnotes referenced by one record's body, taken from
+ * the notes part rendered for that record, to the notes part rendered for the
+ * first record. The copies are numbered after the notes already there.
+ */
+export function addRecordNotes(
+  kind: "footnote" | "endnote",
+  notesXml: string,
+  recordNotesXml: string,
+  body: string
+): { notesXml: string; body: string } {
+  const noteRegex = new RegExp(
+    `<w:${kind}\\b[^>]*?\\sw:id="(-?\\d+)"[\\s\\S]*?</w:${kind}>`,
+    "g"
+  );
+  const recordNotes = new Map(
+    Array.from(recordNotesXml.matchAll(noteRegex), ([note, id]) => [id, note])
+  );
+  let nextId =
+    Math.max(
+      0,
+      ...Array.from(notesXml.matchAll(noteRegex), ([, id]) => Number(id))
+    ) + 1;
+  const copies: string[] = [];
+  const renumbered = body.replace(
+    new RegExp(`(<w:${kind}Reference\\b[^>]*?\\sw:id=")(\\d+)"`, "g"),
+    (match, start: string, id: string) => {
+      const note = recordNotes.get(id);
+      if (!note) return match;
+      const newId = String(nextId++);
+      copies.push(
+        removeTemplateBookmarks(note).replace(
+          /\sw:id="-?\d+"/,
+          () => ` w:id="${newId}"`
+        )
+      );
+      return `${start}${newId}"`;
+    }
+  );
+  const end = notesXml.lastIndexOf(`</w:${kind}s>`);
+  return {
+    notesXml:
+      end === -1
+        ? notesXml
+        : notesXml.substring(0, end) +
+          copies.join("") +
+          notesXml.substring(end),
+    body: renumbered,
+  };
+}
+
+/**
+ * Join the rendered document bodies of several records. With section breaks
+ * each record is a section of its own whose page numbers start at 1; so is a
+ * record with headers or footers of its own between page breaks, numbered on.
+ * The bookmarks of the template are kept for the first record only.
+ */
+export function joinRecords(
+  xmls: string[],
+  separator: GenerateBatchOptions["separator"] = "page"
+): string {
+  if (xmls.length === 1) return xmls[0];
+
+  const bodies = xmls.map(splitBody);
+  const { head, sectPr, tail } = bodies[bodies.length - 1];
+  const content = bodies.map((body, index) => {
+    const xml =
+      index === 0 ? body.content : removeTemplateBookmarks(body.content);
+    if (index === bodies.length - 1) return xml;
+    if (separator === "section" && body.sectPr) {
+      return addSectionBreak(xml, restartPageNumbering(body.sectPr));
+    }
+    // A record with headers or footers of its own needs a section
+    if (body.sectPr && body.sectPr !== sectPr) {
+      return addSectionBreak(xml, body.sectPr);
+    }
+    return addPageBreak(xml);
+  });
+  const lastSectPr =
+    separator === "section" ? restartPageNumbering(sectPr) : sectPr;
+  return `${head}${content.join("")}${lastSectPr}${tail}`;
+}
@@ -0,0 +1,88 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { generateDocx } from "./index";
+import { createDocx, getText, paragraph, readPart } from "./test-utils";
+
+/** Text inside each bookmark of a document, by bookmark name */
+function getBookmarks(xml: string): Record<string, string> {
+  const bookmarks: Record<string, string> = {};
+  for (const [start, id, name] of xml.matchAll(
+    /<w:bookmarkStart w:id="(\d+)" w:name="([^"]*)"\/>/g
+  )) {
+    const from = xml.indexOf(start) + start.length;
+    const to = xml.indexOf(`<w:bookmarkEnd w:id="${id}"/>`, from);
+    assert.ok(to !== -1, `bookmark ${name} has no end`);
+    bookmarks[name] = getText(`<w:p>${xml.substring(from, to)}</w:p>`);
+  }
+  return bookmarks;
+}
+
+test("links to URLs and bookmarks with cross-references", async () => {
+  const template = await createDocx(
+    paragraph(
+      "{site} {#clauses}{title}: see {link} ({ref:appendix}){/clauses}"
+    ) +
+      paragraph("{#clauses}") +
+      paragraph("{bookmark:appendix}Appendix – {title}") +
+      paragraph("{/clauses}")
+  );
+  const output = await generateDocx(template, {
+    site: { type: "link", text: "our website", url: "https://example.com" },
+    clauses: [
+      {
+        title: "Pricing",
+        appendix: "appendix-1",
+        link: { type: "link", text: "Appendix 1", anchor: "appendix-1" },
+      },
+      {
+        title: "Terms",
+        appendix: "appendix-2",
+        link: { type: "link", text: "Appendix 2", anchor: "appendix-2" },
+      },
+    ],
+  });
+  const xml = await readPart(output, "word/document.xml");
+  assert.equal(
+    getText(xml),
+    "our website Pricing: see Appendix 1 (Appendix – Pricing)Terms: see Appendix 2 (Appendix – Terms)\nAppendix – Pricing\nAppendix – Terms"
+  );
+  assert.deepEqual(getBookmarks(xml), {
+    appendix_1: "Appendix – Pricing",
+    appendix_2: "Appendix – Terms",
+  });
+  assert.match(xml, /<w:hyperlink w:anchor="appendix_1"/);
+  assert.match(
+    xml,
+    /<w:instrText xml:space="preserve"> REF appendix_2 \\h <\/w:instrText>/
+  );
+
+  const [, rId] = /<w:hyperlink r:id="(rId\d+)"/.exec(xml)!;
+  assert.match(
+    await readPart(output, "word/_rels/document.xml.rels"),
+    new RegExp(`Id="${rId}" [^>]*Target="https://example.com"`)
+  );
+});
+
+test("ends the bookmarks of a loop inside a paragraph with their item", async () => {
+  const template = await createDocx(
+    paragraph("Items: {#items}{bookmark:id}{name}, {/items}end") +
+      paragraph(
+        '<w:r><w:t xml:space="preserve">{#items}</w:t></w:r><w:r><w:t xml:space="preserve">{bookmark:code}</w:t></w:r><w:r><w:rPr><w:b/></w:rPr><w:t>{code}</w:t></w:r><w:r><w:t xml:space="preserve">; {/items}</w:t></w:r>'
+      ) +
+      paragraph("See {ref:b}")
+  );
+  const output = await generateDocx(template, {
+    items: [
+      { id: "a", name: "Pen", code: "P1" },
+      { id: "b", name: "Ink", code: "I2" },
+    ],
+  });
+  const xml = await readPart(output, "word/document.xml");
+  assert.deepEqual(getBookmarks(xml), {
+    a: "Pen, ",
+    b: "Ink, ",
+    P1: "P1; ",
+    I2: "I2; ",
+  });
+  assert.equal(getText(xml).split("\n")[2], "See Ink, ");
+});
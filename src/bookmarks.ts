@@ -0,0 +1,202 @@
+/**
+ * Bookmarks set by {bookmark:x} tags and the REF fields of {ref:x} tags.
+ * Tags render markers; once every part is rendered, bookmarks get their ids
+ * and end points, and cross-references the text of their bookmark.
+ */
+import { createMarker } from "./docx";
+
+// Bookmark of a {bookmark:x} tag, waiting for its id and end
+const PENDING_BOOKMARK_REGEX =
+  /<w:bookmarkStart w:id="__BOOKMARK__" w:name="([^"]*)"\/>/g;
+
+// End of the bookmarks of an item of an inline loop, paired with its start
+const PENDING_BOOKMARK_END = '<w:bookmarkEnd w:id="__BOOKMARK__"/>';
+
+// Pending bookmark starts and ends, and paragraph ends, in document order
+const BOOKMARK_BOUNDARY_REGEX =
+  /<w:bookmarkStart w:id="__BOOKMARK__" w:name="([^"]*)"\/>|<w:bookmarkEnd w:id="__BOOKMARK__"\/>|<\/w:p>/g;
+
+// Result of the REF field of a {ref:x} tag
+const REFERENCE_REGEX = /\u0001REF:(\w*)\u0001/g;
+
+const BOOKMARK_START_REGEX =
+  /<w:bookmarkStart\b[^>]*?\sw:id="(\d+)"[^>]*?\sw:name="([^"]*)"[^>]*\/>|<w:bookmarkStart\b[^>]*?\sw:name="([^"]*)"[^>]*?\sw:id="(\d+)"[^>]*\/>/g;
+
+/**
+ * Word bookmark name of any text: letters, digits and underscores, at most
+ * 40 characters. Names that do not start with a letter get a leading
+ * underscore, which hides them from the bookmark list.
+ */
+export function toBookmarkName(name: string): string {
+  const safe = name.replace(/[^A-Za-z0-9_]/g, "_");
+  return (/^[A-Za-z]/.test(safe) ? safe : `_${safe}`).substring(0, 40);
+}
+
+/**
+ * Bookmark start of a {bookmark:x} tag, ended with its paragraph, or with its
+ * loop item when the loop repeats inside the paragraph
+ */
+export function renderBookmark(name: string): string {
+  return `<w:bookmarkStart w:id="__BOOKMARK__" w:name="${toBookmarkName(name)}"/>`;
+}
+
+/**
+ * End the bookmarks of an item of a loop repeated inside a paragraph with the
+ * item, so that the bookmarks of the items do not overlap
+ */
+export function endItemBookmarks(xml: string): string {
+  if (xml.includes("</w:p>")) return xml;
+  const count = xml.match(PENDING_BOOKMARK_REGEX)?.length ?? 0;
+  return xml + PENDING_BOOKMARK_END.repeat(count);
+}
+
+/**
+ * REF field of a {ref:x} tag, which shows the text of the bookmark and links
+ * to it. The result is filled in by resolveBookmarks.
+ */
+export function renderReference(name: string, props: string): string {
+  const bookmark = toBookmarkName(name);
+  const run = (content: string) => `<w:r>${props}${content}</w:r>`;
+  return (
+    run('<w:fldChar w:fldCharType="begin"/>') +
+    run(
+      `<w:instrText xml:space="preserve"> REF ${bookmark} \\h </w:instrText>`
+    ) +
+    run('<w:fldChar w:fldCharType="separate"/>') +
+    run(`<w:t xml:space="preserve">${createMarker("REF", bookmark)}</w:t>`) +
+    run('<w:fldChar w:fldCharType="end"/>')
+  );
+}
+
+function getBookmarkStarts(xml: string) {
+  return Array.from(xml.matchAll(BOOKMARK_START_REGEX), (match) => ({
+    id: match[1] ?? match[4],
+    name: match[2] ?? match[3],
+    end: match.index! + match[0].length,
+  }));
+}
+
+/**
+ * Text of the runs between a position and a bookmark end, as escaped XML,
+ * without the results of the cross-references inside
+ */
+function getBookmarkText(xml: string, start: number, id: string): string {
+  const end = new RegExp(`<w:bookmarkEnd\\b[^>]*\\sw:id="${id}"`).exec(
+    xml.substring(start)
+  );
+  const content = xml.substring(start, start + (end ? end.index : 0));
+  return Array.from(
+    content.matchAll(/<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>/g),
+    (match) => match[1]
+  )
+    .join("")
+    .replace(REFERENCE_REGEX, "");
+}
+
+/**
+ * Split the runs that an item ended inside at its pending bookmark ends
+ */
+function splitRunsAtEnds(xml: string): string {
+  const ends: number[] = [];
+  for (
+    let at = xml.indexOf(PENDING_BOOKMARK_END);
+    at !== -1;
+    at = xml.indexOf(PENDING_BOOKMARK_END, at + 1)
+  ) {
+    ends.push(at);
+  }
+  for (const at of ends.reverse()) {
+    const before = xml.substring(0, at);
+    const run = Math.max(
+      before.lastIndexOf("<w:r>"),
+      before.lastIndexOf("<w:r ")
+    );
+    if (run <= before.lastIndexOf("</w:r>")) continue;
+
+    // The rest of the run goes in a copy with the same properties
+    const start = /^<w:r\b[^>]*>(?:<w:rPr\/>|<w:rPr>[\s\S]*?<\/w:rPr>)?/.exec(
+      xml.substring(run)
+    )![0];
+    const open = start.replace(/^<w:r\b[^>]*>/, "<w:r>");
+    const text = Array.from(
+      before.matchAll(/<w:t(?:\s[^>]*)?(\/?)>|<\/w:t>/g)
+    ).pop();
+    const inText = text !== undefined && text[1] === "";
+    const rest = xml.substring(at + PENDING_BOOKMARK_END.length);
+    xml = inText
+      ? `${before}</w:t></w:r>${PENDING_BOOKMARK_END}${open}<w:t xml:space="preserve">${rest}`
+      : `${before}</w:r>${PENDING_BOOKMARK_END}${open}${rest}`;
+  }
+  return xml;
+}
+
+/**
+ * Number the bookmarks of {bookmark:x} tags after the ones of the template and
+ * end them with their loop item or their paragraph, then fill in the REF
+ * fields of {ref:x} tags. A name used twice keeps its first bookmark. Returns
+ * the parts in order.
+ */
+export function resolveBookmarks(parts: string[], debug?: boolean): string[] {
+  let nextId = 0;
+  const names = new Set<string>();
+  for (const xml of parts) {
+    for (const { id, name } of getBookmarkStarts(xml)) {
+      nextId = Math.max(nextId, Number(id) + 1);
+      names.add(name);
+    }
+  }
+
+  const resolved = parts.map((xml) => {
+    // Ids of the bookmarks not ended yet, undefined for skipped duplicates
+    let open: Array<number | undefined> = [];
+    const end = (id: number | undefined) =>
+      id === undefined ? "" : `<w:bookmarkEnd w:id="${id}"/>`;
+    xml = splitRunsAtEnds(xml).replace(
+      BOOKMARK_BOUNDARY_REGEX,
+      (match, name: string | undefined) => {
+        if (match === "</w:p>") {
+          const ends = open.reverse().map(end).join("");
+          open = [];
+          return ends + match;
+        }
+        if (name === undefined) return end(open.pop());
+        if (names.has(name)) {
+          if (debug) {
+            console.warn(`Warning: duplicate bookmark ${name} skipped`);
+          }
+          open.push(undefined);
+          return "";
+        }
+        names.add(name);
+        open.push(nextId);
+        return `<w:bookmarkStart w:id="${nextId++}" w:name="${name}"/>`;
+      }
+    );
+
+    // Bookmarks outside any paragraph stay empty
+    for (const id of open) {
+      if (id === undefined) continue;
+      xml = xml.replace(
+        new RegExp(`<w:bookmarkStart w:id="${id}" [^>]*/>`),
+        (start) => start + end(id)
+      );
+    }
+    return xml;
+  });
+
+  const texts = new Map<string, string>();
+  for (const xml of resolved) {
+    for (const { id, name, end } of getBookmarkStarts(xml)) {
+      if (!texts.has(name)) texts.set(name, getBookmarkText(xml, end, id));
+    }
+  }
+  return resolved.map((xml) =>
+    xml.replace(REFERENCE_REGEX, (match, name: string) => {
+      const text = texts.get(name);
+      if (text === undefined && debug) {
+        console.warn(`Warning: no bookmark ${name} for a cross-reference`);
+      }
+      return text ?? "";
+    })
+  );
+}
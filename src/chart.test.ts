@@ -0,0 +1,76 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import JSZip from "jszip";
+import { generateDocx } from "./index";
+import { DocxGenerationError } from "./types";
+import { createDocx, listParts, paragraph, readPart } from "./test-utils";
+
+test("embeds a native chart with its workbook", async () => {
+  const template = await createDocx(paragraph("{sales}"));
+  const output = await generateDocx(template, {
+    sales: {
+      type: "chart",
+      chartType: "column",
+      title: "Sales & costs",
+      categories: ["Q1", "Q2"],
+      series: [
+        { name: "2024", values: [12, 15], color: "4472C4" },
+        { name: "2025", values: [14, null] },
+      ],
+      altText: "Sales in $& and $'",
+      name: "Chart $1",
+    },
+  });
+  const parts = await listParts(output);
+  assert.ok(parts.includes("word/charts/chart1.xml"));
+  const workbook = parts.find((name) =>
+    /^word\/embeddings\/.*\.xlsx$/.test(name)
+  );
+  assert.ok(workbook, "the workbook is missing");
+
+  const xml = await readPart(output, "word/document.xml");
+  assert.match(
+    xml,
+    /<wp:docPr id="\d+" name="Chart \$1" descr="Sales in \$&amp; and \$'"/
+  );
+  const [, rId] = /<c:chart [^>]*r:id="(rId\d+)"/.exec(xml)!;
+  assert.match(
+    await readPart(output, "word/_rels/document.xml.rels"),
+    new RegExp(`Id="${rId}" Type="[^"]*/chart" Target="charts/chart1\\.xml"`)
+  );
+  const types = await readPart(output, "[Content_Types].xml");
+  assert.match(types, /PartName="\/word\/charts\/chart1\.xml"/);
+  assert.match(types, /<Default Extension="xlsx"/);
+
+  const chart = await readPart(output, "word/charts/chart1.xml");
+  assert.match(chart, /<c:barChart>.*<c:barDir val="col"\/>/s);
+  assert.equal(chart.match(/<c:ser>/g)?.length, 2);
+  assert.match(chart, /Sales &amp; costs/);
+  assert.match(chart, /<a:srgbClr val="4472C4"\/>/);
+  const chartRels = await readPart(output, "word/charts/_rels/chart1.xml.rels");
+  assert.ok(
+    chartRels.includes(`Target="../${workbook.slice("word/".length)}"`)
+  );
+
+  const sheet = await (
+    await JSZip.loadAsync(
+      await (await JSZip.loadAsync(output)).file(workbook)!.async("uint8array")
+    )
+  )
+    .file("xl/worksheets/sheet1.xml")!
+    .async("text");
+  assert.match(sheet, /<v>15<\/v>/);
+});
+
+test("rejects invalid chart data", async () => {
+  const template = await createDocx(paragraph("{sales}"));
+  // Data parsed from JSON is not checked by the compiler
+  const data = JSON.parse(
+    '{"sales": {"type": "chart", "chartType": "radar", "categories": [], "series": []}}'
+  );
+  await assert.rejects(
+    generateDocx(template, data),
+    (error: unknown) =>
+      error instanceof DocxGenerationError && error.code === "INVALID_CHART"
+  );
+});
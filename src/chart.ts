@@ -0,0 +1,398 @@
+/**
+ * Native Word charts: the DrawingML chart part with its cached data, and the
+ * workbook embedded next to it, which Word opens to edit the data
+ */
+import JSZip from "jszip";
+import { DOMParser, XMLSerializer } from "xmldom";
+import { ChartData, ChartSeries, DocxGenerationError } from "./types";
+import { escapeXml } from "./docx";
+
+const CHART_NAMESPACES =
+  'xmlns:c="http://schemas.openxmlformats.org/drawingml/2006/chart" ' +
+  'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" ' +
+  'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"';
+
+const SPREADSHEET_NAMESPACE =
+  "http://schemas.openxmlformats.org/spreadsheetml/2006/main";
+
+const CATEGORY_AXIS_ID = 111111111;
+const VALUE_AXIS_ID = 222222222;
+
+const LEGEND_POSITIONS = { top: "t", bottom: "b", left: "l", right: "r" };
+
+export function isChartData(value: unknown): value is ChartData {
+  return (
+    value !== null &&
+    typeof value === "object" &&
+    (value as ChartData).type === "chart"
+  );
+}
+
+/**
+ * Check the data of a chart before anything is written
+ */
+export function validateChart(chart: ChartData): void {
+  const fail = (message: string) => {
+    throw new DocxGenerationError(message, "INVALID_CHART", {
+      chartType: chart.chartType,
+    });
+  };
+  if (!["column", "bar", "line", "pie"].includes(chart.chartType)) {
+    fail(`Unknown chart type "${chart.chartType}"`);
+  }
+  if (!Array.isArray(chart.categories) || !Array.isArray(chart.series)) {
+    fail("A chart needs arrays of categories and series");
+  }
+  for (const series of chart.series) {
+    if (!series || !Array.isArray(series.values)) {
+      fail(`Series "${series?.name}" of a chart has no array of values`);
+    }
+  }
+}
+
+/**
+ * Column letters of a worksheet column, 0 for A
+ */
+function getColumnName(index: number): string {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+/**
+ * Sheet1 range of a column, from row 2 to the last category
+ */
+function getDataRange(column: number, count: number): string {
+  const name = getColumnName(column);
+  return `Sheet1!$${name}$2:$${name}$${Math.max(count, 1) + 1}`;
+}
+
+function createStringReference(range: string, values: unknown[]): string {
+  const points = values
+    .map((value, index) =>
+      value == null
+        ? ""
+        : `<c:pt idx="${index}"><c:v>${escapeXml(String(value))}</c:v></c:pt>`
+    )
+    .join("");
+  return `<c:strRef><c:f>${range}</c:f><c:strCache><c:ptCount val="${values.length}"/>${points}</c:strCache></c:strRef>`;
+}
+
+function createNumberReference(
+  range: string,
+  values: ChartSeries["values"],
+  count: number
+): string {
+  let points = "";
+  for (let index = 0; index < count; index++) {
+    const value = values[index];
+    if (isNumber(value)) {
+      points += `<c:pt idx="${index}"><c:v>${value}</c:v></c:pt>`;
+    }
+  }
+  return `<c:numRef><c:f>${range}</c:f><c:numCache><c:formatCode>General</c:formatCode><c:ptCount val="${count}"/>${points}</c:numCache></c:numRef>`;
+}
+
+function getColor(color: string): string {
+  const value = color.replace(/^#/, "");
+  if (!/^[0-9a-f]{6}$/i.test(value)) {
+    throw new DocxGenerationError(
+      `Invalid colour "${color}", expected a hex colour such as "4472C4"`,
+      "INVALID_CHART",
+      { color }
+    );
+  }
+  return value.toUpperCase();
+}
+
+function createShapeProperties(
+  chartType: ChartData["chartType"],
+  color: string
+): string {
+  const fill = `<a:solidFill><a:srgbClr val="${getColor(color)}"/></a:solidFill>`;
+  return chartType === "line"
+    ? `<c:spPr><a:ln w="28575" cap="rnd">${fill}<a:round/></a:ln></c:spPr>`
+    : `<c:spPr>${fill}</c:spPr>`;
+}
+
+/**
+ * Name, categories and values of a series, read from column index + 1
+ */
+function createSeriesData(
+  chart: ChartData,
+  series: ChartSeries,
+  index: number
+) {
+  const count = chart.categories.length;
+  const column = getColumnName(index + 1);
+  return {
+    tx: `<c:tx>${createStringReference(`Sheet1!$${column}$1`, [series.name])}</c:tx>`,
+    cat: `<c:cat>${createStringReference(getDataRange(0, count), chart.categories)}</c:cat>`,
+    val: `<c:val>${createNumberReference(getDataRange(index + 1, count), series.values, count)}</c:val>`,
+  };
+}
+
+function createSeries(
+  chart: ChartData,
+  series: ChartSeries,
+  index: number
+): string {
+  const { chartType } = chart;
+  const { tx, cat, val } = createSeriesData(chart, series, index);
+  const spPr = series.color
+    ? createShapeProperties(chartType, series.color)
+    : "";
+
+  let xml = `<c:ser><c:idx val="${index}"/><c:order val="${index}"/>${tx}${spPr}`;
+  if (chartType === "column" || chartType === "bar") {
+    xml += '<c:invertIfNegative val="0"/>';
+  } else if (chartType === "line") {
+    xml += '<c:marker><c:symbol val="none"/></c:marker>';
+  }
+  xml += cat + val;
+  if (chartType === "line") xml += '<c:smooth val="0"/>';
+  return `${xml}</c:ser>`;
+}
+
+function createTitleText(title: string): string {
+  return `<c:tx><c:rich><a:bodyPr/><a:lstStyle/><a:p><a:pPr><a:defRPr/></a:pPr><a:r><a:t>${escapeXml(title)}</a:t></a:r></a:p></c:rich></c:tx>`;
+}
+
+function createPlot(chart: ChartData): string {
+  const { chartType, stacked } = chart;
+  const series = chart.series
+    .map((item, index) => createSeries(chart, item, index))
+    .join("");
+  const axisIds = `<c:axId val="${CATEGORY_AXIS_ID}"/><c:axId val="${VALUE_AXIS_ID}"/>`;
+
+  if (chartType === "pie") {
+    return `<c:pieChart><c:varyColors val="1"/>${series}<c:firstSliceAng val="0"/></c:pieChart>`;
+  }
+
+  let plot: string;
+  if (chartType === "line") {
+    plot = `<c:lineChart><c:grouping val="${stacked ? "stacked" : "standard"}"/><c:varyColors val="0"/>${series}<c:marker val="1"/>${axisIds}</c:lineChart>`;
+  } else {
+    const overlap = stacked ? '<c:overlap val="100"/>' : "";
+    plot = `<c:barChart><c:barDir val="${chartType === "bar" ? "bar" : "col"}"/><c:grouping val="${stacked ? "stacked" : "clustered"}"/><c:varyColors val="0"/>${series}<c:gapWidth val="150"/>${overlap}${axisIds}</c:barChart>`;
+  }
+
+  // Horizontal bars have their categories on the left
+  const [categoryPosition, valuePosition] =
+    chartType === "bar" ? ["l", "b"] : ["b", "l"];
+  return (
+    plot +
+    `<c:catAx><c:axId val="${CATEGORY_AXIS_ID}"/><c:scaling><c:orientation val="minMax"/></c:scaling><c:delete val="0"/><c:axPos val="${categoryPosition}"/><c:numFmt formatCode="General" sourceLinked="1"/><c:majorTickMark val="none"/><c:minorTickMark val="none"/><c:tickLblPos val="nextTo"/><c:crossAx val="${VALUE_AXIS_ID}"/><c:crosses val="autoZero"/><c:auto val="1"/><c:lblAlgn val="ctr"/><c:lblOffset val="100"/><c:noMultiLvlLbl val="0"/></c:catAx>` +
+    `<c:valAx><c:axId val="${VALUE_AXIS_ID}"/><c:scaling><c:orientation val="minMax"/></c:scaling><c:delete val="0"/><c:axPos val="${valuePosition}"/><c:majorGridlines/><c:numFmt formatCode="General" sourceLinked="1"/><c:majorTickMark val="none"/><c:minorTickMark val="none"/><c:tickLblPos val="nextTo"/><c:crossAx val="${CATEGORY_AXIS_ID}"/><c:crosses val="autoZero"/><c:crossBetween val="between"/></c:valAx>`
+  );
+}
+
+/**
+ * Chart part (word/charts/chartN.xml) of a new chart, whose data is the
+ * workbook of relationship `workbookId`
+ */
+export function createChartPart(chart: ChartData, workbookId: string): string {
+  const title =
+    chart.title == null
+      ? '<c:autoTitleDeleted val="1"/>'
+      : `<c:title>${createTitleText(chart.title)}<c:overlay val="0"/></c:title><c:autoTitleDeleted val="0"/>`;
+  const position = LEGEND_POSITIONS[chart.legend || "bottom"];
+  const legend =
+    chart.legend === false
+      ? ""
+      : `<c:legend><c:legendPos val="${position}"/><c:overlay val="0"/></c:legend>`;
+
+  return (
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+    `<c:chartSpace ${CHART_NAMESPACES}><c:date1904 val="0"/><c:roundedCorners val="0"/>` +
+    `<c:chart>${title}<c:plotArea><c:layout/>${createPlot(chart)}</c:plotArea>${legend}<c:plotVisOnly val="1"/><c:dispBlanksAs val="gap"/></c:chart>` +
+    `<c:externalData r:id="${workbookId}"><c:autoUpdate val="0"/></c:externalData></c:chartSpace>`
+  );
+}
+
+/**
+ * Parse chart markup into nodes of `doc`
+ */
+function createElement(doc: Document, xml: string): Element {
+  const fragment = new DOMParser().parseFromString(
+    `<c:root ${CHART_NAMESPACES}>${xml}</c:root>`,
+    "text/xml"
+  );
+  return doc.importNode(fragment.documentElement.firstChild!, true) as Element;
+}
+
+function getChild(parent: Element, name: string): Element | undefined {
+  for (let node = parent.firstChild; node; node = node.nextSibling) {
+    if (node.nodeType === 1 && node.nodeName === name) return node as Element;
+  }
+  return undefined;
+}
+
+function replaceChild(parent: Element, name: string, element: Element): void {
+  const current = getChild(parent, name);
+  if (current) parent.replaceChild(element, current);
+}
+
+/**
+ * Chart part of a template chart with the data of `chart`. Each series is a
+ * copy of the template series at the same index, or of the last one, so the
+ * chart keeps its type and formatting. The workbook of relationship
+ * `workbookId` holds the new data.
+ */
+export function updateChartPart(
+  xml: string,
+  chart: ChartData,
+  workbookId: string
+): string {
+  const doc = new DOMParser().parseFromString(xml, "text/xml");
+  const templates = Array.from(doc.getElementsByTagName("c:ser"));
+  // Scatter and bubble charts have x and y values instead
+  if (templates.length === 0 || !getChild(templates[0], "c:val")) {
+    throw new DocxGenerationError(
+      "The template chart has no series with categories and values to copy",
+      "INVALID_CHART",
+      { chartType: chart.chartType }
+    );
+  }
+
+  chart.series.forEach((series, index) => {
+    const template = templates[Math.min(index, templates.length - 1)];
+    const ser = template.cloneNode(true) as Element;
+    const data = createSeriesData(chart, series, index);
+    getChild(ser, "c:idx")?.setAttribute("val", String(index));
+    getChild(ser, "c:order")?.setAttribute("val", String(index));
+
+    const tx = createElement(doc, data.tx);
+    if (getChild(ser, "c:tx")) replaceChild(ser, "c:tx", tx);
+    else ser.insertBefore(tx, getChild(ser, "c:order")!.nextSibling);
+    if (series.color) {
+      const spPr = createElement(
+        doc,
+        createShapeProperties(chart.chartType, series.color)
+      );
+      if (getChild(ser, "c:spPr")) replaceChild(ser, "c:spPr", spPr);
+      else ser.insertBefore(spPr, tx.nextSibling);
+    }
+    const cat = createElement(doc, data.cat);
+    if (getChild(ser, "c:cat")) replaceChild(ser, "c:cat", cat);
+    else ser.insertBefore(cat, getChild(ser, "c:val") || null);
+    replaceChild(ser, "c:val", createElement(doc, data.val));
+    // Extensions hold ids and filtered data of the template series
+    const extensions = getChild(ser, "c:extLst");
+    if (extensions) ser.removeChild(extensions);
+
+    template.parentNode!.insertBefore(ser, template);
+  });
+  templates.forEach((template) => template.parentNode!.removeChild(template));
+
+  const chartElement = doc.getElementsByTagName("c:chart")[0];
+  if (chart.title != null && chartElement) {
+    const title = getChild(chartElement, "c:title");
+    const text = createElement(doc, createTitleText(chart.title));
+    if (title && getChild(title, "c:tx")) {
+      replaceChild(title, "c:tx", text);
+    } else if (title) {
+      title.insertBefore(text, title.firstChild);
+    } else {
+      const element = createElement(doc, "<c:title/>");
+      element.appendChild(text);
+      chartElement.insertBefore(element, chartElement.firstChild);
+    }
+    getChild(chartElement, "c:autoTitleDeleted")?.setAttribute("val", "0");
+  }
+
+  // The data of the chart comes from the new workbook
+  const root = doc.documentElement;
+  const externalData = getChild(root, "c:externalData");
+  if (externalData) {
+    externalData.setAttribute("r:id", workbookId);
+  } else {
+    const element = createElement(
+      doc,
+      `<c:externalData r:id="${workbookId}"><c:autoUpdate val="0"/></c:externalData>`
+    );
+    const next = ["c:printSettings", "c:userShapes", "c:extLst"]
+      .map((name) => getChild(root, name))
+      .find(Boolean);
+    root.insertBefore(element, next || null);
+  }
+
+  return new XMLSerializer().serializeToString(doc);
+}
+
+function createCell(reference: string, value: unknown): string {
+  if (value == null || value === "") return "";
+  if (isNumber(value)) return `<c r="${reference}"><v>${value}</v></c>`;
+  return `<c r="${reference}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+}
+
+/**
+ * Workbook holding the data of a chart: categories in column A, one column
+ * per series, series names in row 1
+ */
+export async function createChartWorkbook(
+  chart: ChartData
+): Promise<Uint8Array> {
+  const rows = [
+    [undefined, ...chart.series.map((series) => series.name)],
+    ...chart.categories.map((category, index) => [
+      category,
+      ...chart.series.map((series) => series.values[index]),
+    ]),
+  ];
+  const sheetData = rows
+    .map((cells, row) => {
+      const content = cells
+        .map((value, column) =>
+          createCell(`${getColumnName(column)}${row + 1}`, value)
+        )
+        .join("");
+      return `<row r="${row + 1}">${content}</row>`;
+    })
+    .join("");
+
+  const header = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+  const zip = new JSZip();
+  zip.file(
+    "[Content_Types].xml",
+    header +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+      "</Types>"
+  );
+  zip.file(
+    "_rels/.rels",
+    header +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+      "</Relationships>"
+  );
+  zip.file(
+    "xl/workbook.xml",
+    header +
+      `<workbook xmlns="${SPREADSHEET_NAMESPACE}" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">` +
+      '<sheets><sheet name="Sheet1" sheetId="1" r:id="rId1"/></sheets></workbook>'
+  );
+  zip.file(
+    "xl/_rels/workbook.xml.rels",
+    header +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+      "</Relationships>"
+  );
+  zip.file(
+    "xl/worksheets/sheet1.xml",
+    header +
+      `<worksheet xmlns="${SPREADSHEET_NAMESPACE}"><sheetData>${sheetData}</sheetData></worksheet>`
+  );
+  return zip.generateAsync({ type: "uint8array", compression: "DEFLATE" });
+}
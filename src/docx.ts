@@ -0,0 +1,273 @@
+/**
+ * Helpers for reading WordprocessingML packages, shared by generation,
+ * validation and inspection
+ */
+import JSZip from "jszip";
+import { DOMParser, XMLSerializer } from "xmldom";
+
+// Cross-platform buffer handling
+export function ensureBuffer(data: Buffer | Uint8Array | ArrayBuffer): Buffer {
+  if (typeof Buffer !== "undefined" && Buffer.isBuffer(data)) {
+    return data;
+  }
+  if (data instanceof ArrayBuffer) {
+    return typeof Buffer !== "undefined"
+      ? Buffer.from(data)
+      : (new Uint8Array(data) as any);
+  }
+  if (data instanceof Uint8Array) {
+    return typeof Buffer !== "undefined" ? Buffer.from(data) : (data as any);
+  }
+  return data as Buffer;
+}
+
+// Parts of the package that may contain template tags
+const TEMPLATE_PART_REGEX =
+  /^word\/(document|header\d*|footer\d*|footnotes|endnotes)\.xml$/;
+
+/**
+ * List the template parts of a package: the main document first, then headers,
+ * footers, footnotes and endnotes
+ */
+export function getTemplateParts(doc: JSZip): string[] {
+  return doc
+    .file(TEMPLATE_PART_REGEX)
+    .map((file) => file.name)
+    .sort((a, b) => {
+      if (a === "word/document.xml") return -1;
+      if (b === "word/document.xml") return 1;
+      return a.localeCompare(b, undefined, { numeric: true });
+    });
+}
+
+const EMPTY_RELATIONSHIPS_XML =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+  '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"></Relationships>';
+
+/**
+ * Path of the relationships part belonging to a part, e.g.
+ * word/header1.xml -> word/_rels/header1.xml.rels
+ */
+export function getRelsPath(partPath: string): string {
+  const slash = partPath.lastIndexOf("/");
+  return `${partPath.substring(0, slash)}/_rels/${partPath.substring(slash + 1)}.rels`;
+}
+
+/**
+ * Relationships of a package, read from a .rels part or empty
+ */
+export async function readRelationships(
+  doc: JSZip,
+  relsPath: string
+): Promise<Document> {
+  const relsFile = doc.file(relsPath);
+  const relsXml = relsFile
+    ? await relsFile.async("text")
+    : EMPTY_RELATIONSHIPS_XML;
+  return new DOMParser().parseFromString(relsXml, "text/xml");
+}
+
+/**
+ * Number following the highest rIdN of a relationships part
+ */
+export function getNextRelationshipId(relsDoc: Document): number {
+  let next = 1;
+  const relationships = relsDoc.getElementsByTagName("Relationship");
+  for (let i = 0; i < relationships.length; i++) {
+    const match = /^rId(\d+)$/.exec(relationships[i].getAttribute("Id") || "");
+    if (match) next = Math.max(next, Number(match[1]) + 1);
+  }
+  return next;
+}
+
+/**
+ * Resolve the target of a relationship of `partPath` to a package path
+ */
+export function resolveTarget(partPath: string, target: string): string {
+  if (target.startsWith("/")) return target.substring(1);
+  const path = partPath.substring(0, partPath.lastIndexOf("/")).split("/");
+  for (const segment of target.split("/")) {
+    if (segment === "..") path.pop();
+    else if (segment !== ".") path.push(segment);
+  }
+  return path.join("/");
+}
+
+/**
+ * Parse XML, collecting the parser errors instead of logging them
+ */
+export function parseXml(xml: string): { doc: Document; errors: string[] } {
+  const errors: string[] = [];
+  const doc = new DOMParser({
+    errorHandler: {
+      warning: () => {},
+      error: (message: string) => errors.push(message),
+      fatalError: (message: string) => errors.push(message),
+    },
+  }).parseFromString(xml, "text/xml");
+  return { doc, errors };
+}
+
+export function getParagraphs(doc: Document): Element[] {
+  return Array.from(doc.getElementsByTagName("w:p"));
+}
+
+export function getParagraphText(paragraph: Element): string {
+  return Array.from(paragraph.getElementsByTagName("w:t"))
+    .map((t) => t.textContent || "")
+    .join("");
+}
+
+/**
+ * Zero-based index of the paragraph containing a character offset of the XML
+ */
+export function getParagraphIndex(xml: string, offset: number): number {
+  return (xml.substring(0, offset).match(/<w:p[\s>/]/g) || []).length - 1;
+}
+
+// Characters that are not allowed anywhere in an XML document
+const INVALID_XML_CHARS = /[\x00-\x08\x0B\x0C\x0E-\x1F\uFFFE\uFFFF]/g;
+
+/**
+ * Escape text for use as XML character data or attribute value
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(INVALID_XML_CHARS, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Marker left in rendered XML for content added afterwards, e.g. the drawing
+ * of an image. Its delimiter is not allowed in XML and escapeXml strips it, so
+ * neither templates nor data can produce a marker.
+ */
+export function createMarker(kind: string, id: number | string): string {
+  return `\u0001${kind}:${id}\u0001`;
+}
+
+/**
+ * Normalize DOCX text by merging split text runs to handle placeholders properly
+ */
+export function normalizeDocxText(xmlString: string) {
+  // This function merges adjacent <w:t> elements that might split placeholders
+  const xmlDoc = new DOMParser().parseFromString(xmlString, "text/xml");
+  const textNodes = xmlDoc.getElementsByTagName("w:t");
+
+  // Extract all text content and merge it
+  let fullText = "";
+  const textElements: Array<{
+    element: Element;
+    text: string;
+    startIndex: number;
+  }> = [];
+
+  for (let i = 0; i < textNodes.length; i++) {
+    const textNode = textNodes[i];
+    const text = textNode.textContent || "";
+    fullText += text;
+    textElements.push({
+      element: textNode,
+      text: text,
+      startIndex: fullText.length - text.length,
+    });
+  }
+
+  // Find placeholders in the full text
+  const placeholderRegex = /{[^}]+}/g;
+  let match;
+  const replacements: Array<{
+    placeholder: string;
+    start: number;
+    end: number;
+  }> = [];
+
+  while ((match = placeholderRegex.exec(fullText)) !== null) {
+    replacements.push({
+      placeholder: match[0],
+      start: match.index,
+      end: match.index + match[0].length,
+    });
+  }
+
+  // Create a map of elements to their replacement content
+  const elementReplacements = new Map<Element, string>();
+
+  // Process each element to build its final content
+  textElements.forEach((textEl) => {
+    const elStart = textEl.startIndex;
+    const elEnd = textEl.startIndex + textEl.text.length;
+
+    // Find all placeholders that overlap with this element
+    const overlappingPlaceholders = replacements.filter(
+      (replacement) => elStart < replacement.end && elEnd > replacement.start
+    );
+
+    if (overlappingPlaceholders.length === 0) {
+      // No placeholders affect this element, keep original content
+      return;
+    }
+
+    // Build the content for this element
+    let elementContent = "";
+    let currentPos = elStart;
+
+    // Sort overlapping placeholders by start position
+    overlappingPlaceholders.sort((a, b) => a.start - b.start);
+
+    for (const replacement of overlappingPlaceholders) {
+      // Add any text before this placeholder (within this element's range)
+      const beforeStart = Math.max(currentPos, elStart);
+      const beforeEnd = Math.min(replacement.start, elEnd);
+      if (beforeStart < beforeEnd) {
+        elementContent += fullText.substring(beforeStart, beforeEnd);
+      }
+
+      // Add the placeholder (only if it starts within this element)
+      if (replacement.start >= elStart && replacement.start < elEnd) {
+        elementContent += replacement.placeholder;
+      }
+
+      // Move current position past this placeholder
+      currentPos = Math.max(currentPos, replacement.end);
+    }
+
+    // Add any remaining text after the last placeholder
+    if (currentPos < elEnd) {
+      elementContent += fullText.substring(currentPos, elEnd);
+    }
+
+    // Store the replacement for this element
+    elementReplacements.set(textEl.element, elementContent);
+  });
+
+  // Apply all replacements
+  elementReplacements.forEach((content, element) => {
+    element.textContent = content;
+  });
+
+  // Clear elements that had overlapping placeholders but aren't the primary element
+  replacements.forEach((replacement) => {
+    let primaryElementSet = false;
+
+    textElements.forEach((textEl) => {
+      const elStart = textEl.startIndex;
+      const elEnd = textEl.startIndex + textEl.text.length;
+
+      if (elStart < replacement.end && elEnd > replacement.start) {
+        if (elementReplacements.has(textEl.element) && !primaryElementSet) {
+          // This is the primary element for this placeholder range, keep its content
+          primaryElementSet = true;
+        } else if (!elementReplacements.has(textEl.element)) {
+          // This element was affected but doesn't have replacement content, clear it
+          textEl.element.textContent = "";
+        }
+      }
+    });
+  });
+
+  return new XMLSerializer().serializeToString(xmlDoc);
+}
@@ -0,0 +1,177 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { generateDocx } from "./index";
+import { ImageData } from "./types";
+import {
+  createDocx,
+  JPEG_IMAGE,
+  listParts,
+  paragraph,
+  readPart,
+  table,
+} from "./test-utils";
+
+test("embeds images of loop items and table rows once each", async () => {
+  const template = await createDocx(
+    paragraph("{#people}{photo}{/people}") +
+      table(["{table:products}{name}", "{photo}"])
+  );
+  const photo: ImageData = {
+    type: "image",
+    buffer: JPEG_IMAGE,
+    widthInches: 1,
+  };
+  const output = await generateDocx(template, {
+    people: [{ photo }, { photo }],
+    products: [
+      { name: "Pen", photo },
+      { name: "Ink", photo: { ...photo, altText: "Ink" } },
+    ],
+  });
+  const xml = await readPart(output, "word/document.xml");
+  const embeds = Array.from(
+    xml.matchAll(/<a:blip r:embed="(rId\d+)"/g),
+    (match) => match[1]
+  );
+  assert.equal(embeds.length, 4);
+  assert.equal(new Set(embeds).size, 1);
+  assert.deepEqual(
+    (await listParts(output)).filter((name) => name.startsWith("word/media/")),
+    ["word/media/image1.jpg"]
+  );
+  const cells = Array.from(xml.matchAll(/<w:tc>[\s\S]*?<\/w:tc>/g));
+  assert.equal(cells.length, 4);
+  assert.match(cells[3][0], /<w:drawing>/);
+});
+
+test("gives drawings unique ids and keeps their alt text as is", async () => {
+  const template = await createDocx({
+    body: paragraph("{logo}") + paragraph("{photo}"),
+    header: paragraph("{logo}"),
+  });
+  const output = await generateDocx(template, {
+    logo: { type: "image", buffer: JPEG_IMAGE, altText: "Price: $& or $1 <€>" },
+    photo: { type: "image", buffer: JPEG_IMAGE, title: "$$ photo" },
+  });
+  const body = await readPart(output, "word/document.xml");
+  const header = await readPart(output, "word/header1.xml");
+  const ids = Array.from(
+    (body + header).matchAll(/<wp:docPr id="(\d+)"/g),
+    (match) => match[1]
+  );
+  assert.equal(ids.length, 3);
+  assert.equal(new Set(ids).size, 3);
+  for (const xml of [body, header]) {
+    assert.match(xml, /descr="Price: \$&amp; or \$1 &lt;€&gt;"/);
+  }
+  assert.match(body, /title="\$\$ photo"/);
+  assert.doesNotMatch(body + header, /__IMAGE__/);
+});
+
+test("anchors, rotates, crops and borders an image", async () => {
+  const template = await createDocx(paragraph("{stamp}"));
+  const output = await generateDocx(template, {
+    stamp: {
+      type: "image",
+      buffer: JPEG_IMAGE,
+      widthInches: 2,
+      position: {
+        horizontalRelativeTo: "page",
+        verticalRelativeTo: "page",
+        x: 2,
+        y: 3,
+        unit: "cm",
+        wrap: "behindText",
+      },
+      rotation: 15,
+      crop: { left: 10, right: 10 },
+      border: { color: "1F3864", widthPt: 1.5 },
+    },
+  });
+  const xml = await readPart(output, "word/document.xml");
+  assert.match(xml, /<wp:anchor [^>]*behindDoc="1"/);
+  assert.doesNotMatch(xml, /<wp:inline/);
+  assert.match(
+    xml,
+    /<wp:positionH relativeFrom="page"><wp:posOffset>720000<\/wp:posOffset><\/wp:positionH>/
+  );
+  assert.match(
+    xml,
+    /<wp:positionV relativeFrom="page"><wp:posOffset>1080000<\/wp:posOffset><\/wp:positionV>/
+  );
+  assert.match(xml, /<wp:wrapNone\/>/);
+  assert.match(xml, /<a:xfrm rot="900000">/);
+  assert.match(xml, /<a:srcRect l="10000" r="10000"\/>/);
+  assert.match(
+    xml,
+    /<a:ln w="19050">\s*<a:solidFill>\s*<a:srgbClr val="1F3864"\/>/
+  );
+});
+
+test("replaces a template picture found by its alt text", async () => {
+  // A generated picture whose alt text is a tag serves as the template
+  const template = await generateDocx(
+    await createDocx(paragraph("{picture}")),
+    {
+      picture: {
+        type: "image",
+        buffer: JPEG_IMAGE,
+        widthInches: 2,
+        altText: "{logo}",
+      },
+    }
+  );
+  const output = await generateDocx(template, {
+    logo: {
+      type: "image",
+      buffer: JPEG_IMAGE,
+      altText: "Cost $& and $1",
+      name: "Logo $'",
+    },
+  });
+  const extent = /<wp:extent [^>]*>/.exec(
+    await readPart(template, "word/document.xml")
+  )?.[0];
+  const xml = await readPart(output, "word/document.xml");
+  assert.equal(xml.match(/<w:drawing>/g)?.length, 1);
+  assert.equal(/<wp:extent [^>]*>/.exec(xml)?.[0], extent);
+  assert.match(
+    xml,
+    /<wp:docPr id="\d+" name="Logo \$'" descr="Cost \$&amp; and \$1"/
+  );
+  assert.doesNotMatch(xml, /\{logo\}/);
+});
+
+test("limits image sizes to the page, the cell or maxImageWidth", async () => {
+  const template = await createDocx(paragraph("{photo}") + table(["{photo}"]));
+  const data = { photo: { type: "image" as const, buffer: JPEG_IMAGE } };
+  const getWidths = async (buffer: Buffer | Uint8Array) =>
+    Array.from(
+      (await readPart(buffer, "word/document.xml")).matchAll(
+        /<wp:extent cx="(\d+)" cy="(\d+)"\/>/g
+      ),
+      ([, cx, cy]) => [Number(cx) / 914400, Number(cy) / Number(cx)]
+    );
+  const ratio = 1968 / 2808;
+
+  // 39 inches wide at 72 DPI: 6 inches at most by default
+  for (const [width, height] of await getWidths(
+    await generateDocx(template, data)
+  )) {
+    assert.equal(width, 6);
+    assert.ok(Math.abs(height - ratio) < 0.001);
+  }
+
+  // The text width of the page, and the width of the 2000 twips cell
+  const [page, cell] = await getWidths(
+    await generateDocx(template, data, { maxImageWidth: "auto" })
+  );
+  assert.equal(page[0], 6.5);
+  assert.ok(cell[0] > 1 && cell[0] <= 2000 / 1440, `cell width ${cell[0]}`);
+  assert.ok(Math.abs(cell[1] - ratio) < 0.001);
+
+  const [small] = await getWidths(
+    await generateDocx(template, data, { maxImageWidth: 2, maxImageHeight: 1 })
+  );
+  assert.ok(Math.abs(small[0] - 1 / ratio) < 0.001);
+});
@@ -0,0 +1,702 @@
+/**
+ * DrawingML markup of embedded pictures: inline or floating drawings with
+ * their size, crop, rotation and outline
+ */
+import { GenerateDocxOptions, ImageData, ImagePosition } from "./types";
+import { escapeXml } from "./docx";
+
+const EMU_PER_INCH = 914400;
+const EMU_PER_CM = 360000;
+const EMU_PER_PIXEL = 9525;
+const EMU_PER_POINT = 12700;
+
+/** Size of a drawing in EMUs */
+export interface Extent {
+  cx: number;
+  cy: number;
+}
+
+type DrawingImage = Omit<ImageData, "type">;
+
+/**
+ * Relationships and id of a drawing: the picture (the PNG fallback of an SVG
+ * image), the SVG image, the hyperlink followed on click
+ */
+export interface DrawingReference {
+  rId: string;
+  svgId?: string;
+  linkId?: string;
+  /** wp:docPr id, unique in the document */
+  id: number;
+}
+
+const SVG_EXTENSION_URI = "{96DAC541-7B7A-43D3-8B79-37D633B846F1}";
+
+function createSvgExtension(svgId: string): string {
+  return `<a:ext uri="${SVG_EXTENSION_URI}"><asvg:svgBlip xmlns:asvg="http://schemas.microsoft.com/office/drawing/2016/SVG/main" r:embed="${svgId}"/></a:ext>`;
+}
+
+function createBlip({ rId, svgId }: DrawingReference): string {
+  if (!svgId) return `<a:blip r:embed="${rId}"/>`;
+  return `<a:blip r:embed="${rId}"><a:extLst>${createSvgExtension(svgId)}</a:extLst></a:blip>`;
+}
+
+/**
+ * Room taken around a rotated picture, so that text does not overlap it
+ */
+function createEffectExtent(extent: Extent, rotation = 0): string {
+  const angle = ((rotation % 180) * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(angle));
+  const sin = Math.abs(Math.sin(angle));
+  const x = Math.max(0, (extent.cx * cos + extent.cy * sin - extent.cx) / 2);
+  const y = Math.max(0, (extent.cx * sin + extent.cy * cos - extent.cy) / 2);
+  return `<wp:effectExtent l="${Math.round(x)}" t="${Math.round(y)}" r="${Math.round(x)}" b="${Math.round(y)}"/>`;
+}
+
+type Crop = NonNullable<DrawingImage["crop"]>;
+
+/**
+ * Largest size of an image, in EMUs. Images shown at their natural size are
+ * scaled down to `width` × `height`; `availableWidth`, the room left by the
+ * page or cell and maxWidthInches, also limits images given a size.
+ */
+export interface ExtentLimits {
+  width: number;
+  height: number;
+  availableWidth?: number;
+}
+
+export const DEFAULT_EXTENT_LIMITS: ExtentLimits = {
+  width: 6 * EMU_PER_INCH,
+  height: 6 * EMU_PER_INCH,
+};
+
+/**
+ * Limits of an image from the maxImageWidth/maxImageHeight options and its
+ * maxWidthInches. `availableWidth` is the room of the page or cell, used when
+ * maxImageWidth is "auto".
+ */
+export function getExtentLimits(
+  options: Pick<GenerateDocxOptions, "maxImageWidth" | "maxImageHeight">,
+  imageData: DrawingImage,
+  availableWidth?: number
+): ExtentLimits {
+  const limits = { ...DEFAULT_EXTENT_LIMITS, availableWidth };
+  if (typeof options.maxImageWidth === "number") {
+    limits.width = options.maxImageWidth * EMU_PER_INCH;
+  } else if (availableWidth !== undefined) {
+    limits.width = availableWidth;
+  }
+  if (options.maxImageHeight) {
+    limits.height = options.maxImageHeight * EMU_PER_INCH;
+  }
+  if (imageData.maxWidthInches) {
+    limits.availableWidth = Math.min(
+      availableWidth ?? Infinity,
+      imageData.maxWidthInches * EMU_PER_INCH
+    );
+  }
+  return limits;
+}
+
+/**
+ * Fit an image of the given aspect ratio into a frame: shrink one side of the
+ * frame to the image ("contain"), or crop the sides of the image that
+ * overflow the frame, as much on each side ("cover"). The crop is in percent
+ * of the image.
+ */
+function fitToFrame(
+  ratio: number,
+  frame: Extent,
+  fit: "contain" | "cover"
+): { extent: Extent; crop?: Crop } {
+  const frameRatio = frame.cx / frame.cy;
+  if (fit === "cover") {
+    if (ratio > frameRatio) {
+      const side = 50 * (1 - frameRatio / ratio);
+      return { extent: frame, crop: { left: side, right: side } };
+    }
+    const side = 50 * (1 - ratio / frameRatio);
+    return { extent: frame, crop: { top: side, bottom: side } };
+  }
+
+  return {
+    extent:
+      ratio > frameRatio
+        ? { cx: frame.cx, cy: Math.round(frame.cx / ratio) }
+        : { cx: Math.round(frame.cy * ratio), cy: frame.cy },
+  };
+}
+
+/**
+ * Size and crop of a new drawing. The image fills `frame` (the size of a
+ * placeholder picture) or widthInches × heightInches, as fitted by
+ * imageData.fit; with one of them, it keeps its aspect ratio; otherwise its
+ * pixel size (without the cropped parts) is scaled down to the limits.
+ */
+export function layoutImage(
+  dims: { width: number; height: number },
+  imageData: DrawingImage = {},
+  limits: ExtentLimits = DEFAULT_EXTENT_LIMITS,
+  frame?: Extent
+): { extent: Extent; crop?: Crop } {
+  const { crop = {} } = imageData;
+  const visibleWidth = 1 - ((crop.left || 0) + (crop.right || 0)) / 100;
+  const visibleHeight = 1 - ((crop.top || 0) + (crop.bottom || 0)) / 100;
+  const width = dims.width * visibleWidth;
+  const height = dims.height * visibleHeight;
+
+  let cx = width * EMU_PER_PIXEL;
+  let cy = height * EMU_PER_PIXEL;
+  let fitted: { extent: Extent; crop?: Crop } | undefined;
+  if (frame || (imageData.widthInches && imageData.heightInches)) {
+    const box = frame || {
+      cx: imageData.widthInches! * EMU_PER_INCH,
+      cy: imageData.heightInches! * EMU_PER_INCH,
+    };
+    fitted =
+      imageData.fit && width && height
+        ? fitToFrame(width / height, box, imageData.fit)
+        : { extent: box };
+    cx = fitted.extent.cx;
+    cy = fitted.extent.cy;
+  } else if (imageData.widthInches) {
+    // Only width specified - maintain aspect ratio
+    cx = imageData.widthInches * EMU_PER_INCH;
+    cy = cx * (height / width);
+  } else if (imageData.heightInches) {
+    // Only height specified - maintain aspect ratio
+    cy = imageData.heightInches * EMU_PER_INCH;
+    cx = cy * (width / height);
+  } else {
+    // No custom size - scale down if too large
+    const maxWidth = Math.min(
+      limits.width,
+      limits.availableWidth ?? limits.width
+    );
+    if (cx > maxWidth) {
+      cy = cy * (maxWidth / cx);
+      cx = maxWidth;
+    }
+    if (cy > limits.height) {
+      cx = cx * (limits.height / cy);
+      cy = limits.height;
+    }
+  }
+
+  // Never wider than the page or cell
+  if (limits.availableWidth && cx > limits.availableWidth) {
+    cy = cy * (limits.availableWidth / cx);
+    cx = limits.availableWidth;
+  }
+
+  const extent = { cx: Math.round(cx), cy: Math.round(cy) };
+  if (!fitted?.crop) return { extent, crop: imageData.crop };
+
+  // Add the cover crop, measured on the visible part, to the image's own crop
+  const extra = fitted.crop;
+  return {
+    extent,
+    crop: {
+      left: (crop.left || 0) + (extra.left || 0) * visibleWidth,
+      right: (crop.right || 0) + (extra.right || 0) * visibleWidth,
+      top: (crop.top || 0) + (extra.top || 0) * visibleHeight,
+      bottom: (crop.bottom || 0) + (extra.bottom || 0) * visibleHeight,
+    },
+  };
+}
+
+const EMU_PER_TWIP = 635;
+
+// Cell margins of the default table style, 0.08 inch on each side
+const DEFAULT_CELL_MARGIN = 108;
+
+function getTwips(xml: string, element: RegExp): number | undefined {
+  const match = element.exec(xml);
+  const value = match && /\sw:w="(\d+)"/.exec(match[0]);
+  return value ? Number(value[1]) : undefined;
+}
+
+/**
+ * Width between the margins of the section holding `position`, in EMUs: the
+ * first w:sectPr at or after it
+ */
+export function getPageWidth(xml: string, position = 0): number | undefined {
+  const start = xml.indexOf("<w:sectPr", position);
+  if (start === -1) return undefined;
+  const sectPr = xml.slice(start, xml.indexOf("</w:sectPr>", start));
+  const page = getTwips(sectPr, /<w:pgSz\b[^>]*>/);
+  if (!page) return undefined;
+  const margins = /<w:pgMar\b[^>]*>/.exec(sectPr)?.[0] || "";
+  const margin = (name: string) =>
+    Number(new RegExp(`\\sw:${name}="(-?\\d+)"`).exec(margins)?.[1] || 0);
+  const width = page - margin("left") - margin("right") - margin("gutter");
+  return Math.max(0, width) * EMU_PER_TWIP;
+}
+
+/**
+ * Start of the innermost table cell holding `position`, and of its table
+ */
+function findEnclosingCell(
+  xml: string,
+  position: number
+): { cell: number; table: number } | undefined {
+  const open: Array<{ name: string; index: number }> = [];
+  const regex = /<(\/?)w:(tbl|tc)(?=[\s>\/])[^>]*>/g;
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(xml)) && match.index < position) {
+    if (match[1]) {
+      const index = open.map(({ name }) => name).lastIndexOf(match[2]);
+      if (index !== -1) open.length = index;
+    } else if (!match[0].endsWith("/>")) {
+      open.push({ name: match[2], index: match.index });
+    }
+  }
+
+  const cell = open.map(({ name }) => name).lastIndexOf("tc");
+  const table = open.map(({ name }) => name).lastIndexOf("tbl", cell);
+  return cell === -1 || table === -1
+    ? undefined
+    : { cell: open[cell].index, table: open[table].index };
+}
+
+function getProperties(xml: string, start: number, name: string): string {
+  const match = new RegExp(
+    `^<w:${name === "tcPr" ? "tc" : "tbl"}\\b[^>]*>(<w:${name}\\/>|<w:${name}>[\\s\\S]*?<\\/w:${name}>)?`
+  ).exec(xml.slice(start));
+  return (match && match[1]) || "";
+}
+
+/**
+ * Room for an image placed at `position`: the width of the innermost table
+ * cell without its margins, or the width of the page
+ */
+export function getAvailableWidth(
+  xml: string,
+  position: number,
+  pageWidth: number
+): number {
+  const enclosing = findEnclosingCell(xml, position);
+  if (!enclosing) return pageWidth;
+
+  const outer = getAvailableWidth(xml, enclosing.table, pageWidth);
+  const tcPr = getProperties(xml, enclosing.cell, "tcPr");
+  const tblPr = getProperties(xml, enclosing.table, "tblPr");
+
+  let width = outer;
+  const tcW = /<w:tcW\b[^>]*>/.exec(tcPr)?.[0] || "";
+  const value = /\sw:w="([\d.]+)(%?)"/.exec(tcW);
+  const type = /\sw:type="(\w+)"/.exec(tcW)?.[1] || "dxa";
+  if (value && type === "pct") {
+    width = value[2]
+      ? (outer * Number(value[1])) / 100
+      : (outer * Number(value[1])) / 5000;
+  } else if (value && type === "dxa") {
+    width = Number(value[1]) * EMU_PER_TWIP;
+  }
+
+  const margins =
+    /<w:tcMar>[\s\S]*?<\/w:tcMar>/.exec(tcPr)?.[0] ||
+    /<w:tblCellMar>[\s\S]*?<\/w:tblCellMar>/.exec(tblPr)?.[0] ||
+    "";
+  const margin = (...names: string[]) =>
+    getTwips(margins, new RegExp(`<w:(${names.join("|")})\\b[^>]*>`)) ??
+    DEFAULT_CELL_MARGIN;
+  const padding =
+    (margin("left", "start") + margin("right", "end")) * EMU_PER_TWIP;
+
+  return Math.max(0, Math.min(width, outer) - padding);
+}
+
+/**
+ * wp:docPr of a drawing: name, alt text (descr), title and the optional link
+ * followed when the image is clicked
+ */
+function createDrawingProperties(
+  id: number,
+  imageData: DrawingImage,
+  linkId?: string
+): string {
+  let attributes = ` id="${id}" name="${escapeXml(imageData.name || `Picture ${id}`)}"`;
+  if (imageData.altText) {
+    attributes += ` descr="${escapeXml(imageData.altText)}"`;
+  }
+  if (imageData.title) attributes += ` title="${escapeXml(imageData.title)}"`;
+  if (!linkId) return `<wp:docPr${attributes}/>`;
+  return `<wp:docPr${attributes}>${createLink(linkId)}</wp:docPr>`;
+}
+
+function createLink(linkId: string): string {
+  return `<a:hlinkClick xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" r:id="${linkId}"/>`;
+}
+
+/**
+ * a:srcRect of a cropped image, in thousandths of a percent
+ */
+function createCrop(crop: DrawingImage["crop"]): string {
+  if (!crop) return "";
+  const sides: Array<[string, number | undefined]> = [
+    ["l", crop.left],
+    ["t", crop.top],
+    ["r", crop.right],
+    ["b", crop.bottom],
+  ];
+  const attributes = sides
+    .filter(([, value]) => value)
+    .map(([name, value]) => ` ${name}="${Math.round(value! * 1000)}"`)
+    .join("");
+  return attributes ? `<a:srcRect${attributes}/>` : "";
+}
+
+function createTransform(imageData: DrawingImage, extent: Extent): string {
+  let attributes = "";
+  if (imageData.rotation) {
+    attributes += ` rot="${Math.round((((imageData.rotation % 360) + 360) % 360) * 60000)}"`;
+  }
+  if (imageData.flipHorizontal) attributes += ' flipH="1"';
+  if (imageData.flipVertical) attributes += ' flipV="1"';
+  return `<a:xfrm${attributes}>
+                    <a:off x="0" y="0"/>
+                    <a:ext cx="${extent.cx}" cy="${extent.cy}"/>
+                  </a:xfrm>`;
+}
+
+function createOutline(border: DrawingImage["border"]): string {
+  if (!border) return "";
+  const width = Math.round((border.widthPt ?? 1) * EMU_PER_POINT);
+  const color = escapeXml((border.color || "000000").replace(/^#/, ""));
+  return `<a:ln w="${width}">
+                    <a:solidFill>
+                      <a:srgbClr val="${color}"/>
+                    </a:solidFill>
+                  </a:ln>`;
+}
+
+function createGraphic(
+  reference: DrawingReference,
+  extent: Extent,
+  imageData: DrawingImage
+): string {
+  return `<a:graphic xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main">
+            <a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture">
+              <pic:pic xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture">
+                <pic:nvPicPr>
+                  <pic:cNvPr id="0" name="${escapeXml(imageData.name || `Picture ${reference.id}`)}"/>
+                  <pic:cNvPicPr/>
+                </pic:nvPicPr>
+                <pic:blipFill>
+                  ${createBlip(reference)}
+                  ${createCrop(imageData.crop)}
+                  <a:stretch>
+                    <a:fillRect/>
+                  </a:stretch>
+                </pic:blipFill>
+                <pic:spPr>
+                  ${createTransform(imageData, extent)}
+                  <a:prstGeom prst="rect">
+                    <a:avLst/>
+                  </a:prstGeom>
+                  ${createOutline(imageData.border)}
+                </pic:spPr>
+              </pic:pic>
+            </a:graphicData>
+          </a:graphic>`;
+}
+
+function toEmu(value: number | undefined, unit: ImagePosition["unit"]) {
+  return Math.round((value || 0) * (unit === "cm" ? EMU_PER_CM : EMU_PER_INCH));
+}
+
+function createWrap(wrap: ImagePosition["wrap"]): string {
+  switch (wrap) {
+    case "tight":
+      return `<wp:wrapTight wrapText="bothSides">
+            <wp:wrapPolygon edited="0">
+              <wp:start x="0" y="0"/>
+              <wp:lineTo x="0" y="21600"/>
+              <wp:lineTo x="21600" y="21600"/>
+              <wp:lineTo x="21600" y="0"/>
+              <wp:lineTo x="0" y="0"/>
+            </wp:wrapPolygon>
+          </wp:wrapTight>`;
+    case "topAndBottom":
+      return "<wp:wrapTopAndBottom/>";
+    case "behindText":
+    case "inFrontOf":
+      return "<wp:wrapNone/>";
+    default:
+      return '<wp:wrapSquare wrapText="bothSides"/>';
+  }
+}
+
+function createAnchor(
+  position: ImagePosition,
+  id: number,
+  extent: Extent,
+  rotation: number | undefined,
+  content: string
+): string {
+  const { unit, wrap } = position;
+  const horizontal = position.horizontalAlign
+    ? `<wp:align>${position.horizontalAlign}</wp:align>`
+    : `<wp:posOffset>${toEmu(position.x, unit)}</wp:posOffset>`;
+  const vertical = position.verticalAlign
+    ? `<wp:align>${position.verticalAlign}</wp:align>`
+    : `<wp:posOffset>${toEmu(position.y, unit)}</wp:posOffset>`;
+  // Images that float over the text do not push it away
+  const distance = wrap === "behindText" || wrap === "inFrontOf" ? 0 : 114300;
+
+  return `<wp:anchor distT="0" distB="0" distL="${distance}" distR="${distance}" simplePos="0" relativeHeight="${251658240 + id}" behindDoc="${wrap === "behindText" ? 1 : 0}" locked="0" layoutInCell="1" allowOverlap="1">
+          <wp:simplePos x="0" y="0"/>
+          <wp:positionH relativeFrom="${position.horizontalRelativeTo || "column"}">${horizontal}</wp:positionH>
+          <wp:positionV relativeFrom="${position.verticalRelativeTo || "paragraph"}">${vertical}</wp:positionV>
+          <wp:extent cx="${extent.cx}" cy="${extent.cy}"/>
+          ${createEffectExtent(extent, rotation)}
+          ${createWrap(wrap)}
+          ${content}
+        </wp:anchor>`;
+}
+
+/**
+ * Run holding the drawing of an image
+ */
+export function createImageXML(
+  reference: DrawingReference,
+  extent: Extent,
+  imageData: DrawingImage = {}
+): string {
+  const { id, linkId } = reference;
+  const content = `${createDrawingProperties(id, imageData, linkId)}
+          <wp:cNvGraphicFramePr>
+            <a:graphicFrameLocks xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" noChangeAspect="1"/>
+          </wp:cNvGraphicFramePr>
+          ${createGraphic(reference, extent, imageData)}`;
+
+  const drawing = imageData.position
+    ? createAnchor(imageData.position, id, extent, imageData.rotation, content)
+    : `<wp:inline distT="0" distB="0" distL="0" distR="0">
+          <wp:extent cx="${extent.cx}" cy="${extent.cy}"/>
+          ${createEffectExtent(extent, imageData.rotation)}
+          ${content}
+        </wp:inline>`;
+
+  return `<w:r>
+      <w:drawing>
+        ${drawing}
+      </w:drawing>
+    </w:r>`;
+}
+
+// Run holding a drawing
+const DRAWING_RUN_REGEX =
+  /<w:r\b[^>]*>(?:(?!<\/w:r>)[\s\S])*?<w:drawing>[\s\S]*?<\/w:drawing>[\s\S]*?<\/w:r>/;
+
+/**
+ * Remove the first picture found in the paragraph of `marker` and return its
+ * size, for images that keep the size of a placeholder picture
+ */
+export function removePlaceholderDrawing(
+  xml: string,
+  marker: string
+): { xml: string; extent: Extent } | undefined {
+  const position = xml.indexOf(marker);
+  if (position === -1) return undefined;
+  const start = Math.max(
+    xml.lastIndexOf("<w:p>", position),
+    xml.lastIndexOf("<w:p ", position)
+  );
+  const end = xml.indexOf("</w:p>", position);
+  if (start === -1 || end === -1) return undefined;
+
+  const paragraph = xml.slice(start, end);
+  const run = DRAWING_RUN_REGEX.exec(paragraph);
+  const size = run && /<wp:extent cx="(\d+)" cy="(\d+)"/.exec(run[0]);
+  if (!run || !size) return undefined;
+
+  return {
+    xml:
+      xml.slice(0, start + run.index) +
+      xml.slice(start + run.index + run[0].length),
+    extent: { cx: Number(size[1]), cy: Number(size[2]) },
+  };
+}
+
+const BLIP_REGEX = /<a:blip\b[^>]*\/>|<a:blip\b[^>]*>[\s\S]*?<\/a:blip>/;
+
+const SVG_EXTENSION_REGEX =
+  /<a:ext uri="{96DAC541-7B7A-43D3-8B79-37D633B846F1}">[\s\S]*?<\/a:ext>/;
+
+/**
+ * Set an attribute of the first element matching `element`, or remove it when
+ * the value is undefined
+ */
+function setAttribute(
+  xml: string,
+  element: RegExp,
+  name: string,
+  value: string | undefined
+): string {
+  return xml.replace(element, (start) => {
+    const attribute = new RegExp(`\\s${name}="[^"]*"`);
+    if (value === undefined) return start.replace(attribute, "");
+    const markup = ` ${name}="${escapeXml(value)}"`;
+    // Function replacers: "$" in the value is not a replacement pattern
+    return attribute.test(start)
+      ? start.replace(attribute, () => markup)
+      : start.replace(/\s*(\/?>)$/, (end, close: string) => markup + close);
+  });
+}
+
+/**
+ * Give a template drawing its new id and remove the tag from its alt text and
+ * name, which falls back to `defaultName`
+ */
+function setDrawingProperties(
+  xml: string,
+  id: number,
+  imageData: DrawingImage,
+  defaultName: string
+): string {
+  const docPr = /<wp:docPr\b[^>]*>/;
+  xml = setAttribute(xml, docPr, "id", String(id));
+  const current = (docPr.exec(xml) || [""])[0];
+  const name = /\sname="\s*{[^"]*"/.test(current)
+    ? imageData.name || defaultName
+    : imageData.name;
+  if (name !== undefined) xml = setAttribute(xml, docPr, "name", name);
+  if (imageData.altText !== undefined || /\sdescr="\s*{/.test(current)) {
+    xml = setAttribute(xml, docPr, "descr", imageData.altText);
+  }
+  if (imageData.title !== undefined) {
+    xml = setAttribute(xml, docPr, "title", imageData.title);
+  }
+  return xml;
+}
+
+/**
+ * Swap the image of a template picture (its w:drawing), keeping its frame,
+ * position and wrapping. The tag is removed from the alt text and name.
+ */
+export function replaceTemplateImage(
+  drawing: string,
+  reference: DrawingReference,
+  dims: { width: number; height: number },
+  imageData: DrawingImage = {}
+): string {
+  const { rId, svgId, linkId, id } = reference;
+  let xml = drawing
+    .replace(/(<a:blip\b[^>]*\sr:embed=")[^"]*"/, `$1${rId}"`)
+    .replace(SVG_EXTENSION_REGEX, "")
+    .replace(/<a:extLst><\/a:extLst>|<a:extLst\/>/, "");
+  if (svgId) {
+    xml = xml.replace(BLIP_REGEX, (blip) => {
+      const extension = createSvgExtension(svgId);
+      if (blip.includes("<a:extLst>")) {
+        return blip.replace("<a:extLst>", `<a:extLst>${extension}`);
+      }
+      const extensions = `<a:extLst>${extension}</a:extLst>`;
+      return blip.endsWith("/>")
+        ? `${blip.slice(0, -2)}>${extensions}</a:blip>`
+        : blip.replace("</a:blip>", `${extensions}</a:blip>`);
+    });
+  }
+  xml = setDrawingProperties(xml, id, imageData, `Picture ${id}`);
+  if (linkId) {
+    xml = xml
+      .replace(/<a:hlinkClick\b[^>]*\/>/, "")
+      .replace(/(<wp:docPr\b[^>]*?)\/>/, "$1></wp:docPr>")
+      .replace(/<wp:docPr\b[^>]*>/, (start) => start + createLink(linkId));
+  }
+
+  const frame = /<wp:extent cx="(\d+)" cy="(\d+)"/.exec(xml);
+  if (!frame || !imageData.fit || !dims.width || !dims.height) return xml;
+  const { extent, crop } = fitToFrame(
+    dims.width / dims.height,
+    { cx: Number(frame[1]), cy: Number(frame[2]) },
+    imageData.fit
+  );
+
+  if (crop) {
+    return xml
+      .replace(/<a:srcRect\b[^>]*\/>/, "")
+      .replace(BLIP_REGEX, (blip) => blip + createCrop(crop));
+  }
+  return xml
+    .replace(
+      /<wp:extent cx="\d+" cy="\d+"/,
+      `<wp:extent cx="${extent.cx}" cy="${extent.cy}"`
+    )
+    .replace(
+      /(<a:xfrm\b[^>]*>[\s\S]*?<a:ext )cx="\d+" cy="\d+"/,
+      `$1cx="${extent.cx}" cy="${extent.cy}"`
+    );
+}
+
+// Size of a new chart
+const DEFAULT_CHART_WIDTH = 6 * EMU_PER_INCH;
+const DEFAULT_CHART_HEIGHT = 3.5 * EMU_PER_INCH;
+
+/**
+ * Run holding a chart, drawn from the chart part of relationship `rId`
+ */
+export function createChartXML(
+  rId: string,
+  id: number,
+  chart: DrawingImage = {}
+): string {
+  const extent = {
+    cx: Math.round(
+      chart.widthInches ? chart.widthInches * EMU_PER_INCH : DEFAULT_CHART_WIDTH
+    ),
+    cy: Math.round(
+      chart.heightInches
+        ? chart.heightInches * EMU_PER_INCH
+        : DEFAULT_CHART_HEIGHT
+    ),
+  };
+  const content = `${createDrawingProperties(id, { ...chart, name: chart.name || `Chart ${id}` })}
+          <wp:cNvGraphicFramePr/>
+          <a:graphic xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main">
+            <a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/chart">
+              <c:chart xmlns:c="http://schemas.openxmlformats.org/drawingml/2006/chart" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" r:id="${rId}"/>
+            </a:graphicData>
+          </a:graphic>`;
+
+  const drawing = chart.position
+    ? createAnchor(chart.position, id, extent, undefined, content)
+    : `<wp:inline distT="0" distB="0" distL="0" distR="0">
+          <wp:extent cx="${extent.cx}" cy="${extent.cy}"/>
+          <wp:effectExtent l="0" t="0" r="0" b="0"/>
+          ${content}
+        </wp:inline>`;
+
+  return `<w:r>
+      <w:drawing>
+        ${drawing}
+      </w:drawing>
+    </w:r>`;
+}
+
+// Chart of a template drawing
+const CHART_REFERENCE_REGEX = /(<c:chart\b[^>]*?\sr:id=")([^"]*)"/;
+
+/**
+ * Relationship id of the chart of a template drawing, if it holds one
+ */
+export function getChartReference(drawing: string): string | undefined {
+  return CHART_REFERENCE_REGEX.exec(drawing)?.[2];
+}
+
+/**
+ * Point a template chart drawing to the chart part of relationship `rId`,
+ * keeping its frame, position and wrapping
+ */
+export function replaceTemplateChart(
+  drawing: string,
+  rId: string,
+  id: number,
+  chart: DrawingImage = {}
+): string {
+  const xml = drawing.replace(CHART_REFERENCE_REGEX, `$1${rId}"`);
+  return setDrawingProperties(xml, id, chart, `Chart ${id}`);
+}
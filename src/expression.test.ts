@@ -0,0 +1,28 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { evaluateExpression, parseExpression } from "./expression";
+import { createScope } from "./scope";
+import { generateDocx } from "./index";
+import { createDocx, getBodyText, paragraph } from "./test-utils";
+
+test("evaluates comparisons, arithmetic and logic against the data", () => {
+  const scope = createScope({ total: 1200, status: "paid", refunded: false });
+  const evaluate = (text: string) =>
+    evaluateExpression(parseExpression(text), scope);
+  assert.equal(evaluate("total > 1000"), true);
+  assert.equal(evaluate('status == "paid" && !refunded'), true);
+  assert.equal(evaluate("total * 2 - 400 >= 2000"), true);
+  assert.equal(evaluate("missing || total < 10"), false);
+});
+
+test("renders else-if chains", async () => {
+  const template = await createDocx(
+    paragraph(
+      "{#orders}{?total > 1000}big{:elseif total > 100}medium{:else}small{/} {/orders}"
+    )
+  );
+  const output = await generateDocx(template, {
+    orders: [{ total: 5000 }, { total: 500 }, { total: 5 }],
+  });
+  assert.equal(await getBodyText(output), "big medium small ");
+});
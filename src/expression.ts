@@ -0,0 +1,384 @@
+/**
+ * Expressions of conditional tags: {?total > 1000}, {?status == "paid" && !refunded}
+ *
+ * Expressions are parsed into a small syntax tree and evaluated against the
+ * scope stack. Nothing is passed to eval or Function: only data paths,
+ * literals and the operators below are supported.
+ */
+import { PATH_PATTERN, Scope, resolvePath } from "./scope";
+
+export type BinaryOperator =
+  | "=="
+  | "!="
+  | "==="
+  | "!=="
+  | "<"
+  | "<="
+  | ">"
+  | ">="
+  | "+"
+  | "-"
+  | "*"
+  | "/"
+  | "%";
+
+export type Expression =
+  | { type: "literal"; value: string | number | boolean | null | undefined }
+  | { type: "path"; path: string }
+  | { type: "not"; operand: Expression }
+  | { type: "negative"; operand: Expression }
+  | {
+      type: "logical";
+      operator: "&&" | "||";
+      left: Expression;
+      right: Expression;
+    }
+  | {
+      type: "binary";
+      operator: BinaryOperator;
+      left: Expression;
+      right: Expression;
+    };
+
+// Word replaces straight quotes with typographic ones while typing
+export const QUOTES: Record<string, string> = {
+  '"': '"',
+  "'": "'",
+  "“": "”",
+  "‘": "’",
+};
+
+const LITERALS: Record<string, string | number | boolean | null | undefined> = {
+  true: true,
+  false: false,
+  null: null,
+  undefined: undefined,
+};
+
+// Longest operators first
+const OPERATORS = [
+  "===",
+  "!==",
+  "==",
+  "!=",
+  "<=",
+  ">=",
+  "&&",
+  "||",
+  "<",
+  ">",
+  "!",
+  "+",
+  "-",
+  "*",
+  "/",
+  "%",
+  "(",
+  ")",
+];
+
+// Binding power of the binary operators, loosest first
+const PRECEDENCE: Record<string, number> = {
+  "||": 1,
+  "&&": 2,
+  "==": 3,
+  "!=": 3,
+  "===": 3,
+  "!==": 3,
+  "<": 4,
+  "<=": 4,
+  ">": 4,
+  ">=": 4,
+  "+": 5,
+  "-": 5,
+  "*": 6,
+  "/": 6,
+  "%": 6,
+};
+
+type Token =
+  | { type: "operator"; value: string }
+  | { type: "literal"; value: string | number | boolean | null | undefined }
+  | { type: "path"; value: string };
+
+const NUMBER_REGEX = /^\d+(\.\d+)?/;
+const PATH_REGEX = new RegExp(`^${PATH_PATTERN}`);
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < text.length) {
+    const rest = text.slice(index);
+    const char = rest[0];
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    if (QUOTES[char]) {
+      const end = rest.indexOf(QUOTES[char], 1);
+      if (end === -1) throw new Error("Unterminated string");
+      tokens.push({ type: "literal", value: rest.slice(1, end) });
+      index += end + 1;
+      continue;
+    }
+
+    const number = NUMBER_REGEX.exec(rest);
+    if (number) {
+      tokens.push({ type: "literal", value: Number(number[0]) });
+      index += number[0].length;
+      continue;
+    }
+
+    const path = PATH_REGEX.exec(rest);
+    if (path) {
+      const word = path[0];
+      tokens.push(
+        Object.prototype.hasOwnProperty.call(LITERALS, word)
+          ? { type: "literal", value: LITERALS[word] }
+          : { type: "path", value: word }
+      );
+      index += word.length;
+      continue;
+    }
+
+    const operator = OPERATORS.find((op) => rest.startsWith(op));
+    if (!operator) {
+      throw new Error(`Unexpected character "${char}"`);
+    }
+    tokens.push({ type: "operator", value: operator });
+    index += operator.length;
+  }
+
+  return tokens;
+}
+
+/**
+ * Parse the expression of a conditional tag. Throws an Error describing the
+ * first syntax problem.
+ */
+export function parseExpression(text: string): Expression {
+  const tokens = tokenize(text);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const isOperator = (value: string) => {
+    const token = peek();
+    return (
+      token !== undefined && token.type === "operator" && token.value === value
+    );
+  };
+
+  function parseUnary(): Expression {
+    const token = tokens[position++];
+    if (!token) throw new Error("Unexpected end of expression");
+
+    if (token.type === "literal")
+      return { type: "literal", value: token.value };
+    if (token.type === "path") return { type: "path", path: token.value };
+
+    switch (token.value) {
+      case "!":
+        return { type: "not", operand: parseUnary() };
+      case "-":
+        return { type: "negative", operand: parseUnary() };
+      case "(": {
+        const inner = parseBinary(0);
+        if (!isOperator(")")) throw new Error('Missing ")"');
+        position++;
+        return inner;
+      }
+      default:
+        throw new Error(`Unexpected "${token.value}"`);
+    }
+  }
+
+  function parseBinary(minPrecedence: number): Expression {
+    let left = parseUnary();
+    for (;;) {
+      const token = peek();
+      const precedence =
+        token && token.type === "operator"
+          ? PRECEDENCE[token.value]
+          : undefined;
+      if (precedence === undefined || precedence <= minPrecedence) return left;
+
+      position++;
+      const right = parseBinary(precedence);
+      const operator = token.value;
+      left =
+        operator === "&&" || operator === "||"
+          ? { type: "logical", operator, left, right }
+          : {
+              type: "binary",
+              operator: operator as BinaryOperator,
+              left,
+              right,
+            };
+    }
+  }
+
+  const expression = parseBinary(0);
+  const extra = peek();
+  if (extra) {
+    throw new Error(`Unexpected "${extra.value}"`);
+  }
+  return expression;
+}
+
+/**
+ * Data paths read by an expression, in order of appearance
+ */
+export function getExpressionPaths(expression: Expression): string[] {
+  switch (expression.type) {
+    case "path":
+      return [expression.path];
+    case "not":
+    case "negative":
+      return getExpressionPaths(expression.operand);
+    case "logical":
+    case "binary":
+      return [
+        ...getExpressionPaths(expression.left),
+        ...getExpressionPaths(expression.right),
+      ];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Truthiness used by conditions: "false", "0", "" and empty arrays are falsy
+ */
+export function isTruthy(value: unknown): boolean {
+  return Boolean(
+    value &&
+      value !== "false" &&
+      value !== "0" &&
+      !(Array.isArray(value) && value.length === 0)
+  );
+}
+
+/**
+ * Number for comparisons and arithmetic: numbers, numeric strings and dates
+ */
+function toComparable(value: unknown): number | undefined {
+  if (typeof value === "number") return value;
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === "string" && value.trim() !== "") {
+    const number = Number(value);
+    if (!isNaN(number)) return number;
+  }
+  return undefined;
+}
+
+/**
+ * == compares numbers with numeric strings ("5" == 5) and treats null and
+ * undefined as equal; anything else must be strictly equal
+ */
+function looseEquals(left: unknown, right: unknown): boolean {
+  if (left == null || right == null) return left == null && right == null;
+  if (typeof left === "number" || typeof right === "number") {
+    const a = toComparable(left);
+    const b = toComparable(right);
+    if (a !== undefined && b !== undefined) return a === b;
+  }
+  return left === right;
+}
+
+function compare(operator: string, left: unknown, right: unknown): boolean {
+  const a = toComparable(left);
+  const b = toComparable(right);
+  let order: number;
+  if (a !== undefined && b !== undefined) order = a - b;
+  else if (typeof left === "string" && typeof right === "string") {
+    order = left.localeCompare(right);
+  } else {
+    return false;
+  }
+
+  switch (operator) {
+    case "<":
+      return order < 0;
+    case "<=":
+      return order <= 0;
+    case ">":
+      return order > 0;
+    default:
+      return order >= 0;
+  }
+}
+
+function calculate(operator: string, left: unknown, right: unknown): unknown {
+  if (
+    operator === "+" &&
+    (typeof left === "string" || typeof right === "string")
+  ) {
+    return `${left ?? ""}${right ?? ""}`;
+  }
+  const a = toComparable(left);
+  const b = toComparable(right);
+  if (a === undefined || b === undefined) return undefined;
+
+  switch (operator) {
+    case "+":
+      return a + b;
+    case "-":
+      return a - b;
+    case "*":
+      return a * b;
+    case "/":
+      return a / b;
+    default:
+      return a % b;
+  }
+}
+
+/**
+ * Evaluate an expression against the scope stack
+ */
+export function evaluateExpression(
+  expression: Expression,
+  scope: Scope
+): unknown {
+  switch (expression.type) {
+    case "literal":
+      return expression.value;
+    case "path":
+      return resolvePath(scope, expression.path);
+    case "not":
+      return !isTruthy(evaluateExpression(expression.operand, scope));
+    case "negative": {
+      const value = toComparable(evaluateExpression(expression.operand, scope));
+      return value === undefined ? undefined : -value;
+    }
+    case "logical": {
+      const left = isTruthy(evaluateExpression(expression.left, scope));
+      if (expression.operator === "&&" ? !left : left) return left;
+      return isTruthy(evaluateExpression(expression.right, scope));
+    }
+    case "binary": {
+      const left = evaluateExpression(expression.left, scope);
+      const right = evaluateExpression(expression.right, scope);
+      switch (expression.operator) {
+        case "==":
+          return looseEquals(left, right);
+        case "!=":
+          return !looseEquals(left, right);
+        case "===":
+          return left === right;
+        case "!==":
+          return left !== right;
+        case "<":
+        case "<=":
+        case ">":
+        case ">=":
+          return compare(expression.operator, left, right);
+        default:
+          return calculate(expression.operator, left, right);
+      }
+    }
+  }
+}
@@ -0,0 +1,84 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { generateDocx } from "./index";
+import { DocxGenerationError } from "./types";
+import { createDocx, getBodyText, paragraph } from "./test-utils";
+
+test("chains built-in filters with literal and path arguments", async () => {
+  const template = await createDocx(
+    paragraph(
+      '{name | trim | upper}; {note | default:"none"}; {tags | join:" / "}; ' +
+        '{price | currency:code}; {ratio | percent:1}; {day | date:"yyyy-MM-dd"}'
+    )
+  );
+  const output = await generateDocx(
+    template,
+    {
+      name: "  ann ",
+      tags: ["a", "b"],
+      price: 1234.5,
+      code: "EUR",
+      ratio: 0.256,
+      day: new Date(2024, 2, 5),
+    },
+    { locale: "en-US" }
+  );
+  assert.equal(
+    await getBodyText(output),
+    "ANN; none; a / b; €1,234.50; 25.6%; 2024-03-05"
+  );
+});
+
+test("formats date strings without a time as that local day", async () => {
+  const timeZone = process.env.TZ;
+  process.env.TZ = "America/New_York";
+  try {
+    const template = await createDocx(paragraph('{day | date:"dd/MM/yyyy"}'));
+    const output = await generateDocx(template, { day: "2024-01-05" });
+    assert.equal(await getBodyText(output), "05/01/2024");
+  } finally {
+    if (timeZone === undefined) delete process.env.TZ;
+    else process.env.TZ = timeZone;
+  }
+});
+
+test("accepts custom filters and rejects unknown ones", async () => {
+  const template = await createDocx(paragraph("{name | shout:3}"));
+  const output = await generateDocx(
+    template,
+    { name: "hi" },
+    {
+      filters: {
+        shout: (value, count) => `${value}${"!".repeat(Number(count))}`,
+      },
+    }
+  );
+  assert.equal(await getBodyText(output), "hi!!!");
+
+  await assert.rejects(
+    generateDocx(template, { name: "hi" }),
+    (error: unknown) =>
+      error instanceof DocxGenerationError && error.code === "UNKNOWN_FILTER"
+  );
+
+  // Methods of Object.prototype are not filters
+  for (const name of ["valueOf", "toString", "constructor"]) {
+    await assert.rejects(
+      generateDocx(await createDocx(paragraph(`{name | ${name}}`)), {
+        name: "hi",
+      }),
+      (error: unknown) =>
+        error instanceof DocxGenerationError && error.code === "UNKNOWN_FILTER"
+    );
+  }
+
+  await assert.rejects(
+    generateDocx(await createDocx(paragraph('{price | currency:"EURO"}')), {
+      price: 1,
+    }),
+    (error: unknown) =>
+      error instanceof DocxGenerationError &&
+      error.code === "FILTER_FAILED" &&
+      error.message.includes('Filter "currency" failed')
+  );
+});
@@ -0,0 +1,198 @@
+/**
+ * Pipe filters applied to tag values: {amount | currency:"EUR"}
+ */
+import { DocxGenerationError, TemplateFilter } from "./types";
+import { FilterCall } from "./parser";
+import { Scope, resolvePath } from "./scope";
+
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === "number") return value;
+  if (typeof value === "string" && value.trim() !== "") {
+    const number = Number(value);
+    return isNaN(number) ? undefined : number;
+  }
+  return undefined;
+}
+
+// ISO date without a time, e.g. 2024-01-05
+const DATE_ONLY_REGEX = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+function toDate(value: unknown): Date | undefined {
+  let date: Date | undefined;
+  const dateOnly =
+    typeof value === "string" ? DATE_ONLY_REGEX.exec(value.trim()) : null;
+  if (value instanceof Date) date = value;
+  else if (dateOnly) {
+    // The day of the string, where Date reads midnight UTC
+    const [, year, month, day] = dateOnly.map(Number);
+    date = new Date(year, month - 1, day);
+  } else if (typeof value === "string" || typeof value === "number") {
+    date = new Date(value);
+  }
+  return date && !isNaN(date.getTime()) ? date : undefined;
+}
+
+const DATE_STYLES = ["short", "medium", "long", "full"];
+
+/**
+ * Format a date with a pattern such as dd/MM/yyyy or d MMMM yyyy HH:mm.
+ * Text in single quotes is copied as is; month and day names come from Intl.
+ */
+export function formatDate(date: Date, pattern: string, locale?: string) {
+  if (DATE_STYLES.includes(pattern)) {
+    return new Intl.DateTimeFormat(locale, {
+      dateStyle: pattern as Intl.DateTimeFormatOptions["dateStyle"],
+    }).format(date);
+  }
+
+  const pad = (number: number, width = 2) =>
+    String(number).padStart(width, "0");
+  const name = (options: Intl.DateTimeFormatOptions) =>
+    new Intl.DateTimeFormat(locale, options).format(date);
+
+  return pattern.replace(
+    /'[^']*'|yyyy|yy|MMMM|MMM|MM|M|dd|d|EEEE|EEE|HH|H|hh|h|mm|ss|a/g,
+    (token) => {
+      switch (token) {
+        case "yyyy":
+          return String(date.getFullYear());
+        case "yy":
+          return pad(date.getFullYear() % 100);
+        case "MMMM":
+          return name({ month: "long" });
+        case "MMM":
+          return name({ month: "short" });
+        case "MM":
+          return pad(date.getMonth() + 1);
+        case "M":
+          return String(date.getMonth() + 1);
+        case "dd":
+          return pad(date.getDate());
+        case "d":
+          return String(date.getDate());
+        case "EEEE":
+          return name({ weekday: "long" });
+        case "EEE":
+          return name({ weekday: "short" });
+        case "HH":
+          return pad(date.getHours());
+        case "H":
+          return String(date.getHours());
+        case "hh":
+          return pad(date.getHours() % 12 || 12);
+        case "h":
+          return String(date.getHours() % 12 || 12);
+        case "mm":
+          return pad(date.getMinutes());
+        case "ss":
+          return pad(date.getSeconds());
+        case "a":
+          return date.getHours() < 12 ? "AM" : "PM";
+        default:
+          // Quoted literal text
+          return token.slice(1, -1);
+      }
+    }
+  );
+}
+
+/**
+ * Filters available in every template. Number and date filters use Intl with
+ * the given locale.
+ */
+export function createBuiltinFilters(
+  locale?: string
+): Record<string, TemplateFilter> {
+  const text = (transform: (value: string) => string): TemplateFilter => {
+    return (value) => (value == null ? value : transform(String(value)));
+  };
+
+  return {
+    upper: text((value) => value.toLocaleUpperCase(locale)),
+    lower: text((value) => value.toLocaleLowerCase(locale)),
+    capitalize: text(
+      (value) => value.charAt(0).toLocaleUpperCase(locale) + value.slice(1)
+    ),
+    trim: text((value) => value.trim()),
+    default: (value, fallback = "") =>
+      value == null || value === "" ? fallback : value,
+    currency: (value, currency = "USD", currencyLocale = locale) => {
+      const number = toNumber(value);
+      if (number === undefined) return value;
+      return new Intl.NumberFormat(currencyLocale as string | undefined, {
+        style: "currency",
+        currency: String(currency),
+      }).format(number);
+    },
+    number: (value, decimals) => {
+      const number = toNumber(value);
+      if (number === undefined) return value;
+      const digits = toNumber(decimals);
+      return new Intl.NumberFormat(locale, {
+        minimumFractionDigits: digits,
+        maximumFractionDigits: digits,
+      }).format(number);
+    },
+    percent: (value, decimals = 0) => {
+      const number = toNumber(value);
+      if (number === undefined) return value;
+      const digits = toNumber(decimals);
+      return new Intl.NumberFormat(locale, {
+        style: "percent",
+        minimumFractionDigits: digits,
+        maximumFractionDigits: digits,
+      }).format(number);
+    },
+    date: (value, pattern, dateLocale = locale) => {
+      const date = toDate(value);
+      if (!date) return value;
+      return pattern
+        ? formatDate(date, String(pattern), dateLocale as string | undefined)
+        : new Intl.DateTimeFormat(dateLocale as string | undefined).format(
+            date
+          );
+    },
+    join: (value, separator = ", ") =>
+      Array.isArray(value) ? value.join(String(separator)) : value,
+    length: (value) =>
+      Array.isArray(value) || typeof value === "string" ? value.length : value,
+  };
+}
+
+/**
+ * Run a value through the filters of a tag. Filter arguments are literals or
+ * paths resolved against the current scope.
+ */
+export function applyFilters(
+  value: unknown,
+  calls: FilterCall[],
+  scope: Scope,
+  filters: Record<string, TemplateFilter>
+): unknown {
+  return calls.reduce((current, call) => {
+    // Own filters only, not the methods of Object.prototype
+    const filter = Object.prototype.hasOwnProperty.call(filters, call.name)
+      ? filters[call.name]
+      : undefined;
+    if (typeof filter !== "function") {
+      throw new DocxGenerationError(
+        `Unknown filter "${call.name}"`,
+        "UNKNOWN_FILTER",
+        { filter: call.name }
+      );
+    }
+    const args = call.args.map((arg) =>
+      "path" in arg ? resolvePath(scope, arg.path) : arg.value
+    );
+    try {
+      return filter(current, ...args);
+    } catch (error) {
+      if (error instanceof DocxGenerationError) throw error;
+      throw new DocxGenerationError(
+        `Filter "${call.name}" failed: ${error instanceof Error ? error.message : String(error)}`,
+        "FILTER_FAILED",
+        { filter: call.name, cause: error }
+      );
+    }
+  }, value);
+}
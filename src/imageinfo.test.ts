@@ -0,0 +1,87 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { generateDocx } from "./index";
+import { getDisplaySize, getImageInfo } from "./imageinfo";
+import { createDocx, JPEG_IMAGE, paragraph, readPart } from "./test-utils";
+
+/** PNG header and chunks; readers do not check the CRCs */
+function createPng(width: number, height: number, dpi: number): Buffer {
+  const chunk = (type: string, data: Buffer) => {
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(data.length);
+    return Buffer.concat([length, Buffer.from(type), data, Buffer.alloc(4)]);
+  };
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  const physical = Buffer.alloc(9);
+  physical.writeUInt32BE(Math.round(dpi / 0.0254), 0);
+  physical.writeUInt32BE(Math.round(dpi / 0.0254), 4);
+  physical[8] = 1;
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk("IHDR", header),
+    chunk("pHYs", physical),
+    chunk("IEND", Buffer.alloc(0)),
+  ]);
+}
+
+test("detects the format, size and resolution of images", () => {
+  const png = getImageInfo(createPng(600, 300, 300), "jpg");
+  assert.equal(png.extension, "png");
+  assert.equal(png.contentType, "image/png");
+  assert.deepEqual([png.width, png.height], [600, 300]);
+  assert.equal(Math.round(png.dpiX), 300);
+  // 300 DPI is stored as 11811 pixels per meter
+  const display = getDisplaySize(png);
+  assert.deepEqual([display.width, display.height].map(Math.round), [192, 96]);
+
+  const jpeg = getImageInfo(JPEG_IMAGE);
+  assert.deepEqual(
+    [jpeg.extension, jpeg.width, jpeg.height, jpeg.dpiX, jpeg.dpiY],
+    ["jpg", 2808, 1968, 72, 72]
+  );
+
+  const gif = getImageInfo(
+    Buffer.from([0x47, 0x49, 0x46, 0x38, 0x39, 0x61, 0x20, 0x01, 0x10, 0])
+  );
+  assert.deepEqual([gif.extension, gif.width, gif.height], ["gif", 288, 16]);
+
+  const svg = getImageInfo(
+    Buffer.from(
+      '<?xml version="1.0"?>\n<!-- logo --><svg xmlns="http://www.w3.org/2000/svg" width="2in" viewBox="0 0 40 10"/>'
+    ),
+    "png"
+  );
+  assert.deepEqual(
+    [svg.extension, svg.contentType, svg.width, svg.height],
+    ["svg", "image/svg+xml", 192, 48]
+  );
+
+  const unknown = getImageInfo(Buffer.from("not an image"), "JPEG");
+  assert.deepEqual(
+    [unknown.extension, unknown.width, unknown.height, unknown.dpiX],
+    ["jpg", 100, 100, 96]
+  );
+});
+
+test("sizes and stores an image by its detected format", async () => {
+  const template = await createDocx(paragraph("{chart}"));
+  const output = await generateDocx(template, {
+    chart: {
+      type: "image",
+      buffer: createPng(600, 300, 300),
+      extension: "jpg",
+    },
+  });
+  const xml = await readPart(output, "word/document.xml");
+  const [, width, height] = /<wp:extent cx="(\d+)" cy="(\d+)"\/>/.exec(xml)!;
+  assert.deepEqual(
+    [width, height].map((emu) => Math.round(Number(emu) / 9144) / 100),
+    [2, 1]
+  );
+  const rels = await readPart(output, "word/_rels/document.xml.rels");
+  assert.match(rels, /Target="media\/image1\.png"/);
+  const types = await readPart(output, "[Content_Types].xml");
+  assert.match(types, /<Default Extension="png" ContentType="image\/png"\/>/);
+});
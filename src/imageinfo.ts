@@ -0,0 +1,443 @@
+/**
+ * Image format, pixel size, resolution and orientation read from the content
+ * of an image file. The format comes from the magic bytes, not the extension.
+ */
+
+export interface ImageInfo {
+  /** Extension of the media file, e.g. png */
+  extension: string;
+  contentType: string;
+  /** Size in pixels, as stored (before the EXIF orientation) */
+  width: number;
+  height: number;
+  /** Resolution in dots per inch, 96 when the file does not say */
+  dpiX: number;
+  dpiY: number;
+  /** EXIF orientation, 1 (upright) to 8 */
+  orientation: number;
+}
+
+const DEFAULT_DPI = 96;
+
+const CONTENT_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  gif: "image/gif",
+  bmp: "image/bmp",
+  tiff: "image/tiff",
+  webp: "image/webp",
+  svg: "image/svg+xml",
+  emf: "image/x-emf",
+  wmf: "image/x-wmf",
+};
+
+/**
+ * Content type of a media file extension
+ */
+export function getContentType(extension: string): string {
+  const normalized = extension.toLowerCase();
+  if (normalized === "jpeg") return CONTENT_TYPES.jpg;
+  if (normalized === "tif") return CONTENT_TYPES.tiff;
+  return CONTENT_TYPES[normalized] || `image/${normalized}`;
+}
+
+function startsWith(bytes: Uint8Array, signature: number[], offset = 0) {
+  return signature.every((byte, index) => bytes[offset + index] === byte);
+}
+
+function ascii(bytes: Uint8Array, start: number, length: number): string {
+  return String.fromCharCode(
+    ...Array.from(bytes.subarray(start, start + length))
+  );
+}
+
+/**
+ * Reads integers of either byte order within the bounds of the data
+ */
+function createReader(bytes: Uint8Array, littleEndian: boolean) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const inBounds = (offset: number, size: number) =>
+    offset >= 0 && offset + size <= bytes.length;
+  return {
+    u16: (offset: number) =>
+      inBounds(offset, 2) ? view.getUint16(offset, littleEndian) : 0,
+    u32: (offset: number) =>
+      inBounds(offset, 4) ? view.getUint32(offset, littleEndian) : 0,
+    i16: (offset: number) =>
+      inBounds(offset, 2) ? view.getInt16(offset, littleEndian) : 0,
+    i32: (offset: number) =>
+      inBounds(offset, 4) ? view.getInt32(offset, littleEndian) : 0,
+  };
+}
+
+type Resolution = { dpiX?: number; dpiY?: number; orientation?: number };
+
+/**
+ * Orientation, resolution and (for TIFF files) size from the first IFD of a
+ * TIFF structure, as found in TIFF files and JPEG EXIF data
+ */
+function readTiffTags(
+  bytes: Uint8Array,
+  start: number
+): Resolution & { width?: number; height?: number } {
+  const littleEndian = bytes[start] === 0x49;
+  const read = createReader(bytes, littleEndian);
+  const ifd = start + read.u32(start + 4);
+  const count = read.u16(ifd);
+  const result: Resolution & { width?: number; height?: number } = {};
+  let unit = 2;
+  let x: number | undefined;
+  let y: number | undefined;
+
+  for (let i = 0; i < count; i++) {
+    const entry = ifd + 2 + i * 12;
+    const tag = read.u16(entry);
+    const type = read.u16(entry + 2);
+    // SHORT values are stored in the entry, LONG values too, RATIONAL values
+    // at an offset
+    const value = type === 3 ? read.u16(entry + 8) : read.u32(entry + 8);
+    const rational = () => {
+      const offset = start + read.u32(entry + 8);
+      const denominator = read.u32(offset + 4);
+      return denominator ? read.u32(offset) / denominator : undefined;
+    };
+    switch (tag) {
+      case 0x0100:
+        result.width = value;
+        break;
+      case 0x0101:
+        result.height = value;
+        break;
+      case 0x0112:
+        result.orientation = value;
+        break;
+      case 0x011a:
+        x = rational();
+        break;
+      case 0x011b:
+        y = rational();
+        break;
+      case 0x0128:
+        unit = value;
+        break;
+    }
+  }
+
+  // Resolution unit: 2 for inches, 3 for centimeters, 1 for none
+  if (unit !== 1) {
+    const factor = unit === 3 ? 2.54 : 1;
+    if (x) result.dpiX = x * factor;
+    if (y) result.dpiY = y * factor;
+  }
+  return result;
+}
+
+function readPng(bytes: Uint8Array): Partial<ImageInfo> {
+  const read = createReader(bytes, false);
+  const info: Partial<ImageInfo> = {
+    width: read.u32(16),
+    height: read.u32(20),
+  };
+
+  // pHYs chunk: pixels per unit, unit 1 being the meter
+  let offset = 8;
+  while (offset + 8 <= bytes.length) {
+    const length = read.u32(offset);
+    const type = ascii(bytes, offset + 4, 4);
+    if (type === "pHYs" && bytes[offset + 16] === 1) {
+      info.dpiX = read.u32(offset + 8) * 0.0254;
+      info.dpiY = read.u32(offset + 12) * 0.0254;
+    }
+    if (type === "IDAT" || type === "IEND") break;
+    offset += length + 12;
+  }
+  return info;
+}
+
+// Start of frame markers; C4, C8 and CC use the same range for other segments
+const JPEG_FRAME_MARKERS = new Set([
+  0xc0, 0xc1, 0xc2, 0xc3, 0xc5, 0xc6, 0xc7, 0xc9, 0xca, 0xcb, 0xcd, 0xce, 0xcf,
+]);
+
+function readJpeg(bytes: Uint8Array): Partial<ImageInfo> {
+  const read = createReader(bytes, false);
+  const info: Partial<ImageInfo> = {};
+  let offset = 2;
+
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) {
+      offset++;
+      continue;
+    }
+    const marker = bytes[offset + 1];
+    // Fill bytes and markers without a length
+    if (marker === 0xff || marker === 0xd8 || marker === 0x01) {
+      offset++;
+      continue;
+    }
+    if (marker >= 0xd0 && marker <= 0xd7) {
+      offset += 2;
+      continue;
+    }
+    const length = read.u16(offset + 2);
+    const data = offset + 4;
+
+    if (JPEG_FRAME_MARKERS.has(marker)) {
+      info.height = read.u16(data + 1);
+      info.width = read.u16(data + 3);
+      break;
+    }
+    // APP0 JFIF: density unit 1 for inches, 2 for centimeters
+    if (marker === 0xe0 && ascii(bytes, data, 5) === "JFIF\0") {
+      const unit = bytes[data + 7];
+      const factor = unit === 2 ? 2.54 : 1;
+      if (unit === 1 || unit === 2) {
+        info.dpiX = read.u16(data + 8) * factor;
+        info.dpiY = read.u16(data + 10) * factor;
+      }
+    }
+    // APP1 EXIF: orientation, and a resolution that takes precedence
+    if (marker === 0xe1 && ascii(bytes, data, 6) === "Exif\0\0") {
+      const exif = readTiffTags(bytes, data + 6);
+      if (exif.orientation) info.orientation = exif.orientation;
+      if (exif.dpiX) info.dpiX = exif.dpiX;
+      if (exif.dpiY) info.dpiY = exif.dpiY;
+    }
+    if (marker === 0xda) break;
+    offset += 2 + length;
+  }
+  return info;
+}
+
+function readWebp(bytes: Uint8Array): Partial<ImageInfo> {
+  const read = createReader(bytes, true);
+  const chunk = ascii(bytes, 12, 4);
+  if (chunk === "VP8 ") {
+    return { width: read.u16(26) & 0x3fff, height: read.u16(28) & 0x3fff };
+  }
+  if (chunk === "VP8L") {
+    const bits = read.u32(21);
+    return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+  }
+  if (chunk === "VP8X") {
+    const width = bytes[24] | (bytes[25] << 8) | (bytes[26] << 16);
+    const height = bytes[27] | (bytes[28] << 8) | (bytes[29] << 16);
+    return { width: width + 1, height: height + 1 };
+  }
+  return {};
+}
+
+function readBmp(bytes: Uint8Array): Partial<ImageInfo> {
+  const read = createReader(bytes, true);
+  const info: Partial<ImageInfo> = {
+    width: Math.abs(read.i32(18)),
+    // Negative heights are top-down bitmaps
+    height: Math.abs(read.i32(22)),
+  };
+  const ppmX = read.i32(38);
+  const ppmY = read.i32(42);
+  if (ppmX > 0 && ppmY > 0) {
+    info.dpiX = ppmX * 0.0254;
+    info.dpiY = ppmY * 0.0254;
+  }
+  return info;
+}
+
+// Length of an SVG dimension in CSS pixels
+const SVG_UNITS: Record<string, number> = {
+  "": 1,
+  px: 1,
+  pt: 96 / 72,
+  pc: 16,
+  in: 96,
+  cm: 96 / 2.54,
+  mm: 96 / 25.4,
+};
+
+function readSvg(text: string): Partial<ImageInfo> {
+  const root = /<svg\b[^>]*>/.exec(text);
+  if (!root) return {};
+  const attribute = (name: string) =>
+    new RegExp(`\\s${name}\\s*=\\s*["']([^"']*)["']`).exec(root[0])?.[1];
+  const length = (value: string | undefined) => {
+    const match = /^\s*([\d.]+)\s*(px|pt|pc|in|cm|mm)?\s*$/.exec(value || "");
+    return match ? Number(match[1]) * SVG_UNITS[match[2] || ""] : undefined;
+  };
+
+  const viewBox = (attribute("viewBox") || "")
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .map(Number);
+  let width = length(attribute("width"));
+  let height = length(attribute("height"));
+  if (viewBox.length === 4 && viewBox[2] > 0 && viewBox[3] > 0) {
+    const ratio = viewBox[2] / viewBox[3];
+    if (width && !height) height = width / ratio;
+    if (height && !width) width = height * ratio;
+    width = width || viewBox[2];
+    height = height || viewBox[3];
+  }
+  return width && height
+    ? { width: Math.round(width), height: Math.round(height) }
+    : {};
+}
+
+function readEmf(bytes: Uint8Array): Partial<ImageInfo> {
+  // rclFrame: picture frame in hundredths of millimeters
+  const read = createReader(bytes, true);
+  const width = (read.i32(32) - read.i32(24)) / 100;
+  const height = (read.i32(36) - read.i32(28)) / 100;
+  return {
+    width: Math.round((width / 25.4) * DEFAULT_DPI),
+    height: Math.round((height / 25.4) * DEFAULT_DPI),
+  };
+}
+
+function readWmf(bytes: Uint8Array): Partial<ImageInfo> {
+  // Placeable header: bounding box in units, and units per inch
+  const read = createReader(bytes, true);
+  const unitsPerInch = read.u16(14) || 1440;
+  const width = (read.i16(10) - read.i16(6)) / unitsPerInch;
+  const height = (read.i16(12) - read.i16(8)) / unitsPerInch;
+  return {
+    width: Math.round(Math.abs(width) * DEFAULT_DPI),
+    height: Math.round(Math.abs(height) * DEFAULT_DPI),
+  };
+}
+
+/**
+ * Format of an image from its magic bytes, undefined when it is not a
+ * supported image
+ */
+export function detectImageFormat(bytes: Uint8Array): string | undefined {
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47])) return "png";
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return "jpg";
+  if (ascii(bytes, 0, 4) === "GIF8") return "gif";
+  if (ascii(bytes, 0, 4) === "RIFF" && ascii(bytes, 8, 4) === "WEBP") {
+    return "webp";
+  }
+  if (ascii(bytes, 0, 2) === "BM") return "bmp";
+  if (
+    startsWith(bytes, [0x49, 0x49, 0x2a, 0x00]) ||
+    startsWith(bytes, [0x4d, 0x4d, 0x00, 0x2a])
+  ) {
+    return "tiff";
+  }
+  if (startsWith(bytes, [0x01, 0, 0, 0]) && ascii(bytes, 40, 4) === " EMF") {
+    return "emf";
+  }
+  if (startsWith(bytes, [0xd7, 0xcd, 0xc6, 0x9a])) return "wmf";
+  const head = ascii(bytes, 0, 1024).replace(/^\uFEFF/, "");
+  if (
+    /^\s*(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*|<!DOCTYPE[^>]*>\s*)*<svg\b/i.test(
+      head
+    )
+  ) {
+    return "svg";
+  }
+  return undefined;
+}
+
+/**
+ * Read what Word needs to know about an image. Unknown formats keep the
+ * declared extension and get a 100×100 pixel size.
+ */
+export function getImageInfo(
+  bytes: Uint8Array,
+  declaredExtension = "jpg"
+): ImageInfo {
+  const format = detectImageFormat(bytes);
+  let info: Partial<ImageInfo> = {};
+  switch (format) {
+    case "png":
+      info = readPng(bytes);
+      break;
+    case "jpg":
+      info = readJpeg(bytes);
+      break;
+    case "gif":
+      info = {
+        width: bytes[6] | (bytes[7] << 8),
+        height: bytes[8] | (bytes[9] << 8),
+      };
+      break;
+    case "webp":
+      info = readWebp(bytes);
+      break;
+    case "bmp":
+      info = readBmp(bytes);
+      break;
+    case "tiff":
+      info = readTiffTags(bytes, 0);
+      break;
+    case "svg":
+      info = readSvg(new TextDecoder().decode(bytes));
+      break;
+    case "emf":
+      info = readEmf(bytes);
+      break;
+    case "wmf":
+      info = readWmf(bytes);
+      break;
+  }
+
+  const extension =
+    format || declaredExtension.toLowerCase().replace(/^jpeg$/, "jpg");
+  const valid = (value: number | undefined) =>
+    value !== undefined && isFinite(value) && value > 0;
+  return {
+    extension,
+    contentType: getContentType(extension),
+    width: valid(info.width) ? info.width! : 100,
+    height: valid(info.height) ? info.height! : 100,
+    dpiX: valid(info.dpiX) ? info.dpiX! : DEFAULT_DPI,
+    dpiY: valid(info.dpiY) ? info.dpiY! : DEFAULT_DPI,
+    orientation:
+      info.orientation && info.orientation >= 1 && info.orientation <= 8
+        ? info.orientation
+        : 1,
+  };
+}
+
+/**
+ * Size of an image in pixels at 96 DPI, as displayed: physical resolution
+ * applied and width and height swapped for EXIF orientations 5 to 8
+ */
+export function getDisplaySize(info: ImageInfo): {
+  width: number;
+  height: number;
+} {
+  const width = (info.width * DEFAULT_DPI) / info.dpiX;
+  const height = (info.height * DEFAULT_DPI) / info.dpiY;
+  return info.orientation >= 5
+    ? { width: height, height: width }
+    : { width, height };
+}
+
+/**
+ * Rotation and mirroring that display an image with an EXIF orientation
+ * upright. DrawingML mirrors the picture before rotating it.
+ */
+export function getOrientationTransform(orientation: number): {
+  rotation: number;
+  flipHorizontal: boolean;
+} {
+  switch (orientation) {
+    case 2:
+      return { rotation: 0, flipHorizontal: true };
+    case 3:
+      return { rotation: 180, flipHorizontal: false };
+    case 4:
+      return { rotation: 180, flipHorizontal: true };
+    case 5:
+      return { rotation: 270, flipHorizontal: true };
+    case 6:
+      return { rotation: 90, flipHorizontal: false };
+    case 7:
+      return { rotation: 90, flipHorizontal: true };
+    case 8:
+      return { rotation: 270, flipHorizontal: false };
+    default:
+      return { rotation: 0, flipHorizontal: false };
+  }
+}
@@ -0,0 +1,108 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createServer } from "node:http";
+import { AddressInfo } from "node:net";
+import { createImageCache, generateDocx } from "./index";
+import { DocxGenerationError } from "./types";
+import { createDocx, JPEG_IMAGE, paragraph, readPart } from "./test-utils";
+
+test("applies the host allow-list and size limit to cached images", async () => {
+  let requests = 0;
+  const server = createServer((request, response) => {
+    requests++;
+    response.writeHead(200, { "Content-Type": "image/jpeg" });
+    response.end(JPEG_IMAGE);
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  try {
+    const template = await createDocx(paragraph("{photo}"));
+    const data = {
+      photo: { type: "image", url: `http://127.0.0.1:${port}/photo` },
+    };
+    const imageCache = createImageCache();
+    const expectCode = (code: string) => (error: unknown) => {
+      assert.ok(error instanceof DocxGenerationError);
+      assert.equal(error.code, code);
+      return true;
+    };
+
+    const output = await generateDocx(template, data, { imageCache });
+    assert.match(
+      await readPart(output, "word/_rels/document.xml.rels"),
+      /Target="media\/image1\.jpg"/
+    );
+    await generateDocx(template, data, { imageCache });
+    assert.equal(requests, 1);
+
+    await assert.rejects(
+      generateDocx(template, data, {
+        imageCache,
+        allowedImageHosts: ["example.com"],
+      }),
+      expectCode("IMAGE_HOST_NOT_ALLOWED")
+    );
+    await assert.rejects(
+      generateDocx(template, data, { imageCache, maxImageBytes: 1000 }),
+      expectCode("IMAGE_TOO_LARGE")
+    );
+    await generateDocx(template, data, {
+      imageCache,
+      allowedImageHosts: ["127.0.0.1"],
+    });
+    assert.equal(requests, 3);
+  } finally {
+    await new Promise((resolve) => server.close(resolve));
+  }
+});
+
+test("shares cached images only under the same headers and resolver", async () => {
+  const server = createServer((request, response) => {
+    if (request.headers.authorization !== "Bearer a") {
+      response.writeHead(403);
+      response.end();
+      return;
+    }
+    response.writeHead(200, { "Content-Type": "image/jpeg" });
+    response.end(JPEG_IMAGE);
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  try {
+    const template = await createDocx(paragraph("{photo}"));
+    const imageCache = createImageCache();
+    const url = { photo: { type: "image", url: `http://127.0.0.1:${port}/a` } };
+    await generateDocx(template, url, {
+      imageCache,
+      imageRequestHeaders: { Authorization: "Bearer a" },
+    });
+    await assert.rejects(
+      generateDocx(template, url, {
+        imageCache,
+        imageRequestHeaders: { Authorization: "Bearer b" },
+      }),
+      (error: unknown) =>
+        error instanceof DocxGenerationError &&
+        error.code === "IMAGE_FETCH_FAILED"
+    );
+
+    const calls = { a: 0, b: 0 };
+    const resolveA = () => {
+      calls.a++;
+      return JPEG_IMAGE;
+    };
+    const resolveB = () => {
+      calls.b++;
+      return JPEG_IMAGE;
+    };
+    const src = { photo: { type: "image", src: "s3://bucket/logo.jpg" } };
+    await generateDocx(template, src, { imageCache, imageResolver: resolveA });
+    await generateDocx(template, src, { imageCache, imageResolver: resolveA });
+    await generateDocx(template, src, { imageCache, imageResolver: resolveB });
+    assert.deepEqual(calls, { a: 1, b: 1 });
+  } finally {
+    await new Promise((resolve) => server.close(resolve));
+  }
+});
@@ -0,0 +1,479 @@
+/**
+ * Loading of image content: buffers, data URIs, http(s) URLs and sources of
+ * the imageResolver option, within limits on time, size and hosts
+ */
+import {
+  DocxGenerationError,
+  GenerateDocxOptions,
+  ImageCache,
+  ImageData,
+  ImageResolver,
+  ImageResolverResult,
+} from "./types";
+import { ensureBuffer } from "./docx";
+
+/** Content of an image, with the extension declared by its source */
+export interface LoadedImage {
+  buffer: Buffer | Uint8Array;
+  extension: string;
+}
+
+type LoadOptions = Pick<
+  GenerateDocxOptions,
+  | "imageResolver"
+  | "imageTimeout"
+  | "maxImageBytes"
+  | "allowedImageHosts"
+  | "imageRequestHeaders"
+>;
+
+const DEFAULT_TIMEOUT = 10000;
+const DEFAULT_MAX_BYTES = 20 * 1024 * 1024;
+const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_CACHE_SIZE = 100;
+const MAX_REDIRECTS = 5;
+
+const EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/gif": "gif",
+  "image/webp": "webp",
+  "image/bmp": "bmp",
+  "image/tiff": "tiff",
+  "image/svg+xml": "svg",
+  "image/x-emf": "emf",
+  "image/emf": "emf",
+  "image/x-wmf": "wmf",
+  "image/wmf": "wmf",
+};
+
+/**
+ * Cache of loaded images to share between generations
+ */
+export function createImageCache(maxEntries = DEFAULT_CACHE_SIZE): ImageCache {
+  return { maxEntries, entries: new Map() };
+}
+
+function getExtension(url: string, contentType?: string | null): string {
+  const type = (contentType || "").split(";")[0].trim().toLowerCase();
+  if (EXTENSIONS[type]) return EXTENSIONS[type];
+  const match = /\.([a-z0-9]+)$/i.exec(url.split(/[?#]/)[0]);
+  return match ? match[1].toLowerCase().replace(/^jpeg$/, "jpg") : "jpg";
+}
+
+function checkSize(
+  buffer: Buffer | Uint8Array,
+  source: string,
+  maxBytes: number
+): Buffer | Uint8Array {
+  if (buffer.length > maxBytes) throw tooLarge(source, maxBytes);
+  return buffer;
+}
+
+function tooLarge(source: string, maxBytes: number): DocxGenerationError {
+  return new DocxGenerationError(
+    `Image "${describe(source)}" is larger than ${maxBytes} bytes`,
+    "IMAGE_TOO_LARGE",
+    { source: describe(source), maxBytes }
+  );
+}
+
+// Sources in messages, without the content of data URIs
+function describe(source: string): string {
+  return source.startsWith("data:") ? `${source.slice(0, 32)}...` : source;
+}
+
+/**
+ * Bytes of a data URI, base64 or percent-encoded
+ */
+function decodeDataUri(uri: string): LoadedImage {
+  const match = /^data:([^,]*?)(;base64)?,([\s\S]*)$/i.exec(uri);
+  if (!match) {
+    throw new DocxGenerationError(
+      `Invalid data URI "${describe(uri)}"`,
+      "IMAGE_INVALID_DATA_URI",
+      { source: describe(uri) }
+    );
+  }
+
+  const [, mediaType, base64, data] = match;
+  const extension = getExtension("", mediaType);
+  try {
+    if (!base64) {
+      return {
+        buffer: ensureBuffer(
+          new TextEncoder().encode(decodeURIComponent(data))
+        ),
+        extension,
+      };
+    }
+    if (typeof Buffer !== "undefined") {
+      return { buffer: Buffer.from(data, "base64"), extension };
+    }
+    const binary = atob(data.replace(/\s/g, ""));
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return { buffer: bytes, extension };
+  } catch (error) {
+    throw new DocxGenerationError(
+      `Invalid data URI "${describe(uri)}"`,
+      "IMAGE_INVALID_DATA_URI",
+      { source: describe(uri), cause: error }
+    );
+  }
+}
+
+/**
+ * Whether a host is allowed by entries such as "cdn.example.com" or
+ * "*.example.com", which matches the subdomains of example.com
+ */
+function isAllowedHost(host: string, allowedHosts: string[]): boolean {
+  const name = host.toLowerCase();
+  return allowedHosts.some((entry) => {
+    const allowed = entry.toLowerCase();
+    return allowed.startsWith("*.")
+      ? name.endsWith(allowed.slice(1))
+      : name === allowed;
+  });
+}
+
+function checkUrl(url: string, options: LoadOptions): URL {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new DocxGenerationError(
+      `Unsupported image source "${url}"`,
+      "IMAGE_SOURCE_UNSUPPORTED",
+      { source: url }
+    );
+  }
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    throw new DocxGenerationError(
+      `Unsupported image source "${url}": only data URIs and http(s) URLs are loaded without an imageResolver`,
+      "IMAGE_SOURCE_UNSUPPORTED",
+      { source: url }
+    );
+  }
+  if (
+    options.allowedImageHosts &&
+    !isAllowedHost(parsed.hostname, options.allowedImageHosts)
+  ) {
+    throw new DocxGenerationError(
+      `Image host "${parsed.hostname}" is not allowed`,
+      "IMAGE_HOST_NOT_ALLOWED",
+      { source: url, host: parsed.hostname }
+    );
+  }
+  return parsed;
+}
+
+/**
+ * Read a response body, stopping as soon as it exceeds maxBytes
+ */
+async function readBody(
+  response: Response,
+  url: string,
+  maxBytes: number
+): Promise<Buffer | Uint8Array> {
+  if (Number(response.headers.get("content-length")) > maxBytes) {
+    throw tooLarge(url, maxBytes);
+  }
+  if (!response.body) {
+    return checkSize(ensureBuffer(await response.arrayBuffer()), url, maxBytes);
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > maxBytes) {
+      await reader.cancel();
+      throw tooLarge(url, maxBytes);
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return ensureBuffer(bytes);
+}
+
+/**
+ * Fetch an image over http(s). Redirects are followed by hand in Node.js, so
+ * that every host is checked against allowedImageHosts.
+ */
+async function fetchImage(
+  url: string,
+  options: LoadOptions,
+  maxBytes: number,
+  signal: AbortSignal
+): Promise<LoadedImage> {
+  if (typeof fetch === "undefined") {
+    throw new DocxGenerationError(
+      `Cannot fetch image "${url}": fetch is not available, use Node.js 18+ or an imageResolver`,
+      "IMAGE_FETCH_UNAVAILABLE",
+      { source: url }
+    );
+  }
+
+  const browser = typeof window !== "undefined";
+  const { host } = checkUrl(url, options);
+  let current = url;
+  for (let redirects = 0; ; redirects++) {
+    // Headers such as Authorization are not sent to another host
+    const sameHost = checkUrl(current, options).host === host;
+    const response = await fetch(current, {
+      headers: sameHost ? options.imageRequestHeaders : undefined,
+      redirect: browser ? "follow" : "manual",
+      signal,
+    });
+
+    const location = response.headers.get("location");
+    if (response.status >= 300 && response.status < 400 && location) {
+      if (redirects === MAX_REDIRECTS) {
+        throw new DocxGenerationError(
+          `Failed to fetch image from "${url}": too many redirects`,
+          "IMAGE_FETCH_FAILED",
+          { source: url }
+        );
+      }
+      current = new URL(location, current).href;
+      continue;
+    }
+    if (!response.ok) {
+      throw new DocxGenerationError(
+        `Failed to fetch image from "${url}": ${response.status} ${response.statusText}`,
+        "IMAGE_FETCH_FAILED",
+        { source: url, status: response.status }
+      );
+    }
+
+    return {
+      buffer: await readBody(response, url, maxBytes),
+      extension: getExtension(current, response.headers.get("content-type")),
+    };
+  }
+}
+
+function toLoadedImage(
+  result: ImageResolverResult,
+  source: string
+): LoadedImage {
+  if ("buffer" in result && !(result instanceof Uint8Array)) {
+    return {
+      buffer: ensureBuffer(result.buffer),
+      extension: result.extension || getExtension(source),
+    };
+  }
+  return { buffer: ensureBuffer(result), extension: getExtension(source) };
+}
+
+/**
+ * Load the image of a src or url: through the imageResolver first, then as a
+ * data URI or an http(s) URL. Fails with a DocxGenerationError whose code
+ * tells what went wrong, e.g. IMAGE_TIMEOUT or IMAGE_HOST_NOT_ALLOWED.
+ */
+export async function loadImageSource(
+  source: string,
+  options: LoadOptions = {},
+  image: ImageData = { type: "image", src: source }
+): Promise<LoadedImage> {
+  const maxBytes = options.maxImageBytes ?? DEFAULT_MAX_BYTES;
+  const timeout = options.imageTimeout ?? DEFAULT_TIMEOUT;
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const expired = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(
+        new DocxGenerationError(
+          `Loading image "${describe(source)}" took more than ${timeout} ms`,
+          "IMAGE_TIMEOUT",
+          { source: describe(source), timeout }
+        )
+      );
+    }, timeout);
+  });
+
+  const load = async (): Promise<LoadedImage> => {
+    if (options.imageResolver) {
+      let result: ImageResolverResult | undefined | null;
+      try {
+        result = await options.imageResolver(source, image);
+      } catch (error) {
+        throw new DocxGenerationError(
+          `imageResolver failed for "${describe(source)}": ${error instanceof Error ? error.message : String(error)}`,
+          "IMAGE_RESOLVER_FAILED",
+          { source: describe(source), cause: error }
+        );
+      }
+      if (result) {
+        const loaded = toLoadedImage(result, source);
+        checkSize(loaded.buffer, source, maxBytes);
+        return loaded;
+      }
+    }
+
+    if (source.startsWith("data:")) {
+      const loaded = decodeDataUri(source);
+      checkSize(loaded.buffer, source, maxBytes);
+      return loaded;
+    }
+
+    try {
+      return await fetchImage(source, options, maxBytes, controller.signal);
+    } catch (error) {
+      if (error instanceof DocxGenerationError || controller.signal.aborted) {
+        throw error;
+      }
+      throw new DocxGenerationError(
+        `Failed to fetch image from "${source}": ${error instanceof Error ? error.message : String(error)}`,
+        "IMAGE_FETCH_FAILED",
+        { source, cause: error }
+      );
+    }
+  };
+
+  try {
+    return await Promise.race([load(), expired]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Shared promise of a source in an LRU cache, removed again when it fails
+ */
+function getCached(
+  cache: ImageCache,
+  key: string,
+  load: () => Promise<LoadedImage>
+): Promise<LoadedImage> {
+  const cached = cache.entries.get(key);
+  if (cached) {
+    // Most recently used last
+    cache.entries.delete(key);
+    cache.entries.set(key, cached);
+    return cached;
+  }
+
+  const loading = load();
+  cache.entries.set(key, loading);
+  loading.catch(() => {
+    if (cache.entries.get(key) === loading) cache.entries.delete(key);
+  });
+  while (cache.entries.size > Math.max(cache.maxEntries, 0)) {
+    cache.entries.delete(cache.entries.keys().next().value!);
+  }
+  return loading;
+}
+
+// Number of each imageResolver function in cache keys
+const resolverIds = new WeakMap<ImageResolver, number>();
+let resolverCount = 0;
+
+/**
+ * Cache key of a source: the same source loaded under another host allow-list,
+ * size limit, request headers or imageResolver function is another entry, so
+ * a cached image never escapes the limits or credentials of the generation
+ * asking for it
+ */
+function getCacheKey(source: string, options: LoadOptions): string {
+  const hosts = options.allowedImageHosts
+    ?.map((host) => host.toLowerCase())
+    .sort();
+  const maxBytes = options.maxImageBytes ?? DEFAULT_MAX_BYTES;
+  const headers = options.imageRequestHeaders
+    ? Object.entries(options.imageRequestHeaders)
+        .map(([name, value]) => [name.toLowerCase(), value])
+        .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    : null;
+  let resolver: number | null = null;
+  if (options.imageResolver) {
+    resolver = resolverIds.get(options.imageResolver) ?? ++resolverCount;
+    resolverIds.set(options.imageResolver, resolver);
+  }
+  return JSON.stringify([source, hosts ?? null, maxBytes, headers, resolver]);
+}
+
+/**
+ * Loads the image of an ImageData once, however many times it is asked for
+ */
+export type ImageLoader = (
+  imageData: ImageData,
+  key: string
+) => Promise<LoadedImage>;
+
+/**
+ * Image loader of one generation: at most imageConcurrency sources load at
+ * the same time, each source once through the cache
+ */
+export function createImageLoader(options: GenerateDocxOptions): ImageLoader {
+  const cache = options.imageCache || createImageCache();
+  const concurrency = Math.max(
+    1,
+    options.imageConcurrency ?? DEFAULT_CONCURRENCY
+  );
+  const loads = new WeakMap<ImageData, Promise<LoadedImage>>();
+  const waiting: Array<() => void> = [];
+  let active = 0;
+
+  const schedule = async <T>(task: () => Promise<T>): Promise<T> => {
+    if (active >= concurrency) {
+      await new Promise<void>((resolve) => waiting.push(resolve));
+    }
+    active++;
+    try {
+      return await task();
+    } finally {
+      active--;
+      waiting.shift()?.();
+    }
+  };
+
+  const load = async (
+    imageData: ImageData,
+    key: string
+  ): Promise<LoadedImage> => {
+    if (imageData.buffer) {
+      return {
+        buffer: ensureBuffer(imageData.buffer),
+        extension: imageData.extension || "jpg",
+      };
+    }
+
+    const source = imageData.src || imageData.url;
+    if (!source) {
+      throw new DocxGenerationError(
+        `Image data for "${key}" must have a 'buffer', 'src' or 'url' property`,
+        "IMAGE_SOURCE_MISSING",
+        { key }
+      );
+    }
+
+    const loaded = source.startsWith("data:")
+      ? loadImageSource(source, options, imageData)
+      : getCached(cache, getCacheKey(source, options), () =>
+          schedule(() => loadImageSource(source, options, imageData))
+        );
+    const { buffer, extension } = await loaded;
+    return { buffer, extension: imageData.extension || extension };
+  };
+
+  return (imageData, key) => {
+    let loading = loads.get(imageData);
+    if (!loading) {
+      loading = load(imageData, key);
+      loads.set(imageData, loading);
+    }
+    return loading;
+  };
+}
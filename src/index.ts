@@ -1,13 +1,40 @@
 // Main exports
-export { generateDocx, generateDocxDetailed } from "./utils";
+export { generateDocx, generateDocxDetailed, generateBatch } from "./utils";
+export { validateTemplate } from "./validate";
+export {
+  inspectTemplate,
+  createJsonSchema,
+  createTypeScriptInterface,
+} from "./inspect";
+export { createImageCache } from "./imagesource";
 
 // Type exports
 export type {
   TemplateData,
   ImageData,
+  ImagePosition,
+  ImageResolver,
+  ImageResolverResult,
+  ImageCache,
+  QrCodeData,
+  BarcodeData,
+  ChartData,
+  ChartSeries,
+  RichTextData,
+  RichTextRun,
+  MarkdownData,
+  LinkData,
+  DocxData,
   GenerateDocxOptions,
+  GenerateBatchOptions,
   DocxGenerationResult,
   DocxGenerationError,
+  TemplateDiagnostic,
+  TemplateValidationResult,
+  TemplateField,
+  TemplateFieldLocation,
+  TemplateFieldUsage,
+  TemplateInspection,
 } from "./types";
 
 // Re-export everything for convenience
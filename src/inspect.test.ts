@@ -0,0 +1,96 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  createJsonSchema,
+  createTypeScriptInterface,
+  inspectTemplate,
+} from "./index";
+import { TemplateField } from "./types";
+import { createDocx, paragraph, table } from "./test-utils";
+
+const summarize = (fields: TemplateField[]): unknown =>
+  fields.map(({ name, type, fields: children }) =>
+    children ? { name, type, fields: summarize(children) } : { name, type }
+  );
+
+test("lists values, objects, lists and conditions", async () => {
+  const template = await createDocx(
+    paragraph("{customer.name}") +
+      paragraph("{logo}") +
+      paragraph("{?paid}Paid{/paid}") +
+      table(["{table:lines}{label}", "{price}"])
+  );
+  const { fields } = await inspectTemplate(template);
+  assert.deepEqual(summarize(fields), [
+    {
+      name: "customer",
+      type: "object",
+      fields: [{ name: "name", type: "value" }],
+    },
+    { name: "logo", type: "value" },
+    { name: "paid", type: "condition" },
+    {
+      name: "lines",
+      type: "list",
+      fields: [
+        { name: "label", type: "value" },
+        { name: "price", type: "value" },
+      ],
+    },
+  ]);
+  assert.equal(fields[1].imageSlot, true);
+});
+
+test("places tags of a loop that the enclosing data has on that data", async () => {
+  const template = await createDocx(
+    paragraph("{company} {currency}") +
+      paragraph(
+        "{#items}{name} of {company}{#tags}{label} {name}{/tags}{/items}"
+      )
+  );
+  const { fields } = await inspectTemplate(template);
+  assert.deepEqual(summarize(fields), [
+    { name: "company", type: "value" },
+    { name: "currency", type: "value" },
+    {
+      name: "items",
+      type: "list",
+      fields: [
+        { name: "name", type: "value" },
+        {
+          name: "tags",
+          type: "list",
+          fields: [{ name: "label", type: "value" }],
+        },
+      ],
+    },
+  ]);
+
+  const schema = createJsonSchema({ fields }) as {
+    properties: Record<string, { items: { required: string[] } }>;
+  };
+  assert.deepEqual(schema.properties.items.items.required, ["name", "tags"]);
+  assert.match(
+    createTypeScriptInterface({ fields }, "Data"),
+    /items: Array<\{\n {4}name: [^\n]*;\n {4}tags: Array/
+  );
+});
+
+test("records the paths of filter arguments", async () => {
+  const template = await createDocx(
+    paragraph("{amount | currency:code}{#rows}{price | round:digits}{/rows}")
+  );
+  const { fields } = await inspectTemplate(template);
+  assert.deepEqual(summarize(fields), [
+    { name: "amount", type: "value" },
+    { name: "code", type: "value" },
+    {
+      name: "rows",
+      type: "list",
+      fields: [
+        { name: "price", type: "value" },
+        { name: "digits", type: "value" },
+      ],
+    },
+  ]);
+});
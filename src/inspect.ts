@@ -0,0 +1,410 @@
+import JSZip from "jszip";
+import {
+  DocxGenerationError,
+  TemplateField,
+  TemplateFieldLocation,
+  TemplateFieldUsage,
+  TemplateInspection,
+} from "./types";
+import {
+  ensureBuffer,
+  getParagraphIndex,
+  getParagraphText,
+  getParagraphs,
+  getTemplateParts,
+  normalizeDocxText,
+  parseXml,
+} from "./docx";
+import { FilterCall, TemplateNode, parseTemplate } from "./parser";
+import { parsePath } from "./scope";
+import { getExpressionPaths } from "./expression";
+
+type FieldBuilder = {
+  name: string;
+  path: string;
+  usages: Set<TemplateFieldUsage>;
+  indexed: boolean;
+  imageSlot: boolean;
+  scalarItems: boolean;
+  fields: Map<string, FieldBuilder>;
+  locations: TemplateFieldLocation[];
+};
+
+type PartContext = {
+  part: string;
+  xml: string;
+  paragraphTexts: string[];
+};
+
+const LOOP_VARIABLES = new Set(["$index", "$first", "$last"]);
+
+function getField(
+  fields: Map<string, FieldBuilder>,
+  name: string,
+  path: string
+): FieldBuilder {
+  let field = fields.get(name);
+  if (!field) {
+    field = {
+      name,
+      path,
+      usages: new Set(),
+      indexed: false,
+      imageSlot: false,
+      scalarItems: false,
+      fields: new Map(),
+      locations: [],
+    };
+    fields.set(name, field);
+  }
+  return field;
+}
+
+/**
+ * Record the use of a tag path, relative to the enclosing list item
+ */
+function addUse(
+  fields: Map<string, FieldBuilder>,
+  list: FieldBuilder | null,
+  path: string,
+  usage: TemplateFieldUsage,
+  location: TemplateFieldLocation
+): FieldBuilder | null {
+  const trimmed = path.trim();
+  if (trimmed === "." || trimmed === "this") {
+    if (list) list.scalarItems = true;
+    return null;
+  }
+  if (LOOP_VARIABLES.has(trimmed)) return null;
+
+  let segments = parsePath(trimmed);
+  if (segments[0] === "this") segments = segments.slice(1);
+
+  let current: FieldBuilder | null = null;
+  let currentFields = fields;
+  let names: string[] = [];
+  for (let i = 0; i < segments.length; i++) {
+    const segment = segments[i];
+    if (typeof segment === "number") {
+      // items[0].name: items is a list and name a field of its items
+      if (current) current.indexed = true;
+      names = [];
+      continue;
+    }
+    if (segment === "length" && current && i === segments.length - 1) {
+      current.indexed = true;
+      continue;
+    }
+    names.push(segment);
+    current = getField(currentFields, segment, names.join("."));
+    currentFields = current.fields;
+  }
+
+  if (current) {
+    current.usages.add(usage);
+    current.locations.push(location);
+  }
+  return current;
+}
+
+/**
+ * Record the paths passed as filter arguments, e.g. cur in {amount | currency:cur}
+ */
+function addFilterArguments(
+  fields: Map<string, FieldBuilder>,
+  list: FieldBuilder | null,
+  filters: FilterCall[],
+  location: TemplateFieldLocation
+) {
+  for (const { args } of filters) {
+    for (const arg of args) {
+      if ("path" in arg) addUse(fields, list, arg.path, "value", location);
+    }
+  }
+}
+
+function collect(
+  nodes: TemplateNode[],
+  fields: Map<string, FieldBuilder>,
+  list: FieldBuilder | null,
+  context: PartContext
+) {
+  const locate = (
+    offset: number,
+    usage: TemplateFieldUsage
+  ): TemplateFieldLocation => ({
+    part: context.part,
+    paragraphIndex: getParagraphIndex(context.xml, offset),
+    usage,
+  });
+
+  for (const node of nodes) {
+    if (node.type === "tag") {
+      // {>name} names a partial, not a field of the data
+      if (node.tag.partial) continue;
+      const location = locate(node.offset, "value");
+      const field = addUse(fields, list, node.tag.path, "value", location);
+      addFilterArguments(fields, list, node.tag.filters, location);
+      if (
+        field &&
+        context.paragraphTexts[location.paragraphIndex]?.trim() === node.tag.raw
+      ) {
+        field.imageSlot = true;
+      }
+    } else if (node.type === "templateImage") {
+      const location = locate(node.offset, "value");
+      const field = addUse(fields, list, node.tag.path, "value", location);
+      addFilterArguments(fields, list, node.tag.filters, location);
+      if (field) field.imageSlot = true;
+    } else if (node.type === "mergeCell") {
+      collect(node.children, fields, list, context);
+    } else if (node.type === "section") {
+      const { tag } = node;
+      if (tag.type === "condition") {
+        for (const path of getExpressionPaths(tag.expression)) {
+          addUse(
+            fields,
+            list,
+            path,
+            "condition",
+            locate(node.offset, "condition")
+          );
+        }
+        collect(node.children, fields, list, context);
+        collect(node.elseChildren || [], fields, list, context);
+      } else {
+        const usage = tag.type === "table" ? "table" : "loop";
+        const field = addUse(
+          fields,
+          list,
+          tag.path,
+          usage,
+          locate(node.offset, usage)
+        );
+        if (field) {
+          collect(node.children, field.fields, field, context);
+        } else {
+          collect(node.children, fields, list, context);
+        }
+      }
+    }
+  }
+}
+
+function mergeField(target: FieldBuilder, source: FieldBuilder) {
+  source.usages.forEach((usage) => target.usages.add(usage));
+  target.locations.push(...source.locations);
+  target.indexed ||= source.indexed;
+  target.imageSlot ||= source.imageSlot;
+  target.scalarItems ||= source.scalarItems;
+  for (const [name, field] of source.fields) {
+    const existing = target.fields.get(name);
+    if (existing) mergeField(existing, field);
+    else target.fields.set(name, field);
+  }
+}
+
+/**
+ * Move the fields of loop items that the enclosing data also has to that
+ * data. Like resolvePath, a tag inside a loop reads the innermost scope that
+ * defines its first segment, so {company} inside {#items} is the company used
+ * outside the loop rather than a field of every item.
+ */
+function moveToEnclosingData(
+  fields: Map<string, FieldBuilder>,
+  scopes: Array<Map<string, FieldBuilder>>
+) {
+  for (const field of Array.from(fields.values())) {
+    if (!field.usages.has("loop") && !field.usages.has("table")) {
+      moveToEnclosingData(field.fields, scopes);
+      continue;
+    }
+    for (const [name, itemField] of Array.from(field.fields)) {
+      const scope = scopes.find((candidate) => {
+        const owner = candidate.get(name);
+        return owner !== undefined && owner !== field;
+      });
+      if (scope) {
+        mergeField(scope.get(name)!, itemField);
+        field.fields.delete(name);
+      }
+    }
+    moveToEnclosingData(field.fields, [field.fields, ...scopes]);
+  }
+}
+
+function getFieldType(field: FieldBuilder): TemplateField["type"] {
+  const { usages } = field;
+  if (usages.has("loop") || usages.has("table") || field.indexed) return "list";
+  if (field.fields.size > 0) return "object";
+  if (usages.has("value")) return "value";
+  return "condition";
+}
+
+function toTemplateField(field: FieldBuilder): TemplateField {
+  const type = getFieldType(field);
+
+  const result: TemplateField = {
+    name: field.name,
+    path: field.path,
+    type,
+    locations: field.locations,
+  };
+  if (type === "value" && field.imageSlot) result.imageSlot = true;
+  if (type === "list" && field.scalarItems) result.scalarItems = true;
+  if (field.fields.size > 0) {
+    result.fields = Array.from(field.fields.values(), toTemplateField);
+  }
+  return result;
+}
+
+/**
+ * List the data a template expects, for example to build an input form.
+ *
+ * Walks every template part and returns a tree of fields: scalar tags, loops
+ * and tables with the fields of their items, conditions and tags that may hold
+ * an image, each with the places where it is used. Paths inside a loop are
+ * relative to the loop item unless the enclosing data has them too.
+ */
+export async function inspectTemplate(
+  templateBuffer: Buffer | Uint8Array | ArrayBuffer
+): Promise<TemplateInspection> {
+  let doc: JSZip;
+  try {
+    doc = await new JSZip().loadAsync(ensureBuffer(templateBuffer));
+  } catch (error) {
+    throw new DocxGenerationError(
+      `Failed to read template: ${error instanceof Error ? error.message : String(error)}`,
+      "INVALID_TEMPLATE_FILE",
+      error
+    );
+  }
+
+  const fields = new Map<string, FieldBuilder>();
+  for (const part of getTemplateParts(doc)) {
+    const xml = normalizeDocxText(await doc.file(part)!.async("text"));
+    const paragraphTexts = getParagraphs(parseXml(xml).doc).map(
+      getParagraphText
+    );
+    collect(parseTemplate(xml).nodes, fields, null, {
+      part,
+      xml,
+      paragraphTexts,
+    });
+  }
+
+  moveToEnclosingData(fields, [fields]);
+  return { fields: Array.from(fields.values(), toTemplateField) };
+}
+
+const SCALAR_SCHEMA = { type: ["string", "number", "boolean", "null"] };
+
+const IMAGE_SCHEMA = {
+  type: "object",
+  required: ["type"],
+  properties: {
+    type: { const: "image" },
+    url: { type: "string" },
+    extension: { type: "string" },
+    widthInches: { type: "number" },
+    heightInches: { type: "number" },
+  },
+};
+
+function objectSchema(fields: TemplateField[]): Record<string, unknown> {
+  return {
+    type: "object",
+    properties: Object.fromEntries(
+      fields.map((field) => [field.name, fieldSchema(field)])
+    ),
+    required: fields
+      .filter((field) => field.type !== "condition")
+      .map((field) => field.name),
+  };
+}
+
+function fieldSchema(field: TemplateField): Record<string, unknown> {
+  switch (field.type) {
+    case "list":
+      return {
+        type: "array",
+        items:
+          field.scalarItems && !field.fields
+            ? { type: ["string", "number", "boolean"] }
+            : objectSchema(field.fields || []),
+      };
+    case "object":
+      return objectSchema(field.fields || []);
+    case "value":
+      return field.imageSlot
+        ? { anyOf: [SCALAR_SCHEMA, IMAGE_SCHEMA] }
+        : SCALAR_SCHEMA;
+    default:
+      return {};
+  }
+}
+
+/**
+ * JSON Schema (draft-07) of the data expected by an inspected template
+ */
+export function createJsonSchema(
+  inspection: TemplateInspection
+): Record<string, unknown> {
+  return {
+    $schema: "http://json-schema.org/draft-07/schema#",
+    ...objectSchema(inspection.fields),
+  };
+}
+
+function propertyName(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+function fieldType(field: TemplateField, indent: string): string {
+  switch (field.type) {
+    case "list":
+      return field.scalarItems && !field.fields
+        ? "Array<string | number | boolean>"
+        : `Array<${objectType(field.fields || [], indent)}>`;
+    case "object":
+      return objectType(field.fields || [], indent);
+    case "value":
+      return field.imageSlot
+        ? "string | number | boolean | null | ImageData"
+        : "string | number | boolean | null";
+    default:
+      return "string | number | boolean | null";
+  }
+}
+
+function objectType(fields: TemplateField[], indent: string): string {
+  const inner = indent + "  ";
+  const lines = fields.map(
+    (field) =>
+      `${inner}${propertyName(field.name)}${field.type === "condition" ? "?" : ""}: ${fieldType(field, inner)};`
+  );
+  return `{\n${lines.join("\n")}\n${indent}}`;
+}
+
+function usesImages(fields: TemplateField[]): boolean {
+  return fields.some(
+    (field) => field.imageSlot || usesImages(field.fields || [])
+  );
+}
+
+/**
+ * TypeScript interface of the data expected by an inspected template. The
+ * interface extends TemplateData, so it can be passed to generateDocx.
+ */
+export function createTypeScriptInterface(
+  inspection: TemplateInspection,
+  interfaceName = "TemplateInput"
+): string {
+  const imports = usesImages(inspection.fields)
+    ? "ImageData, TemplateData"
+    : "TemplateData";
+  return (
+    `import type { ${imports} } from "@monime/docx-templater";\n\n` +
+    `export interface ${interfaceName} extends TemplateData ${objectType(inspection.fields, "")}\n`
+  );
+}
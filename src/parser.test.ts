@@ -0,0 +1,46 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { parseTag, parseTemplate } from "./parser";
+import { generateDocx } from "./index";
+import { createDocx, getBodyText, paragraph } from "./test-utils";
+
+test("parses each kind of tag", () => {
+  assert.deepEqual(parseTag("{name}"), {
+    type: "variable",
+    raw: "{name}",
+    path: "name",
+    filters: [],
+  });
+  assert.equal(parseTag("{#items}").type, "loop");
+  assert.equal(parseTag("{?total > 10}").type, "condition");
+  assert.equal(parseTag("{/items}").type, "close");
+  assert.equal(parseTag("{>clause}").type, "variable");
+  assert.equal(parseTag("{not a tag!}").type, "unknown");
+});
+
+test("builds a tree of sections and reports unbalanced tags", () => {
+  const { nodes, errors } = parseTemplate(
+    `<w:document><w:body>${paragraph("{#a}{b}{/a}")}${paragraph("{/c}")}</w:body></w:document>`
+  );
+  const section = nodes.find((node) => node.type === "section");
+  assert.ok(section && section.type === "section");
+  assert.equal(section.tag.type, "loop");
+  assert.ok(section.children.some((node) => node.type === "tag"));
+  assert.deepEqual(
+    errors.map((error) => error.code),
+    ["UNMATCHED_CLOSING_TAG"]
+  );
+});
+
+test("renders sections nested in the same key", async () => {
+  const template = await createDocx(
+    paragraph("{#items}[{name}{#items}({name}){/items}]{/items}")
+  );
+  const output = await generateDocx(template, {
+    items: [
+      { name: "a", items: [{ name: "a1" }, { name: "a2" }] },
+      { name: "b", items: [] },
+    ],
+  });
+  assert.equal(await getBodyText(output), "[a(a1)(a2)][b]");
+});
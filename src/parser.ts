@@ -0,0 +1,1418 @@
+/**
+ * Template parser: turns a WordprocessingML part into a tree of XML, tag and
+ * section nodes.
+ *
+ * Sections are anchored to the w:p / w:r / w:t structure: when the opening and
+ * closing tags of a section sit in different runs or paragraphs, the runs and
+ * paragraphs around the tags are split and reopened so that the XML of every
+ * iteration or branch is balanced on its own.
+ */
+import { PATH_PATTERN } from "./scope";
+import { Expression, QUOTES, parseExpression } from "./expression";
+
+/** Argument of a filter: a literal or a path resolved against the scope */
+export type FilterArgument =
+  | { value: string | number | boolean | null }
+  | { path: string };
+
+/** One step of a filter chain, e.g. currency:"EUR" */
+export interface FilterCall {
+  name: string;
+  args: FilterArgument[];
+}
+
+/** Functions of aggregate tags such as {sum(items.price)} */
+export type AggregateFunction = "sum" | "count" | "avg" | "min" | "max";
+
+export type TemplateTag =
+  /**
+   * {path} or {path | filter:arg | filter}; {sum(items.price)} aggregates the
+   * values of a path; {merge:path} also merges the cell with the cell above
+   * when both show the same value; {bookmark:path} marks the rest of its
+   * paragraph and {ref:path} shows the text of a bookmark, named by the value
+   * of the path; {>name} inserts the partial template of that name
+   */
+  | {
+      type: "variable";
+      raw: string;
+      path: string;
+      filters: FilterCall[];
+      aggregate?: AggregateFunction;
+      merge?: boolean;
+      bookmark?: boolean;
+      ref?: boolean;
+      partial?: boolean;
+    }
+  /** {#path} */
+  | { type: "loop"; raw: string; path: string }
+  /** {?expression}, or {^expression} when inverted; path is the expression text */
+  | {
+      type: "condition";
+      raw: string;
+      path: string;
+      expression: Expression;
+      inverted?: boolean;
+    }
+  /** {:elseif expression} */
+  | { type: "elseif"; raw: string; path: string; expression: Expression }
+  /** {:else} */
+  | { type: "else"; raw: string }
+  /** {/path}, or {/} to close the innermost section */
+  | { type: "close"; raw: string; path: string }
+  /**
+   * {table:path} repeats its row, or the rows up to {/table:path}; with
+   * {table:path | header} the rows above repeat on every page
+   */
+  | { type: "table"; raw: string; path: string; header?: boolean }
+  /** {column:path} repeats its table cell */
+  | { type: "column"; raw: string; path: string }
+  /** Anything else between braces, rendered as literal text */
+  | { type: "unknown"; raw: string; error?: string };
+
+export type SectionTag = Extract<
+  TemplateTag,
+  { type: "loop" | "condition" | "table" | "column" }
+>;
+
+export type VariableTag = Extract<TemplateTag, { type: "variable" }>;
+
+export interface XmlNode {
+  type: "xml";
+  value: string;
+}
+
+export interface TagNode {
+  type: "tag";
+  tag: VariableTag;
+  /** Character offset of the tag in the parsed XML */
+  offset: number;
+  /**
+   * Markup closing / reopening the enclosing run, to insert sibling runs, and
+   * the run properties (w:rPr) of the tag
+   */
+  run: { close: string; open: string; props: string };
+}
+
+export interface SectionNode {
+  type: "section";
+  tag: SectionTag;
+  /** Character offset of the opening tag in the parsed XML */
+  offset: number;
+  children: TemplateNode[];
+  /**
+   * Content after {:else}, only for conditions. {:elseif} is represented as a
+   * condition nested in the else content.
+   */
+  elseChildren?: TemplateNode[];
+}
+
+/**
+ * Table cell holding a {merge:path} tag
+ */
+export interface MergeCellNode {
+  type: "mergeCell";
+  tag: VariableTag;
+  children: TemplateNode[];
+}
+
+/**
+ * w:gridCol of a column repeated by {column:path}
+ */
+export interface GridColumnNode {
+  type: "gridColumn";
+  tag: Extract<TemplateTag, { type: "column" }>;
+  value: string;
+}
+
+/**
+ * Picture of the template whose alt text or name is a tag, e.g. {logo}: the
+ * image is swapped for the image data of the tag
+ */
+export interface TemplateImageNode {
+  type: "templateImage";
+  tag: VariableTag;
+  /** Character offset of the wp:docPr in the parsed XML */
+  offset: number;
+  /** The w:drawing element */
+  value: string;
+}
+
+export type TemplateNode =
+  | XmlNode
+  | TagNode
+  | SectionNode
+  | MergeCellNode
+  | GridColumnNode
+  | TemplateImageNode;
+
+export interface TemplateParseError {
+  /** Error code, e.g. UNCLOSED_TAG */
+  code: string;
+  message: string;
+  /** Raw text of the offending tag */
+  tag: string;
+  /** Character offset of the tag in the parsed XML */
+  offset: number;
+}
+
+export interface ParsedTemplate {
+  nodes: TemplateNode[];
+  errors: TemplateParseError[];
+}
+
+type XmlToken = {
+  type: "open" | "close" | "selfClosing" | "other";
+  raw: string;
+  name: string;
+  offset: number;
+};
+
+type TextToken = { type: "text"; raw: string };
+
+type PlaceholderToken = {
+  type: "placeholder";
+  raw: string;
+  tag: TemplateTag;
+  offset: number;
+  /** Indexes of the open tokens of the enclosing elements, outermost first */
+  chain: number[];
+};
+
+type Token = XmlToken | TextToken | PlaceholderToken;
+
+type ElementInfo = {
+  name: string;
+  start: number;
+  end: number;
+  /** w:pPr / w:rPr markup, reused when the element is reopened */
+  props: string;
+};
+
+type Section = {
+  /** A variable tag for the cell of a {merge:path} tag */
+  tag: SectionTag | VariableTag;
+  /** Token range of the section body, inclusive */
+  start: number;
+  end: number;
+  /** Elements closed before / reopened inside the body at the start */
+  openSplit: number[];
+  /** Elements closed inside / reopened after the body at the end */
+  closeSplit: number[];
+  /**
+   * {:elseif} / {:else} tags: placeholder index, elements split around the
+   * tag, and the last / first token of the bodies before and after it
+   */
+  branches: Array<{
+    index: number;
+    split: number[];
+    end: number;
+    start: number;
+  }>;
+  /** Placeholder indexes of the tags delimiting this section */
+  delimiters: number[];
+  /** Paragraphs holding only a delimiter, removed from the output */
+  dropped: number[];
+  children: Section[];
+};
+
+const TAG_PATH_REGEX = new RegExp(`^${PATH_PATTERN}$`);
+
+// Elements that may be cut in two at a tag; other containers (tables, cells,
+// content controls...) are always kept whole.
+const SPLITTABLE_ELEMENTS = new Set([
+  "w:p",
+  "w:r",
+  "w:t",
+  "w:hyperlink",
+  "w:smartTag",
+]);
+
+function decodeXmlEntities(text: string): string {
+  return text.replace(/&(lt|gt|quot|apos|amp);/g, (_, entity: string) => {
+    switch (entity) {
+      case "lt":
+        return "<";
+      case "gt":
+        return ">";
+      case "quot":
+        return '"';
+      case "apos":
+        return "'";
+      default:
+        return "&";
+    }
+  });
+}
+
+const AGGREGATE_REGEX = /^(sum|count|avg|min|max)\(([^()]*)\)$/;
+
+const FILTER_NAME_REGEX = /^[A-Za-z_$][\w$]*$/;
+
+/**
+ * Split text on a separator, ignoring separators inside quotes
+ */
+function splitOutsideQuotes(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let current = "";
+  let closingQuote = "";
+  for (const char of text) {
+    if (closingQuote) {
+      if (char === closingQuote) closingQuote = "";
+    } else if (QUOTES[char]) {
+      closingQuote = QUOTES[char];
+    } else if (char === separator) {
+      parts.push(current);
+      current = "";
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts;
+}
+
+function parseFilterArgument(text: string): FilterArgument | null {
+  const arg = text.trim();
+  if (QUOTES[arg[0]] && arg.endsWith(QUOTES[arg[0]]) && arg.length > 1) {
+    return { value: arg.slice(1, -1) };
+  }
+  if (/^-?\d+(\.\d+)?$/.test(arg)) return { value: Number(arg) };
+  if (arg === "true" || arg === "false") return { value: arg === "true" };
+  if (arg === "null") return { value: null };
+  return TAG_PATH_REGEX.test(arg) ? { path: arg } : null;
+}
+
+/**
+ * Parse "name:arg:arg" filter steps; null if any step is malformed
+ */
+function parseFilters(steps: string[]): FilterCall[] | null {
+  const calls: FilterCall[] = [];
+  for (const step of steps) {
+    const [name, ...rawArgs] = splitOutsideQuotes(step, ":");
+    const args = rawArgs.map(parseFilterArgument);
+    if (!FILTER_NAME_REGEX.test(name.trim()) || args.includes(null)) {
+      return null;
+    }
+    calls.push({ name: name.trim(), args: args as FilterArgument[] });
+  }
+  return calls;
+}
+
+/**
+ * Closing tags of conditions repeat the expression; spacing does not matter
+ */
+function normalizeExpression(text: string): string {
+  return text.replace(/\s+/g, "");
+}
+
+/**
+ * Classify the text of a placeholder such as {#items} or {/items}
+ */
+export function parseTag(raw: string): TemplateTag {
+  const content = decodeXmlEntities(raw.slice(1, -1)).trim();
+
+  if (content === ":else") return { type: "else", raw };
+
+  const conditions: Array<[string, "condition" | "inverted" | "elseif"]> = [
+    ["?", "condition"],
+    ["^", "inverted"],
+    [":elseif ", "elseif"],
+  ];
+  for (const [prefix, type] of conditions) {
+    if (content.startsWith(prefix)) {
+      const path = content.slice(prefix.length).trim();
+      let expression: Expression;
+      try {
+        expression = parseExpression(path);
+      } catch (error) {
+        return { type: "unknown", raw, error: (error as Error).message };
+      }
+      if (type === "elseif") return { type, raw, path, expression };
+      return type === "inverted"
+        ? { type: "condition", raw, path, expression, inverted: true }
+        : { type: "condition", raw, path, expression };
+    }
+  }
+
+  if (content.startsWith("/")) {
+    const path = content.slice(1).trim();
+    return { type: "close", raw, path };
+  }
+
+  if (content.startsWith("table:")) {
+    const [path, ...options] = content.slice(6).split("|");
+    const header = options.some((option) => option.trim() === "header");
+    if (
+      !TAG_PATH_REGEX.test(path.trim()) ||
+      options.some((option) => option.trim() !== "header")
+    ) {
+      return { type: "unknown", raw };
+    }
+    return header
+      ? { type: "table", raw, path: path.trim(), header }
+      : { type: "table", raw, path: path.trim() };
+  }
+
+  const prefixes: Array<[string, "loop" | "column"]> = [
+    ["#", "loop"],
+    ["column:", "column"],
+  ];
+  for (const [prefix, type] of prefixes) {
+    if (content.startsWith(prefix)) {
+      const path = content.slice(prefix.length).trim();
+      return TAG_PATH_REGEX.test(path)
+        ? { type, raw, path }
+        : { type: "unknown", raw };
+    }
+  }
+
+  if (content.startsWith(">")) {
+    const path = content.slice(1).trim();
+    return TAG_PATH_REGEX.test(path)
+      ? { type: "variable", raw, path, filters: [], partial: true }
+      : { type: "unknown", raw };
+  }
+
+  const prefix = (["merge", "bookmark", "ref"] as const).find((name) =>
+    content.startsWith(`${name}:`)
+  );
+  const [value, ...steps] = splitOutsideQuotes(
+    prefix ? content.slice(prefix.length + 1) : content,
+    "|"
+  );
+  const filters = parseFilters(steps);
+  const aggregate = AGGREGATE_REGEX.exec(value.trim());
+  const path = aggregate ? aggregate[2].trim() : value.trim();
+  if (!TAG_PATH_REGEX.test(path) || !filters) return { type: "unknown", raw };
+
+  const tag: VariableTag = { type: "variable", raw, path, filters };
+  if (aggregate) tag.aggregate = aggregate[1] as AggregateFunction;
+  if (prefix) tag[prefix] = true;
+  return tag;
+}
+
+/**
+ * Split XML into tags and text; text inside w:t is further split into
+ * placeholders
+ */
+function tokenize(xml: string): {
+  tokens: Token[];
+  elements: Map<number, ElementInfo>;
+} {
+  const tokens: Token[] = [];
+  const elements = new Map<number, ElementInfo>();
+  const stack: number[] = [];
+
+  const tokenRegex = /<[^>]*>|[^<]+/g;
+  let match;
+  while ((match = tokenRegex.exec(xml)) !== null) {
+    const raw = match[0];
+
+    if (raw[0] !== "<") {
+      const parent = stack.length
+        ? elements.get(stack[stack.length - 1])
+        : null;
+      if (!parent || parent.name !== "w:t") {
+        tokens.push({ type: "text", raw });
+        continue;
+      }
+
+      // Text of a w:t element: extract the placeholders
+      const placeholderRegex = /{[^}]+}/g;
+      let last = 0;
+      let placeholder;
+      while ((placeholder = placeholderRegex.exec(raw)) !== null) {
+        if (placeholder.index > last) {
+          tokens.push({
+            type: "text",
+            raw: raw.substring(last, placeholder.index),
+          });
+        }
+        tokens.push({
+          type: "placeholder",
+          raw: placeholder[0],
+          tag: parseTag(placeholder[0]),
+          offset: match.index + placeholder.index,
+          chain: [...stack],
+        });
+        last = placeholder.index + placeholder[0].length;
+      }
+      if (last < raw.length) {
+        tokens.push({ type: "text", raw: raw.substring(last) });
+      }
+      continue;
+    }
+
+    const name = (raw.match(/^<\/?([^\s/>]+)/) || [])[1] || "";
+    if (raw.startsWith("<?") || raw.startsWith("<!")) {
+      tokens.push({ type: "other", raw, name, offset: match.index });
+    } else if (raw.startsWith("</")) {
+      const index = tokens.length;
+      tokens.push({ type: "close", raw, name, offset: match.index });
+      const start = stack.pop();
+      if (start !== undefined) {
+        const element = elements.get(start)!;
+        element.end = index;
+        element.props = getElementProps(tokens, elements, element);
+      }
+    } else if (raw.endsWith("/>")) {
+      tokens.push({ type: "selfClosing", raw, name, offset: match.index });
+    } else {
+      const index = tokens.length;
+      tokens.push({ type: "open", raw, name, offset: match.index });
+      elements.set(index, { name, start: index, end: -1, props: "" });
+      stack.push(index);
+    }
+  }
+
+  return { tokens, elements };
+}
+
+// Paragraph and run properties, used to reopen a split paragraph or run with
+// the same formatting
+function getElementProps(
+  tokens: Token[],
+  elements: Map<number, ElementInfo>,
+  element: ElementInfo
+): string {
+  const propsName =
+    element.name === "w:p" ? "w:pPr" : element.name === "w:r" ? "w:rPr" : "";
+  if (!propsName) return "";
+
+  const first = tokens[element.start + 1];
+  if (!first || first.type === "text" || first.type === "placeholder") {
+    return "";
+  }
+  if (first.type === "selfClosing" && first.name === propsName) {
+    return first.raw;
+  }
+  if (first.type !== "open" || first.name !== propsName) return "";
+
+  const props = elements.get(element.start + 1)!;
+  return tokens
+    .slice(props.start, props.end + 1)
+    .map((token) => token.raw)
+    .join("")
+    .replace(/<w:sectPr[\s>][\s\S]*?<\/w:sectPr>|<w:sectPr[^>]*\/>/g, "");
+}
+
+function openElements(
+  tokens: Token[],
+  elements: Map<number, ElementInfo>,
+  chain: number[]
+): string {
+  return chain
+    .map((index) => {
+      const element = elements.get(index)!;
+      if (element.name === "w:t") return '<w:t xml:space="preserve">';
+      return tokens[index].raw + element.props;
+    })
+    .join("");
+}
+
+function closeElements(
+  elements: Map<number, ElementInfo>,
+  chain: number[]
+): string {
+  return chain
+    .slice()
+    .reverse()
+    .map((index) => `</${elements.get(index)!.name}>`)
+    .join("");
+}
+
+// Elements that may surround a tag in a paragraph without being content
+const STRUCTURAL_ELEMENTS = new Set([
+  "w:r",
+  "w:t",
+  "w:proofErr",
+  "w:bookmarkStart",
+  "w:bookmarkEnd",
+  "w:lastRenderedPageBreak",
+]);
+
+/**
+ * Whether a token range of a paragraph holds anything besides formatting and
+ * blank text: text, other tags, breaks, drawings, fields...
+ */
+function hasContent(
+  tokens: Token[],
+  elements: Map<number, ElementInfo>,
+  from: number,
+  to: number
+): boolean {
+  for (let index = from; index <= to; index++) {
+    const token = tokens[index];
+    if (token.type === "placeholder") return true;
+    if (token.type === "text") {
+      if (/\S/.test(token.raw)) return true;
+      continue;
+    }
+    if (token.type === "close" || token.type === "other") continue;
+
+    if (token.name === "w:pPr" || token.name === "w:rPr") {
+      if (token.type === "open") index = elements.get(index)!.end;
+      continue;
+    }
+    if (!STRUCTURAL_ELEMENTS.has(token.name)) return true;
+  }
+  return false;
+}
+
+type Boundary = {
+  /** Last token of the body before the tag */
+  end: number;
+  /** First token of the body after the tag */
+  start: number;
+  /** Elements closed before / reopened after the tag */
+  split: number[];
+  /** Paragraph removed with the tag */
+  dropped?: number;
+};
+
+/**
+ * A merged cell may hold the tags of the rows or columns repeated around it,
+ * which only remove their own text
+ */
+function isCellOfRows(section: Section, parent: Section): boolean {
+  return (
+    section.tag.type === "variable" &&
+    (parent.tag.type === "table" || parent.tag.type === "column")
+  );
+}
+
+// w:trPr children that come after w:tblHeader
+const TABLE_HEADER_FOLLOWERS = new Set([
+  "w:tblCellSpacing",
+  "w:jc",
+  "w:hidden",
+  "w:ins",
+  "w:del",
+  "w:trPrChange",
+]);
+
+// Alt text (descr) or name of a picture holding a tag
+const IMAGE_TAG_ATTRIBUTES = [
+  /\sdescr="\s*({[^{}"]+})\s*"/,
+  /\sname="\s*({[^{}"]+})\s*"/,
+];
+
+/**
+ * Tag of a picture whose alt text or name is {path}
+ */
+function getImageTag(docPr: string): VariableTag | undefined {
+  for (const regex of IMAGE_TAG_ATTRIBUTES) {
+    const match = regex.exec(docPr);
+    const tag = match ? parseTag(match[1]) : undefined;
+    if (
+      tag &&
+      tag.type === "variable" &&
+      !tag.aggregate &&
+      !tag.merge &&
+      !tag.bookmark &&
+      !tag.ref &&
+      !tag.partial
+    ) {
+      return tag;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Key matching an opening tag with its closing tag
+ */
+function getSectionKey(tag: SectionTag): string {
+  return normalizeExpression(
+    tag.type === "table" ? `table:${tag.path}` : tag.path
+  );
+}
+
+function commonDepth(a: number[], b: number[]): number {
+  let depth = 0;
+  while (depth < a.length && depth < b.length && a[depth] === b[depth]) {
+    depth++;
+  }
+  return depth;
+}
+
+/**
+ * Parse an XML part into a template tree
+ */
+export function parseTemplate(xml: string): ParsedTemplate {
+  const { tokens, elements } = tokenize(xml);
+
+  // Values may start or end with spaces, which Word drops unless preserved
+  for (const token of tokens) {
+    if (token.type !== "placeholder" || token.tag.type !== "variable") continue;
+    const text = tokens[token.chain[token.chain.length - 1]];
+    if (text && text.type === "open" && !text.raw.includes("xml:space=")) {
+      text.raw = text.raw.replace(/^<w:t\b/, '<w:t xml:space="preserve"');
+    }
+  }
+  const errors: TemplateParseError[] = [];
+  const sections: Section[] = [];
+
+  // Placeholders rendered as nothing (section delimiters) or as their raw text
+  const consumed = new Set<number>();
+  const literal = new Set<number>();
+  // Tokens of the paragraphs removed with standalone delimiters
+  const dropped = new Set<number>();
+  // w:gridCol tokens repeated by {column:x} tags
+  const gridColumns = new Map<
+    number,
+    Extract<SectionTag, { type: "column" }>
+  >();
+
+  // Pictures swapped for the image of a tag, by index of their w:drawing
+  const templateImages = new Map<number, TemplateImageNode & { end: number }>();
+  tokens.forEach((token, index) => {
+    if (token.type !== "open" && token.type !== "selfClosing") return;
+    const tag = token.name === "wp:docPr" ? getImageTag(token.raw) : undefined;
+    if (!tag) return;
+    for (let start = index - 1; start >= 0; start--) {
+      const candidate = tokens[start];
+      if (candidate.type === "open" && candidate.name === "w:drawing") {
+        const { end } = elements.get(start)!;
+        const value = tokens
+          .slice(start, end + 1)
+          .map((item) => item.raw)
+          .join("");
+        if (end > index) {
+          templateImages.set(start, {
+            type: "templateImage",
+            tag,
+            offset: token.offset,
+            value,
+            end,
+          });
+        }
+        break;
+      }
+    }
+  });
+
+  const findElement = (chain: number[], name: string) =>
+    [...chain]
+      .reverse()
+      .find((element) => elements.get(element)!.name === name);
+
+  const placeholderAt = (index: number) => tokens[index] as PlaceholderToken;
+  const fail = (index: number, code: string, message: string) => {
+    const placeholder = placeholderAt(index);
+    errors.push({
+      code,
+      message,
+      tag: placeholder.raw,
+      offset: placeholder.offset,
+    });
+    literal.add(index);
+  };
+
+  const firstUnsplittable = (chain: number[], depth: number) => {
+    for (let i = depth; i < chain.length; i++) {
+      if (!SPLITTABLE_ELEMENTS.has(elements.get(chain[i])!.name)) return i;
+    }
+    return chain.length;
+  };
+
+  // Table holding the row of a tag, if any
+  const findTable = (chain: number[]) => {
+    const row = findElement(chain, "w:tr");
+    return row === undefined ? undefined : chain[chain.indexOf(row) - 1];
+  };
+
+  // {table:x} spans several rows when its {/table:x} follows in the same
+  // table, before the next {table:x}
+  const rowGroups = new Set<number>();
+  const lastOpen = new Map<string, number>();
+  tokens.forEach((token, index) => {
+    if (token.type !== "placeholder") return;
+    const { tag } = token;
+    if (tag.type === "table") {
+      lastOpen.set(getSectionKey(tag), index);
+    } else if (tag.type === "close" && tag.path) {
+      const key = normalizeExpression(tag.path);
+      const opening = lastOpen.get(key);
+      if (opening === undefined) return;
+      lastOpen.delete(key);
+      const table = findTable(token.chain);
+      if (
+        table !== undefined &&
+        table === findTable(placeholderAt(opening).chain)
+      ) {
+        rowGroups.add(opening);
+      }
+    }
+  });
+
+  // Pair opening and closing tags
+  const open: Array<{ index: number; branches: number[] }> = [];
+  tokens.forEach((token, index) => {
+    if (token.type !== "placeholder") return;
+    const { tag } = token;
+
+    switch (tag.type) {
+      case "unknown":
+        if (tag.error) {
+          fail(
+            index,
+            "INVALID_EXPRESSION",
+            `Invalid expression in ${tag.raw}: ${tag.error}`
+          );
+        } else {
+          fail(index, "UNKNOWN_TAG", `Unknown tag syntax ${tag.raw}`);
+        }
+        break;
+      case "loop":
+      case "condition":
+        open.push({ index, branches: [] });
+        break;
+      case "elseif":
+      case "else": {
+        const current = open[open.length - 1];
+        const last = current && current.branches[current.branches.length - 1];
+        if (
+          !current ||
+          placeholderAt(current.index).tag.type !== "condition" ||
+          (last !== undefined && placeholderAt(last).tag.type === "else")
+        ) {
+          const name = tag.type === "else" ? "{:else}" : "{:elseif}";
+          fail(
+            index,
+            "MISPLACED_ELSE",
+            `${name} must be inside a {?condition}, before its {:else}`
+          );
+        } else {
+          current.branches.push(index);
+        }
+        break;
+      }
+      case "close": {
+        const position = tag.path
+          ? open
+              .map((entry) =>
+                getSectionKey(placeholderAt(entry.index).tag as SectionTag)
+              )
+              .lastIndexOf(normalizeExpression(tag.path))
+          : open.length - 1;
+        if (position === -1) {
+          fail(
+            index,
+            "UNMATCHED_CLOSING_TAG",
+            `Closing tag ${tag.raw} has no opening tag`
+          );
+          break;
+        }
+        // Anything opened after the matching tag was never closed
+        for (const entry of open.splice(position + 1)) {
+          fail(
+            entry.index,
+            "MISMATCHED_CLOSING_TAG",
+            `Tag ${placeholderAt(entry.index).raw} is closed by ${tag.raw}`
+          );
+          entry.branches.forEach((branch) => literal.add(branch));
+        }
+        const entry = open.pop()!;
+        if (placeholderAt(entry.index).tag.type === "table") {
+          const section = createRowGroup(entry.index, index);
+          if (section) sections.push(section);
+        } else {
+          sections.push(
+            createPairedSection(entry.index, index, entry.branches)
+          );
+        }
+        break;
+      }
+      case "table": {
+        const row = findElement(token.chain, "w:tr");
+        if (row === undefined) {
+          fail(
+            index,
+            "TABLE_OUTSIDE_ROW",
+            `${tag.raw} must be placed inside a table row`
+          );
+          break;
+        }
+        if (rowGroups.has(index)) {
+          open.push({ index, branches: [] });
+          break;
+        }
+        consumed.add(index);
+        sections.push(createElementSection(tag, row, row, [index]));
+        if (tag.header) markHeaderRows(token.chain, row);
+        break;
+      }
+      case "column": {
+        const cell = findElement(token.chain, "w:tc");
+        if (cell === undefined) {
+          fail(
+            index,
+            "COLUMN_OUTSIDE_CELL",
+            `${tag.raw} must be placed inside a table cell`
+          );
+          break;
+        }
+        consumed.add(index);
+        sections.push(createElementSection(tag, cell, cell, [index]));
+        markGridColumn(tag, token.chain, cell);
+        break;
+      }
+      case "variable": {
+        // The tag stays a value; the section only marks its cell
+        const cell = tag.merge ? findElement(token.chain, "w:tc") : undefined;
+        if (cell !== undefined) {
+          sections.push(createElementSection(tag, cell, cell, [index]));
+        }
+        break;
+      }
+    }
+  });
+
+  for (const entry of open) {
+    fail(
+      entry.index,
+      "UNCLOSED_TAG",
+      `Tag ${placeholderAt(entry.index).raw} is not closed`
+    );
+    entry.branches.forEach((branch) => literal.add(branch));
+  }
+
+  /**
+   * Section covering whole elements, from the start of `first` to the end of
+   * `last`
+   */
+  function createElementSection(
+    tag: Section["tag"],
+    first: number,
+    last: number,
+    delimiters: number[]
+  ): Section {
+    return {
+      tag,
+      start: elements.get(first)!.start,
+      end: elements.get(last)!.end,
+      openSplit: [],
+      closeSplit: [],
+      branches: [],
+      delimiters,
+      dropped: [],
+      children: [],
+    };
+  }
+
+  /**
+   * {table:x} ... {/table:x}: the rows from the opening to the closing tag,
+   * which must belong to the same table
+   */
+  function createRowGroup(
+    openIndex: number,
+    closeIndex: number
+  ): Section | undefined {
+    const tag = placeholderAt(openIndex).tag as Extract<
+      SectionTag,
+      { type: "table" }
+    >;
+    const openChain = placeholderAt(openIndex).chain;
+    const closeChain = placeholderAt(closeIndex).chain;
+    const openRow = findElement(openChain, "w:tr")!;
+    const closeRow = findElement(closeChain, "w:tr");
+    if (
+      closeRow === undefined ||
+      openChain[openChain.indexOf(openRow) - 1] !==
+        closeChain[closeChain.indexOf(closeRow) - 1]
+    ) {
+      fail(
+        openIndex,
+        "TABLE_OUTSIDE_ROW",
+        `${tag.raw} and ${placeholderAt(closeIndex).raw} must be placed in rows of the same table`
+      );
+      literal.add(closeIndex);
+      return undefined;
+    }
+    consumed.add(openIndex);
+    consumed.add(closeIndex);
+    if (tag.header) markHeaderRows(openChain, openRow);
+    return createElementSection(tag, openRow, closeRow, [
+      openIndex,
+      closeIndex,
+    ]);
+  }
+
+  /**
+   * Flag the rows above the repeated rows as header rows (w:tblHeader), which
+   * Word repeats at the top of every page
+   */
+  function markHeaderRows(chain: number[], firstRow: number) {
+    const table = elements.get(chain[chain.indexOf(firstRow) - 1])!;
+    const end = elements.get(firstRow)!.start;
+    for (let index = table.start + 1; index < end; index++) {
+      const token = tokens[index];
+      if (token.type === "open" && token.name === "w:tr") {
+        setTableHeader(index);
+        index = elements.get(index)!.end;
+      }
+    }
+  }
+
+  function setTableHeader(row: number) {
+    const { end } = elements.get(row)!;
+    let previous = row;
+    for (let index = row + 1; index < end; index++) {
+      const token = tokens[index];
+      if (token.type === "text") continue;
+      if (token.type === "open" && token.name === "w:tblPrEx") {
+        previous = elements.get(index)!.end;
+        index = previous;
+        continue;
+      }
+      if (token.type === "selfClosing" && token.name === "w:trPr") {
+        token.raw = "<w:trPr><w:tblHeader/></w:trPr>";
+        return;
+      }
+      if (token.type === "open" && token.name === "w:trPr") {
+        const props = elements.get(index)!;
+        for (let child = index + 1; child <= props.end; child++) {
+          const prop = tokens[child];
+          if (prop.type === "text" || prop.type === "placeholder") continue;
+          if (prop.name === "w:tblHeader") return;
+          if (child === props.end || TABLE_HEADER_FOLLOWERS.has(prop.name)) {
+            prop.raw = "<w:tblHeader/>" + prop.raw;
+            return;
+          }
+        }
+      }
+      break;
+    }
+    tokens[previous].raw += "<w:trPr><w:tblHeader/></w:trPr>";
+  }
+
+  /**
+   * Repeat the w:gridCol of the column of a {column:x} cell with it
+   */
+  function markGridColumn(
+    tag: Extract<SectionTag, { type: "column" }>,
+    chain: number[],
+    cell: number
+  ) {
+    const position = chain.indexOf(cell);
+    const row = elements.get(chain[position - 1]);
+    const table = elements.get(chain[position - 2]);
+    if (!row || !table || row.name !== "w:tr" || table.name !== "w:tbl") {
+      return;
+    }
+
+    // Grid column of the cell: skipped columns and spans of the cells before
+    let column = getPropertyValue(row.start, "w:gridBefore", "w:tc") ?? 0;
+    for (
+      let index = row.start + 1;
+      index < elements.get(cell)!.start;
+      index++
+    ) {
+      const token = tokens[index];
+      if (token.type === "open" && token.name === "w:tc") {
+        column += getPropertyValue(index, "w:gridSpan", "w:p") ?? 1;
+        index = elements.get(index)!.end;
+      }
+    }
+
+    let gridColumn = 0;
+    for (let index = table.start + 1; index < table.end; index++) {
+      const token = tokens[index];
+      if (token.type === "open" && token.name === "w:tr") break;
+      if (token.type === "selfClosing" && token.name === "w:gridCol") {
+        if (gridColumn++ === column) {
+          if (!gridColumns.has(index)) gridColumns.set(index, tag);
+          return;
+        }
+      }
+    }
+  }
+
+  /**
+   * w:val of a property element found after `from`, before the `stop` element
+   */
+  function getPropertyValue(
+    from: number,
+    name: string,
+    stop: string
+  ): number | undefined {
+    for (let index = from + 1; index < tokens.length; index++) {
+      const token = tokens[index];
+      if (token.type === "text" || token.type === "placeholder") continue;
+      if (token.name === stop) return undefined;
+      if (token.name === name) {
+        const match = /w:val="(\d+)"/.exec(token.raw);
+        return match ? Number(match[1]) : undefined;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Where the bodies before and after a delimiter stop and start. At paragraph
+   * level a tag at the start or end of its paragraph moves the boundary to the
+   * paragraph edge, so that no empty paragraph is left, and a paragraph that
+   * holds only the tag is removed. A paragraph carrying a section break is
+   * never removed: it stays with the body on the `keep` side.
+   */
+  function getBoundary(
+    index: number,
+    depth: number,
+    keep: "before" | "after"
+  ): Boundary {
+    const { chain } = placeholderAt(index);
+    const split = {
+      end: index - 1,
+      start: index + 1,
+      split: chain.slice(depth),
+    };
+    if (depth >= chain.length) return split;
+    const paragraph = elements.get(chain[depth])!;
+    if (paragraph.name !== "w:p") return split;
+
+    let emptyBefore = !hasContent(
+      tokens,
+      elements,
+      paragraph.start + 1,
+      index - 1
+    );
+    let emptyAfter = !hasContent(
+      tokens,
+      elements,
+      index + 1,
+      paragraph.end - 1
+    );
+    if (emptyBefore && emptyAfter) {
+      const sectionBreak = tokens
+        .slice(paragraph.start, paragraph.end + 1)
+        .some(
+          (token) =>
+            (token.type === "open" || token.type === "selfClosing") &&
+            token.name === "w:sectPr"
+        );
+      if (!sectionBreak) {
+        return {
+          end: paragraph.start - 1,
+          start: paragraph.end + 1,
+          split: [],
+          dropped: chain[depth],
+        };
+      }
+      if (keep === "before") emptyBefore = false;
+      else emptyAfter = false;
+    }
+    if (emptyBefore) {
+      return { end: paragraph.start - 1, start: paragraph.start, split: [] };
+    }
+    if (emptyAfter) {
+      return { end: paragraph.end, start: paragraph.end + 1, split: [] };
+    }
+    return split;
+  }
+
+  /**
+   * List paragraph (w:numPr) whose whole content is a loop or condition
+   */
+  function getListItem(openIndex: number, closeIndex: number) {
+    const openChain = placeholderAt(openIndex).chain;
+    const depth = commonDepth(openChain, placeholderAt(closeIndex).chain);
+    const names = openChain.slice(0, depth).map((e) => elements.get(e)!.name);
+    const position = names.lastIndexOf("w:p");
+    if (position === -1) return undefined;
+    const paragraph = elements.get(openChain[position])!;
+    if (
+      !paragraph.props.includes("<w:numPr") ||
+      firstUnsplittable(openChain, position) < depth ||
+      hasContent(tokens, elements, paragraph.start + 1, openIndex - 1) ||
+      hasContent(tokens, elements, closeIndex + 1, paragraph.end - 1)
+    ) {
+      return undefined;
+    }
+    return paragraph;
+  }
+
+  function createPairedSection(
+    openIndex: number,
+    closeIndex: number,
+    branches: number[]
+  ): Section {
+    const openChain = placeholderAt(openIndex).chain;
+    const closeChain = placeholderAt(closeIndex).chain;
+    const depth = commonDepth(openChain, closeChain);
+    const tag = placeholderAt(openIndex).tag as SectionTag;
+
+    // A list item holding only the section is repeated as a whole paragraph
+    const listItem = branches.length
+      ? undefined
+      : getListItem(openIndex, closeIndex);
+    if (listItem) {
+      consumed.add(openIndex);
+      consumed.add(closeIndex);
+      return {
+        tag,
+        start: listItem.start,
+        end: listItem.end,
+        openSplit: [],
+        closeSplit: [],
+        branches: [],
+        delimiters: [openIndex, closeIndex],
+        dropped: [],
+        children: [],
+      };
+    }
+
+    // Split the elements between the common ancestor and the tags, unless a
+    // container that cannot be split is in the way: then take it whole.
+    // Paragraph boundaries are refined by getBoundary.
+    const openCut = firstUnsplittable(openChain, depth);
+    const closeCut = firstUnsplittable(closeChain, depth);
+
+    const section: Section = {
+      tag,
+      start: elements.get(openChain[openCut])?.start ?? openIndex + 1,
+      end: elements.get(closeChain[closeCut])?.end ?? closeIndex - 1,
+      openSplit: openChain.slice(depth, openCut),
+      closeSplit: closeChain.slice(depth, closeCut),
+      branches: [],
+      delimiters: [openIndex, closeIndex],
+      dropped: [],
+      children: [],
+    };
+
+    if (openCut === openChain.length) {
+      const boundary = getBoundary(openIndex, depth, "before");
+      section.start = boundary.start;
+      section.openSplit = boundary.split;
+      if (boundary.dropped !== undefined)
+        section.dropped.push(boundary.dropped);
+    }
+    if (closeCut === closeChain.length) {
+      const boundary = getBoundary(closeIndex, depth, "after");
+      section.end = boundary.end;
+      section.closeSplit = boundary.split;
+      if (boundary.dropped !== undefined)
+        section.dropped.push(boundary.dropped);
+    }
+
+    for (const index of branches) {
+      const chain = placeholderAt(index).chain;
+      if (
+        firstUnsplittable(chain, depth) < chain.length ||
+        commonDepth(chain, openChain) < depth
+      ) {
+        fail(
+          index,
+          "MISPLACED_ELSE",
+          `${placeholderAt(index).raw} cannot split a table or other container`
+        );
+        continue;
+      }
+      const { dropped, ...boundary } = getBoundary(index, depth, "before");
+      section.branches.push({ index, ...boundary });
+      section.delimiters.push(index);
+      if (dropped !== undefined) section.dropped.push(dropped);
+    }
+
+    section.delimiters.forEach((index) => consumed.add(index));
+    return section;
+  }
+
+  // Nest the sections; a section that overlaps another one without being
+  // inside it cannot be rendered and is left as literal text
+  const roots: Section[] = [];
+  const stack: Section[] = [];
+  const ordered = sections
+    .map((section, order) => ({ section, order }))
+    .sort(
+      (a, b) =>
+        a.section.start - b.section.start ||
+        b.section.end - a.section.end ||
+        a.order - b.order
+    )
+    .map(({ section }) => section);
+
+  for (const section of ordered) {
+    while (stack.length && stack[stack.length - 1].end < section.start) {
+      stack.pop();
+    }
+    const parent = stack[stack.length - 1];
+    if (
+      parent &&
+      (section.end > parent.end ||
+        (!isCellOfRows(section, parent) &&
+          parent.delimiters.some(
+            (index) => index >= section.start && index <= section.end
+          )))
+    ) {
+      // A merged cell inside another section's cell is left as a value
+      if (section.tag.type === "variable") continue;
+      const [first] = section.delimiters;
+      fail(
+        first,
+        "OVERLAPPING_SECTIONS",
+        `${section.tag.raw} overlaps ${parent.tag.raw} without being nested in it`
+      );
+      section.delimiters.forEach((index) => {
+        consumed.delete(index);
+        literal.add(index);
+      });
+      continue;
+    }
+    (parent ? parent.children : roots).push(section);
+    stack.push(section);
+    for (const paragraph of section.dropped) {
+      const { start, end } = elements.get(paragraph)!;
+      for (let index = start; index <= end; index++) dropped.add(index);
+    }
+  }
+
+  // Build the node tree
+  function pushXml(nodes: TemplateNode[], value: string) {
+    if (!value) return;
+    const last = nodes[nodes.length - 1];
+    if (last && last.type === "xml") last.value += value;
+    else nodes.push({ type: "xml", value });
+  }
+
+  function buildRange(
+    from: number,
+    to: number,
+    children: Section[],
+    nodes: TemplateNode[] = []
+  ): TemplateNode[] {
+    let index = from;
+    for (const section of children) {
+      pushTokens(index, section.start - 1, nodes);
+      pushXml(nodes, closeElements(elements, section.openSplit));
+      nodes.push(buildSection(section));
+      pushXml(nodes, openElements(tokens, elements, section.closeSplit));
+      index = section.end + 1;
+    }
+    pushTokens(index, to, nodes);
+    return nodes;
+  }
+
+  function buildSegment(
+    section: Section,
+    from: number,
+    to: number,
+    openSplit: number[],
+    closeSplit: number[]
+  ): TemplateNode[] {
+    const nodes: TemplateNode[] = [];
+    pushXml(nodes, openElements(tokens, elements, openSplit));
+    buildRange(
+      from,
+      to,
+      section.children.filter(
+        (child) => child.start >= from && child.end <= to
+      ),
+      nodes
+    );
+    pushXml(nodes, closeElements(elements, closeSplit));
+    return nodes;
+  }
+
+  function buildSection(section: Section): SectionNode | MergeCellNode {
+    if (section.tag.type === "variable") {
+      return {
+        type: "mergeCell",
+        tag: section.tag,
+        children: buildRange(section.start, section.end, section.children),
+      };
+    }
+    const { offset } = placeholderAt(section.delimiters[0]);
+    const { branches } = section;
+    const first = branches[0];
+    const children = buildSegment(
+      section,
+      section.start,
+      first ? first.end : section.end,
+      section.openSplit,
+      first ? first.split : section.closeSplit
+    );
+
+    // Build the branches from the last one: each {:elseif} becomes a condition
+    // wrapping the branches that follow it
+    let elseChildren: TemplateNode[] | undefined;
+    for (let i = branches.length - 1; i >= 0; i--) {
+      const next = branches[i + 1];
+      const content = buildSegment(
+        section,
+        branches[i].start,
+        next ? next.end : section.end,
+        branches[i].split,
+        next ? next.split : section.closeSplit
+      );
+      const { tag, offset: branchOffset } = placeholderAt(branches[i].index);
+      if (tag.type === "elseif") {
+        const condition: SectionNode = {
+          type: "section",
+          tag: { ...tag, type: "condition" },
+          offset: branchOffset,
+          children: content,
+        };
+        if (elseChildren) condition.elseChildren = elseChildren;
+        elseChildren = [condition];
+      } else {
+        elseChildren = content;
+      }
+    }
+
+    const node: SectionNode = {
+      type: "section",
+      tag: section.tag,
+      offset,
+      children,
+    };
+    if (elseChildren) node.elseChildren = elseChildren;
+    return node;
+  }
+
+  function pushTokens(from: number, to: number, nodes: TemplateNode[]) {
+    for (let index = from; index <= to; index++) {
+      const token = tokens[index];
+      const image = templateImages.get(index);
+      if (dropped.has(index)) {
+        continue;
+      } else if (image) {
+        const { end, ...node } = image;
+        nodes.push(node);
+        index = end;
+      } else if (gridColumns.has(index)) {
+        nodes.push({
+          type: "gridColumn",
+          tag: gridColumns.get(index)!,
+          value: token.raw,
+        });
+      } else if (token.type !== "placeholder") {
+        pushXml(nodes, token.raw);
+      } else if (literal.has(index)) {
+        pushXml(nodes, token.raw);
+      } else if (!consumed.has(index) && token.tag.type === "variable") {
+        const names = token.chain.map((e) => elements.get(e)!.name);
+        const runChain = token.chain.slice(
+          Math.max(names.lastIndexOf("w:r"), 0)
+        );
+        nodes.push({
+          type: "tag",
+          tag: token.tag,
+          offset: token.offset,
+          run: names.includes("w:r")
+            ? {
+                close: closeElements(elements, runChain),
+                open: openElements(tokens, elements, runChain),
+                props: elements.get(runChain[0])!.props,
+              }
+            : { close: "", open: "", props: "" },
+        });
+      }
+    }
+  }
+
+  return {
+    nodes: buildRange(0, tokens.length - 1, roots),
+    errors: errors.sort((a, b) => a.offset - b.offset),
+  };
+}
@@ -0,0 +1,134 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { generateDocx } from "./index";
+import { DocxGenerationError } from "./types";
+import { createDocx, getBodyText, paragraph, readPart } from "./test-utils";
+
+const CLAUSE_STYLE =
+  '<w:style w:type="paragraph" w:styleId="Clause"><w:name w:val="Clause"/><w:rPr><w:b/></w:rPr></w:style>';
+
+/** Footnote or endnote of one paragraph */
+function createNote(kind: string, id: number, text: string): string {
+  return `<w:${kind} w:id="${id}"><w:p><w:r><w:t>${text}</w:t></w:r></w:p></w:${kind}>`;
+}
+
+test("inserts partials with the data of their place", async () => {
+  const clause = await createDocx(
+    '<w:p><w:pPr><w:pStyle w:val="Clause"/></w:pPr><w:r><w:t>Party: {party}</w:t></w:r></w:p>'
+  );
+  const appendix = await createDocx(paragraph("Appendix {title}"));
+  const template = await createDocx({
+    body:
+      paragraph("{#clauses}") +
+      paragraph("Before {>clause} after") +
+      paragraph("{/clauses}") +
+      paragraph("{appendix}"),
+    styles: "",
+  });
+  const output = await generateDocx(
+    template,
+    {
+      title: "A",
+      clauses: [{ party: "Acme" }, { party: "Globex" }],
+      appendix: { type: "docx", buffer: appendix },
+    },
+    { partials: { clause } }
+  );
+  assert.equal(
+    await getBodyText(output),
+    "Before \nParty: Acme\n after\nBefore \nParty: Globex\n after\nAppendix A"
+  );
+
+  await assert.rejects(
+    generateDocx(template, { clauses: [{}] }, { partials: {} }),
+    (error: unknown) =>
+      error instanceof DocxGenerationError && error.code === "PARTIAL_NOT_FOUND"
+  );
+});
+
+test("creates the styles part for the styles of a partial", async () => {
+  const partial = await createDocx({
+    body: '<w:p><w:pPr><w:pStyle w:val="Clause"/></w:pPr><w:r><w:t>Clause</w:t></w:r></w:p>',
+    styles:
+      '<w:docDefaults><w:rPrDefault><w:rPr><w:sz w:val="22"/></w:rPr></w:rPrDefault></w:docDefaults>' +
+      CLAUSE_STYLE,
+  });
+  const template = await createDocx(paragraph("{>clause}"));
+  const output = await generateDocx(
+    template,
+    {},
+    { partials: { clause: partial } }
+  );
+
+  const styles = await readPart(output, "word/styles.xml");
+  assert.ok(styles.includes('<w:sz w:val="22"/>'));
+  assert.ok(styles.includes('w:styleId="Clause"'));
+  assert.match(
+    await readPart(output, "word/_rels/document.xml.rels"),
+    /Type="[^"]*\/styles" Target="styles\.xml"/
+  );
+  assert.match(
+    await readPart(output, "[Content_Types].xml"),
+    /<Override PartName="\/word\/styles\.xml" ContentType="[^"]*styles\+xml"\/>/
+  );
+});
+
+test("copies the footnotes and comments of a partial for each use", async () => {
+  const partial = await createDocx({
+    body:
+      '<w:p><w:commentRangeStart w:id="0"/><w:r><w:t>Clause {party}</w:t></w:r><w:commentRangeEnd w:id="0"/>' +
+      '<w:r><w:commentReference w:id="0"/></w:r>' +
+      '<w:r><w:rPr><w:vertAlign w:val="superscript"/></w:rPr><w:footnoteReference w:id="1"/></w:r>' +
+      '<w:r><w:footnoteReference w:id="9"/></w:r></w:p>',
+    footnotes: createNote("footnote", 1, "Clause note"),
+    comments:
+      '<w:comment w:id="0" w:author="Legal"><w:p><w:r><w:t>Check this</w:t></w:r></w:p></w:comment>',
+  });
+  const template = await createDocx({
+    body:
+      '<w:p><w:r><w:t>Intro</w:t></w:r><w:r><w:footnoteReference w:id="1"/></w:r></w:p>' +
+      paragraph("{#clauses}") +
+      paragraph("{>clause}") +
+      paragraph("{/clauses}"),
+    footnotes: createNote("footnote", 1, "Intro note"),
+  });
+  const output = await generateDocx(
+    template,
+    { clauses: [{ party: "A" }, { party: "B" }] },
+    { partials: { clause: partial } }
+  );
+
+  const body = await readPart(output, "word/document.xml");
+  const ids = (element: string) =>
+    Array.from(
+      body.matchAll(new RegExp(`<w:${element} w:id="(\\d+)"/>`, "g")),
+      (match) => match[1]
+    );
+  // The missing footnote 9 is left out
+  assert.deepEqual(ids("footnoteReference"), ["1", "2", "3"]);
+  assert.deepEqual(ids("commentRangeStart"), ["1", "2"]);
+  assert.deepEqual(ids("commentRangeEnd"), ["1", "2"]);
+  assert.deepEqual(ids("commentReference"), ["1", "2"]);
+
+  const footnotes = await readPart(output, "word/footnotes.xml");
+  assert.deepEqual(
+    Array.from(
+      footnotes.matchAll(/<w:footnote w:id="(\d+)">.*?<w:t>([^<]*)</g),
+      (match) => `${match[1]}: ${match[2]}`
+    ),
+    ["1: Intro note", "2: Clause note", "3: Clause note"]
+  );
+  const comments = await readPart(output, "word/comments.xml");
+  assert.equal(
+    comments.match(/<w:comment w:id="[12]" w:author="Legal">/g)?.length,
+    2
+  );
+  assert.match(
+    await readPart(output, "word/_rels/document.xml.rels"),
+    /Type="[^"]*\/comments" Target="comments\.xml"/
+  );
+  assert.match(
+    await readPart(output, "[Content_Types].xml"),
+    /<Override PartName="\/word\/comments\.xml" ContentType="[^"]*comments\+xml"\/>/
+  );
+});
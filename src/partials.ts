@@ -0,0 +1,971 @@
+/**
+ * Partial templates: other DOCX files whose body is inserted by {>name} tags
+ * and docx values. The inserted body is rendered with the scope of its tag;
+ * the styles and numbering definitions it uses are merged into the document
+ * and the parts it refers to (images, charts, embeddings), footnotes,
+ * endnotes and comments are copied.
+ */
+import JSZip from "jszip";
+import { DOMParser, XMLSerializer } from "xmldom";
+import {
+  DocxData,
+  DocxGenerationError,
+  GenerateDocxOptions,
+  TemplateData,
+} from "./types";
+import {
+  createMarker,
+  ensureBuffer,
+  getNextRelationshipId,
+  getRelsPath,
+  normalizeDocxText,
+  readRelationships,
+  resolveTarget,
+} from "./docx";
+import { TemplateNode, parseTemplate } from "./parser";
+
+const NUMBERING_RELATIONSHIP_TYPE =
+  "http://schemas.openxmlformats.org/officeDocument/2006/relationships/numbering";
+
+const NUMBERING_CONTENT_TYPE =
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml";
+
+const STYLES_RELATIONSHIP_TYPE =
+  "http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles";
+
+const STYLES_CONTENT_TYPE =
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml";
+
+const EMPTY_STYLES_XML =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+  '<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"></w:styles>';
+
+const EMPTY_NUMBERING_XML =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+  '<w:numbering xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"></w:numbering>';
+
+type NoteKind = "footnote" | "endnote" | "comment";
+
+/** Parts of the notes and comments, under word/ */
+const NOTE_PARTS: Record<
+  NoteKind,
+  { target: string; type: string; contentType: string }
+> = {
+  footnote: {
+    target: "footnotes.xml",
+    type: "http://schemas.openxmlformats.org/officeDocument/2006/relationships/footnotes",
+    contentType:
+      "application/vnd.openxmlformats-officedocument.wordprocessingml.footnotes+xml",
+  },
+  endnote: {
+    target: "endnotes.xml",
+    type: "http://schemas.openxmlformats.org/officeDocument/2006/relationships/endnotes",
+    contentType:
+      "application/vnd.openxmlformats-officedocument.wordprocessingml.endnotes+xml",
+  },
+  comment: {
+    target: "comments.xml",
+    type: "http://schemas.openxmlformats.org/officeDocument/2006/relationships/comments",
+    contentType:
+      "application/vnd.openxmlformats-officedocument.wordprocessingml.comments+xml",
+  },
+};
+
+// Elements referring to a note or comment by its id
+const NOTE_REFERENCE_REGEX =
+  /<w:(footnoteReference|endnoteReference|commentRangeStart|commentRangeEnd|commentReference)\b([^>]*?)\sw:id="(-?\d+)"/g;
+
+// Relationship of a partial's markup, waiting for its id in the part
+const RELATIONSHIP_MARKER_REGEX = /\u0001PARTREL:(\d+)\u0001/g;
+
+// The same elements once their note is copied, waiting for its new id
+const NOTE_MARKER_REGEX = /<w:(\w+)\b([^>]*?)\sw:id="\u0001NOTE:(\d+)\u0001"/g;
+
+// Markup of a partial that belongs to parts it does not bring along:
+// bookmarks, and references to notes and comments the partial does not have
+const DETACHED_MARKUP_REGEX =
+  /<w:(?:bookmarkStart|bookmarkEnd)\b[^>]*\/>|<w:(?:commentRangeStart|commentRangeEnd)\b[^>]*\sw:id="-?\d+"[^>]*\/>|<w:r>(?:(?!<\/w:r>)[\s\S])*?<w:(?:commentReference|footnoteReference|endnoteReference)\b[^>]*\sw:id="-?\d+"[^>]*\/><\/w:r>/g;
+
+// Relationship id attributes, e.g. r:embed="rId5" or r:id="rId2"
+const RELATIONSHIP_ATTRIBUTE_REGEX = /(\sr:\w+=")([^"]*)"/g;
+
+/**
+ * A DOCX package inserted by {>name} tags or docx values
+ */
+interface PartialTemplate {
+  label: string;
+  zip: JSZip;
+  /** Normalized word/document.xml */
+  xml: string;
+  styles?: Document;
+  numbering?: Document;
+  relationships: Document;
+  contentTypes?: Document;
+  /** Namespace declarations of the body, by prefix */
+  namespaces: Record<string, string>;
+  /** Template tree of the body, parsed once it has been merged */
+  nodes?: TemplateNode[];
+  /** New path of each part copied from the package, by source path */
+  copied: Map<string, string>;
+  /** Index in PartialRegistry.relationships, by source part and id */
+  relationshipIndexes: Map<string, number>;
+  /** Footnotes, endnotes and comments parts of the package */
+  notes: Partial<Record<NoteKind, NotesPart>>;
+  /** Index in PartialRegistry.notes, by kind and id */
+  noteIndexes: Map<string, number>;
+}
+
+interface NotesPart {
+  xml: string;
+  relationships: Document;
+  namespaces: Record<string, string>;
+}
+
+/**
+ * A note or comment of a partial, copied once for each reference
+ */
+interface PartialNote {
+  kind: NoteKind;
+  /** w:footnote, w:endnote or w:comment element */
+  xml: string;
+  namespaces: Record<string, string>;
+}
+
+interface PartialRelationship {
+  type: string;
+  target: string;
+  external: boolean;
+}
+
+/**
+ * Partial templates of one generation, and the changes they make to the
+ * document until writePartials stores them
+ */
+export interface PartialRegistry {
+  doc: JSZip;
+  byName: Map<string, PartialTemplate>;
+  byData: Map<DocxData, PartialTemplate>;
+  /** Partials being rendered, to stop a partial from inserting itself */
+  rendering: Set<PartialTemplate>;
+  /** styles.xml and numbering.xml of the document */
+  styles?: Document;
+  numbering?: Document;
+  /** Whether a partial has changed the styles or numbering */
+  merged: boolean;
+  /** Relationships of the inserted bodies, referenced by PARTREL markers */
+  relationships: PartialRelationship[];
+  /** Parts waiting to be copied from a partial package */
+  copies: Array<{ partial: PartialTemplate; source: string; target: string }>;
+  /** Paths taken by copied parts */
+  paths: Set<string>;
+  /** Notes and comments of the inserted bodies, referenced by NOTE markers */
+  notes: PartialNote[];
+  /** Notes and comments parts created for them */
+  noteParts: NoteKind[];
+}
+
+export function isDocxData(value: unknown): value is DocxData {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    (value as { type?: unknown }).type === "docx" &&
+    "buffer" in value
+  );
+}
+
+async function readXml(
+  zip: JSZip,
+  path: string
+): Promise<Document | undefined> {
+  const file = zip.file(path);
+  if (!file) return undefined;
+  return new DOMParser().parseFromString(await file.async("text"), "text/xml");
+}
+
+/**
+ * Namespace declarations of the root element of some XML, by prefix
+ */
+function getNamespaces(xml: string): Record<string, string> {
+  const root = /<(?!\?)[^>]+>/.exec(xml)?.[0] || "";
+  const namespaces: Record<string, string> = {};
+  for (const [, prefix, uri] of root.matchAll(/\sxmlns:(\w+)="([^"]*)"/g)) {
+    namespaces[prefix] = uri;
+  }
+  return namespaces;
+}
+
+/**
+ * Footnotes, endnotes and comments parts of a partial package
+ */
+async function loadNotes(zip: JSZip) {
+  const notes: Partial<Record<NoteKind, NotesPart>> = {};
+  for (const kind of Object.keys(NOTE_PARTS) as NoteKind[]) {
+    const path = `word/${NOTE_PARTS[kind].target}`;
+    const file = zip.file(path);
+    if (!file) continue;
+    const xml = normalizeDocxText(await file.async("text"));
+    notes[kind] = {
+      xml,
+      relationships: await readRelationships(zip, getRelsPath(path)),
+      namespaces: getNamespaces(xml),
+    };
+  }
+  return notes;
+}
+
+async function loadPartial(
+  buffer: Buffer | Uint8Array | ArrayBuffer,
+  label: string
+): Promise<PartialTemplate> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(ensureBuffer(buffer));
+  } catch (error) {
+    throw new DocxGenerationError(
+      `Partial template ${label} is not a DOCX file`,
+      "INVALID_PARTIAL",
+      { partial: label, error }
+    );
+  }
+  const document = zip.file("word/document.xml");
+  if (!document) {
+    throw new DocxGenerationError(
+      `Partial template ${label} has no word/document.xml`,
+      "INVALID_PARTIAL",
+      { partial: label }
+    );
+  }
+
+  const xml = normalizeDocxText(await document.async("text"));
+
+  return {
+    label,
+    zip,
+    xml,
+    styles: await readXml(zip, "word/styles.xml"),
+    numbering: await readXml(zip, "word/numbering.xml"),
+    relationships: await readRelationships(zip, "word/_rels/document.xml.rels"),
+    contentTypes: await readXml(zip, "[Content_Types].xml"),
+    namespaces: getNamespaces(xml),
+    copied: new Map(),
+    relationshipIndexes: new Map(),
+    notes: await loadNotes(zip),
+    noteIndexes: new Map(),
+  };
+}
+
+/**
+ * Docx values anywhere in the data
+ */
+function findDocxValues(data: unknown, found = new Set<DocxData>()) {
+  if (isDocxData(data)) {
+    found.add(data);
+  } else if (Array.isArray(data)) {
+    data.forEach((item) => findDocxValues(item, found));
+  } else if (
+    typeof data === "object" &&
+    data !== null &&
+    Object.getPrototypeOf(data) === Object.prototype
+  ) {
+    Object.values(data).forEach((value) => findDocxValues(value, found));
+  }
+  return found;
+}
+
+/**
+ * Load the partials of options.partials and the docx values of the records
+ */
+export async function loadPartials(
+  doc: JSZip,
+  records: TemplateData[],
+  options: GenerateDocxOptions
+): Promise<PartialRegistry> {
+  const registry: PartialRegistry = {
+    doc,
+    byName: new Map(),
+    byData: new Map(),
+    rendering: new Set(),
+    merged: false,
+    relationships: [],
+    copies: [],
+    paths: new Set(),
+    notes: [],
+    noteParts: [],
+  };
+  for (const [name, buffer] of Object.entries(options.partials || {})) {
+    registry.byName.set(name, await loadPartial(buffer, name));
+  }
+  for (const value of findDocxValues(records)) {
+    registry.byData.set(value, await loadPartial(value.buffer, "docx value"));
+  }
+  if (registry.byName.size > 0 || registry.byData.size > 0) {
+    registry.styles = await readXml(doc, "word/styles.xml");
+    registry.numbering = await readXml(doc, "word/numbering.xml");
+  }
+  return registry;
+}
+
+function getMaxAttribute(doc: Document, tagName: string, name: string) {
+  let max = -1;
+  const elements = doc.getElementsByTagName(tagName);
+  for (let i = 0; i < elements.length; i++) {
+    max = Math.max(max, Number(elements[i].getAttribute(name)) || 0);
+  }
+  return max;
+}
+
+function getChildren(parent: Element, tagName: string): Element[] {
+  return Array.from(parent.childNodes).filter(
+    (node): node is Element => node.nodeType === 1 && node.nodeName === tagName
+  );
+}
+
+/**
+ * Add the list definitions of a partial to the document with new ids, and
+ * return the new w:numId of each of its ids
+ */
+function mergeNumbering(
+  registry: PartialRegistry,
+  numbering: Document
+): Map<string, string> {
+  if (!registry.numbering) {
+    registry.numbering = new DOMParser().parseFromString(
+      EMPTY_NUMBERING_XML,
+      "text/xml"
+    );
+  }
+  const target = registry.numbering;
+  const root = target.documentElement;
+  let nextAbstractId =
+    getMaxAttribute(target, "w:abstractNum", "w:abstractNumId") + 1;
+  let nextNumId = getMaxAttribute(target, "w:num", "w:numId") + 1 || 1;
+
+  // Abstract definitions must come before every w:num
+  const firstNum = getChildren(root, "w:num")[0] || null;
+  const abstractIds = new Map<string, string>();
+  for (const abstractNum of getChildren(
+    numbering.documentElement,
+    "w:abstractNum"
+  )) {
+    const clone = target.importNode(abstractNum, true) as Element;
+    const id = String(nextAbstractId++);
+    abstractIds.set(abstractNum.getAttribute("w:abstractNumId") || "", id);
+    clone.setAttribute("w:abstractNumId", id);
+    // The list id identifies a list across documents, so it cannot be shared
+    getChildren(clone, "w:nsid").forEach((nsid) => clone.removeChild(nsid));
+    // Picture bullets are not copied
+    Array.from(clone.getElementsByTagName("w:lvlPicBulletId")).forEach((node) =>
+      node.parentNode?.removeChild(node)
+    );
+    root.insertBefore(clone, firstNum);
+  }
+
+  const numIds = new Map<string, string>();
+  for (const num of getChildren(numbering.documentElement, "w:num")) {
+    const clone = target.importNode(num, true) as Element;
+    const id = String(nextNumId++);
+    numIds.set(num.getAttribute("w:numId") || "", id);
+    clone.setAttribute("w:numId", id);
+    for (const abstractNumId of getChildren(clone, "w:abstractNumId")) {
+      const value = abstractNumId.getAttribute("w:val") || "";
+      abstractNumId.setAttribute("w:val", abstractIds.get(value) ?? value);
+    }
+    root.appendChild(clone);
+  }
+  return numIds;
+}
+
+/**
+ * Add the styles of a partial that the document does not define. Styles the
+ * document already has keep its definition. A document without styles takes
+ * the default formatting of the partial too.
+ */
+function mergeStyles(
+  registry: PartialRegistry,
+  styles: Document,
+  numIds: Map<string, string>
+) {
+  if (!registry.styles) {
+    registry.styles = new DOMParser().parseFromString(
+      EMPTY_STYLES_XML,
+      "text/xml"
+    );
+    for (const defaults of getChildren(
+      styles.documentElement,
+      "w:docDefaults"
+    )) {
+      registry.styles.documentElement.appendChild(
+        registry.styles.importNode(defaults, true)
+      );
+    }
+  }
+  const target = registry.styles;
+  const existing = new Set(
+    Array.from(target.getElementsByTagName("w:style")).map((style) =>
+      style.getAttribute("w:styleId")
+    )
+  );
+  for (const style of getChildren(styles.documentElement, "w:style")) {
+    if (existing.has(style.getAttribute("w:styleId"))) continue;
+    const clone = target.importNode(style, true) as Element;
+    Array.from(clone.getElementsByTagName("w:numId")).forEach((numId) => {
+      const value = numIds.get(numId.getAttribute("w:val") || "");
+      if (value) numId.setAttribute("w:val", value);
+    });
+    target.documentElement.appendChild(clone);
+  }
+}
+
+/**
+ * Free path for a part copied from a partial, numbered like the parts Word
+ * writes, e.g. word/media/image3.png
+ */
+function reservePath(registry: PartialRegistry, source: string): string {
+  const match = /^(.*?)(\d*)(\.[^./]*)?$/.exec(source)!;
+  const [, stem, , extension = ""] = match;
+  for (let number = 1; ; number++) {
+    const path = `${stem}${number}${extension}`;
+    if (!registry.doc.file(path) && !registry.paths.has(path)) {
+      registry.paths.add(path);
+      return path;
+    }
+  }
+}
+
+/**
+ * New path of a part of a partial, copied into the document by writePartials
+ */
+function copyPart(
+  registry: PartialRegistry,
+  partial: PartialTemplate,
+  source: string
+): string {
+  let target = partial.copied.get(source);
+  if (!target) {
+    target = reservePath(registry, source);
+    partial.copied.set(source, target);
+    registry.copies.push({ partial, source, target });
+  }
+  return target;
+}
+
+/**
+ * Marker of a relationship of the partial's body, or of another part of the
+ * partial in word/, resolved per part by addPartialRelationships
+ */
+function getRelationshipMarker(
+  registry: PartialRegistry,
+  partial: PartialTemplate,
+  id: string,
+  source = "word/document.xml",
+  relationships = partial.relationships
+): string | undefined {
+  const key = `${source}#${id}`;
+  let index = partial.relationshipIndexes.get(key);
+  if (index === undefined) {
+    const relationship = Array.from(
+      relationships.getElementsByTagName("Relationship")
+    ).find((rel) => rel.getAttribute("Id") === id);
+    if (!relationship) return undefined;
+
+    const type = relationship.getAttribute("Type") || "";
+    let target = relationship.getAttribute("Target") || "";
+    const external = relationship.getAttribute("TargetMode") === "External";
+    if (!external) {
+      const path = copyPart(registry, partial, resolveTarget(source, target));
+      target = path.startsWith("word/")
+        ? path.substring("word/".length)
+        : `/${path}`;
+    }
+    index = registry.relationships.push({ type, target, external }) - 1;
+    partial.relationshipIndexes.set(key, index);
+  }
+  return createMarker("PARTREL", index);
+}
+
+/**
+ * Index in registry.notes of a note or comment of a partial, with its
+ * relationships as markers; undefined when the partial does not have it
+ */
+function getNoteIndex(
+  registry: PartialRegistry,
+  partial: PartialTemplate,
+  kind: NoteKind,
+  id: string
+): number | undefined {
+  const key = `${kind}#${id}`;
+  let index = partial.noteIndexes.get(key);
+  if (index === undefined) {
+    const part = partial.notes[kind];
+    const xml = part
+      ? new RegExp(
+          `<w:${kind}\\b[^>]*\\sw:id="${id}"[^>]*>[\\s\\S]*?</w:${kind}>`
+        ).exec(part.xml)?.[0]
+      : undefined;
+    if (!part || !xml) return undefined;
+
+    const source = `word/${NOTE_PARTS[kind].target}`;
+    const note = xml
+      .replace(DETACHED_MARKUP_REGEX, "")
+      .replace(RELATIONSHIP_ATTRIBUTE_REGEX, (match, prefix: string, rId) => {
+        const marker = getRelationshipMarker(
+          registry,
+          partial,
+          rId,
+          source,
+          part.relationships
+        );
+        return marker ? `${prefix}${marker}"` : match;
+      });
+    index =
+      registry.notes.push({
+        kind,
+        xml: note,
+        namespaces: part.namespaces,
+      }) - 1;
+    partial.noteIndexes.set(key, index);
+  }
+  return index;
+}
+
+/**
+ * Body of a partial without its section properties, with the numbering,
+ * styles and relationships it uses merged into the document
+ */
+function mergePartial(
+  registry: PartialRegistry,
+  partial: PartialTemplate
+): string {
+  const { xml } = partial;
+  const start = xml.indexOf("<w:body>");
+  const end = xml.lastIndexOf("</w:body>");
+  if (start === -1 || end === -1) return "";
+  let body = xml.substring(start + "<w:body>".length, end);
+
+  // The section properties of the document stay the ones of the template
+  const sectPr = body.lastIndexOf("<w:sectPr");
+  if (sectPr !== -1 && body.indexOf("</w:p>", sectPr) === -1) {
+    body = body.substring(0, sectPr);
+  }
+  // Notes and comments come along, numbered once the body is rendered
+  body = body
+    .replace(
+      NOTE_REFERENCE_REGEX,
+      (match, element: string, attributes: string, id: string) => {
+        const kind = element.startsWith("comment")
+          ? "comment"
+          : (element.replace("Reference", "") as NoteKind);
+        const index = getNoteIndex(registry, partial, kind, id);
+        return index === undefined
+          ? match
+          : `<w:${element}${attributes} w:id="${createMarker("NOTE", index)}"`;
+      }
+    )
+    .replace(DETACHED_MARKUP_REGEX, "");
+
+  registry.merged = true;
+  const numIds = partial.numbering
+    ? mergeNumbering(registry, partial.numbering)
+    : new Map<string, string>();
+  body = body.replace(
+    /(<w:numId w:val=")(\d+)"/g,
+    (match, prefix: string, id: string) => `${prefix}${numIds.get(id) ?? id}"`
+  );
+  if (partial.styles) {
+    mergeStyles(registry, partial.styles, numIds);
+  }
+
+  return body.replace(
+    RELATIONSHIP_ATTRIBUTE_REGEX,
+    (match, prefix: string, id: string) => {
+      const marker = getRelationshipMarker(registry, partial, id);
+      return marker ? `${prefix}${marker}"` : match;
+    }
+  );
+}
+
+/**
+ * A partial by name, or the partial of a docx value, merged into the document
+ * the first time it is used
+ */
+export function getPartial(
+  registry: PartialRegistry,
+  source: string | DocxData
+): PartialTemplate & { nodes: TemplateNode[] } {
+  const partial =
+    typeof source === "string"
+      ? registry.byName.get(source)
+      : registry.byData.get(source);
+  if (!partial) {
+    const name = typeof source === "string" ? source : "docx value";
+    throw new DocxGenerationError(
+      `Unknown partial template ${name}`,
+      "PARTIAL_NOT_FOUND",
+      { partial: name }
+    );
+  }
+  if (!partial.nodes) {
+    partial.nodes = parseTemplate(mergePartial(registry, partial)).nodes;
+  }
+  return partial as PartialTemplate & { nodes: TemplateNode[] };
+}
+
+/**
+ * Render the body of a partial against a scope, refusing a partial that
+ * inserts itself
+ */
+export function renderPartial<T>(
+  registry: PartialRegistry,
+  partial: PartialTemplate,
+  render: () => T
+): T {
+  if (registry.rendering.has(partial)) {
+    throw new DocxGenerationError(
+      `Partial template ${partial.label} inserts itself`,
+      "PARTIAL_RECURSION",
+      { partial: partial.label }
+    );
+  }
+  registry.rendering.add(partial);
+  try {
+    return render();
+  } finally {
+    registry.rendering.delete(partial);
+  }
+}
+
+/**
+ * An inserted body: the rendered XML and the namespaces it uses
+ */
+export interface InsertedDocument {
+  xml: string;
+  namespaces: Record<string, string>;
+}
+
+// Markup that makes a paragraph worth keeping
+const PARAGRAPH_CONTENT_REGEX =
+  /<w:t(?:\s[^>]*)?>[^<]|<w:(?:tab|br|cr|sym|drawing|pict|object|fldChar|bookmarkStart)\b|\u0001(?:IMAGE|CHART):/;
+
+/**
+ * Replace the DOCX markers of a rendered part with their bodies. The
+ * paragraph of a marker is split around it and its empty halves removed.
+ */
+export function insertDocuments(
+  xml: string,
+  documents: InsertedDocument[]
+): string {
+  if (documents.length === 0) return xml;
+
+  // Markers of nested partials come after the ones of the partial around them
+  documents.forEach(({ xml: content }, index) => {
+    const marker = createMarker("DOCX", index);
+    const position = xml.indexOf(marker);
+    if (position === -1) return;
+    const start = Math.max(
+      xml.lastIndexOf("<w:p>", position),
+      xml.lastIndexOf("<w:p ", position)
+    );
+    const end = xml.indexOf("</w:p>", position);
+    if (start === -1 || end === -1) {
+      xml = xml.replace(marker, "");
+      return;
+    }
+
+    const paragraph = xml.substring(start, end);
+    const open = /^<w:p\b[^>]*>(?:<w:pPr>[\s\S]*?<\/w:pPr>|<w:pPr\/>)?/.exec(
+      paragraph
+    )![0];
+    const [before, after] = paragraph.substring(open.length).split(marker);
+    // A section break stays on the paragraph after the inserted body
+    const sectionBreak = open.includes("<w:sectPr");
+    const first = PARAGRAPH_CONTENT_REGEX.test(before)
+      ? `${open.replace(/<w:sectPr\b[\s\S]*?<\/w:sectPr>/, "")}${before}</w:p>`
+      : "";
+    const last =
+      sectionBreak || PARAGRAPH_CONTENT_REGEX.test(after)
+        ? `${open}${after}</w:p>`
+        : "";
+    xml = `${xml.substring(0, start)}${first}${content}${last}${xml.substring(end + "</w:p>".length)}`;
+  });
+
+  return declareNamespaces(xml, documents);
+}
+
+/**
+ * Declare the namespaces of inserted content on the root element
+ */
+function declareNamespaces(
+  xml: string,
+  inserted: Array<{ namespaces: Record<string, string> }>
+): string {
+  const root = /<(?!\?)[^>]+>/.exec(xml);
+  if (!root) return xml;
+  let declarations = "";
+  for (const { namespaces } of inserted) {
+    for (const [prefix, uri] of Object.entries(namespaces)) {
+      const declaration = ` xmlns:${prefix}="${uri}"`;
+      if (
+        !root[0].includes(` xmlns:${prefix}=`) &&
+        !declarations.includes(` xmlns:${prefix}=`)
+      ) {
+        declarations += declaration;
+      }
+    }
+  }
+  const rootEnd = root.index + root[0].length - 1;
+  return `${xml.substring(0, rootEnd)}${declarations}${xml.substring(rootEnd)}`;
+}
+
+/**
+ * New footnotes, endnotes or comments part, with the separators Word puts
+ * first in the notes parts
+ */
+function createNotesPart(kind: NoteKind): string {
+  const separators =
+    kind === "comment"
+      ? ""
+      : ["separator", "continuationSeparator"]
+          .map(
+            (type, index) =>
+              `<w:${kind} w:type="${type}" w:id="${index - 1}"><w:p><w:pPr><w:spacing w:after="0" w:line="240" w:lineRule="auto"/></w:pPr><w:r><w:${type}/></w:r></w:p></w:${kind}>`
+          )
+          .join("");
+  return (
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+    `<w:${kind}s xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">${separators}</w:${kind}s>`
+  );
+}
+
+/**
+ * A rendered part of the document
+ */
+export interface RenderedPart {
+  partPath: string;
+  xmlString: string;
+}
+
+/**
+ * Give each reference to a note or comment of a partial a copy of the note
+ * with a new id, numbered after the notes of the document, and add the copies
+ * to the footnotes, endnotes and comments parts. Returns the parts that were
+ * not among the rendered parts: comments, and parts created for the notes.
+ */
+export async function addPartialNotes(
+  registry: PartialRegistry,
+  parts: RenderedPart[]
+): Promise<RenderedPart[]> {
+  const added: RenderedPart[] = [];
+  const targets = new Map<
+    NoteKind,
+    { part: RenderedPart; nextId: number; notes: PartialNote[] }
+  >();
+  // Only the notes of rendered references are copied
+  const kinds = new Set<NoteKind>();
+  for (const { xmlString } of parts) {
+    for (const [, , , index] of xmlString.matchAll(NOTE_MARKER_REGEX)) {
+      kinds.add(registry.notes[Number(index)].kind);
+    }
+  }
+  for (const kind of kinds) {
+    const partPath = `word/${NOTE_PARTS[kind].target}`;
+    let part = parts.find((rendered) => rendered.partPath === partPath);
+    if (!part) {
+      const file = registry.doc.file(partPath);
+      if (!file) registry.noteParts.push(kind);
+      part = {
+        partPath,
+        xmlString: file ? await file.async("text") : createNotesPart(kind),
+      };
+      added.push(part);
+    }
+    const ids = Array.from(
+      part.xmlString.matchAll(
+        new RegExp(`<w:${kind}\\b[^>]*\\sw:id="(-?\\d+)"`, "g")
+      ),
+      (match) => Number(match[1])
+    );
+    targets.set(kind, { part, nextId: Math.max(0, ...ids) + 1, notes: [] });
+  }
+  if (targets.size === 0) return added;
+
+  for (const part of parts) {
+    // A comment's range and reference share the id of one copy
+    const open = new Map<string, number>();
+    part.xmlString = part.xmlString.replace(
+      NOTE_MARKER_REGEX,
+      (match, element: string, attributes: string, index: string) => {
+        const note = registry.notes[Number(index)];
+        const target = targets.get(note.kind)!;
+        let id = open.get(index);
+        if (
+          id === undefined ||
+          /^(?:commentRangeStart|\w+noteReference)$/.test(element)
+        ) {
+          id = target.nextId++;
+          const copy = note.xml.replace(
+            /^(<w:\w+\b[^>]*?\sw:id=")-?\d+"/,
+            (start, prefix: string) => `${prefix}${id}"`
+          );
+          target.notes.push({ ...note, xml: copy });
+          open.set(index, id);
+        }
+        if (element === "commentReference") open.delete(index);
+        return `<w:${element}${attributes} w:id="${id}"`;
+      }
+    );
+  }
+
+  for (const [kind, { part, notes }] of targets) {
+    const close = part.xmlString.lastIndexOf(`</w:${kind}s>`);
+    if (close === -1) continue;
+    part.xmlString = declareNamespaces(
+      part.xmlString.substring(0, close) +
+        notes.map(({ xml }) => xml).join("") +
+        part.xmlString.substring(close),
+      notes
+    );
+  }
+  return added;
+}
+
+/**
+ * Replace the PARTREL markers of one part with the ids of new
+ * relationships of the part
+ */
+export async function addPartialRelationships(
+  registry: PartialRegistry,
+  partPath: string,
+  xmlString: string
+): Promise<string> {
+  if (!xmlString.includes("\u0001PARTREL:")) return xmlString;
+
+  const { doc } = registry;
+  const relsPath = getRelsPath(partPath);
+  const relsDoc = await readRelationships(doc, relsPath);
+  let relIdCounter = getNextRelationshipId(relsDoc);
+
+  const relIds = new Map<string, string>();
+  xmlString = xmlString.replace(RELATIONSHIP_MARKER_REGEX, (match, index) => {
+    let rId = relIds.get(index);
+    if (!rId) {
+      const { type, target, external } = registry.relationships[Number(index)];
+      rId = `rId${relIdCounter++}`;
+      const relElem = relsDoc.createElement("Relationship");
+      relElem.setAttribute("Id", rId);
+      relElem.setAttribute("Type", type);
+      relElem.setAttribute("Target", target);
+      if (external) relElem.setAttribute("TargetMode", "External");
+      relsDoc.documentElement.appendChild(relElem);
+      relIds.set(index, rId);
+    }
+    return rId;
+  });
+
+  doc.file(relsPath, new XMLSerializer().serializeToString(relsDoc));
+  return xmlString;
+}
+
+function getContentType(
+  contentTypes: Document | undefined,
+  path: string
+): { extension?: string; contentType: string } | undefined {
+  if (!contentTypes) return undefined;
+  const override = Array.from(
+    contentTypes.getElementsByTagName("Override")
+  ).find((node) => node.getAttribute("PartName") === `/${path}`);
+  if (override) return { contentType: override.getAttribute("ContentType")! };
+
+  const extension = path.substring(path.lastIndexOf(".") + 1).toLowerCase();
+  const fallback = Array.from(
+    contentTypes.getElementsByTagName("Default")
+  ).find(
+    (node) => (node.getAttribute("Extension") || "").toLowerCase() === extension
+  );
+  return fallback
+    ? { extension, contentType: fallback.getAttribute("ContentType")! }
+    : undefined;
+}
+
+/**
+ * Relationship from the document to a new part of word/
+ */
+async function addDocumentPart(doc: JSZip, target: string, type: string) {
+  const relsPath = getRelsPath("word/document.xml");
+  const relsDoc = await readRelationships(doc, relsPath);
+  const relElem = relsDoc.createElement("Relationship");
+  relElem.setAttribute("Id", `rId${getNextRelationshipId(relsDoc)}`);
+  relElem.setAttribute("Type", type);
+  relElem.setAttribute("Target", target);
+  relsDoc.documentElement.appendChild(relElem);
+  doc.file(relsPath, new XMLSerializer().serializeToString(relsDoc));
+}
+
+/**
+ * Copy the parts used by the inserted bodies, with the parts they refer to,
+ * and store the merged styles and numbering. Content types of the copies go
+ * to `contentTypes` (by extension) and `overrides` (by part name).
+ */
+export async function writePartials(
+  registry: PartialRegistry,
+  contentTypes: Map<string, string>,
+  overrides: Map<string, string>
+): Promise<void> {
+  const { doc } = registry;
+  const serializer = new XMLSerializer();
+
+  // Copying a part may add more parts to copy
+  for (let i = 0; i < registry.copies.length; i++) {
+    const { partial, source, target } = registry.copies[i];
+    const file = partial.zip.file(source);
+    if (!file) continue;
+    doc.file(target, await file.async("uint8array"));
+
+    const type = getContentType(partial.contentTypes, source);
+    if (type?.extension) contentTypes.set(type.extension, type.contentType);
+    else if (type) overrides.set(`/${target}`, type.contentType);
+
+    const relsFile = partial.zip.file(getRelsPath(source));
+    if (!relsFile) continue;
+    const relsDoc = new DOMParser().parseFromString(
+      await relsFile.async("text"),
+      "text/xml"
+    );
+    const relationships = relsDoc.getElementsByTagName("Relationship");
+    for (let j = 0; j < relationships.length; j++) {
+      const relationship = relationships[j];
+      if (relationship.getAttribute("TargetMode") === "External") continue;
+      const path = copyPart(
+        registry,
+        partial,
+        resolveTarget(source, relationship.getAttribute("Target") || "")
+      );
+      relationship.setAttribute("Target", `/${path}`);
+    }
+    doc.file(getRelsPath(target), serializer.serializeToString(relsDoc));
+  }
+
+  for (const kind of registry.noteParts) {
+    const { target, type, contentType } = NOTE_PARTS[kind];
+    await addDocumentPart(doc, target, type);
+    overrides.set(`/word/${target}`, contentType);
+  }
+
+  if (!registry.merged) return;
+  if (registry.styles) {
+    if (!doc.file("word/styles.xml")) {
+      await addDocumentPart(doc, "styles.xml", STYLES_RELATIONSHIP_TYPE);
+      overrides.set("/word/styles.xml", STYLES_CONTENT_TYPE);
+    }
+    doc.file("word/styles.xml", serializer.serializeToString(registry.styles));
+  }
+  if (registry.numbering) {
+    if (!doc.file("word/numbering.xml")) {
+      await addDocumentPart(doc, "numbering.xml", NUMBERING_RELATIONSHIP_TYPE);
+      overrides.set("/word/numbering.xml", NUMBERING_CONTENT_TYPE);
+    }
+    doc.file(
+      "word/numbering.xml",
+      serializer.serializeToString(registry.numbering)
+    );
+  }
+}
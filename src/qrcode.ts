@@ -0,0 +1,513 @@
+/**
+ * QR code encoder (ISO/IEC 18004): the smallest version holding the text in
+ * numeric, alphanumeric or byte (UTF-8) mode, Reed-Solomon error correction
+ * and the mask with the lowest penalty
+ */
+
+export type ErrorCorrectionLevel = "L" | "M" | "Q" | "H";
+
+const LEVELS: Record<
+  ErrorCorrectionLevel,
+  { ordinal: number; formatBits: number }
+> = {
+  L: { ordinal: 0, formatBits: 1 },
+  M: { ordinal: 1, formatBits: 0 },
+  Q: { ordinal: 2, formatBits: 3 },
+  H: { ordinal: 3, formatBits: 2 },
+};
+
+// Error correction codewords per block, by level and version (index 0 unused)
+const ECC_CODEWORDS_PER_BLOCK = [
+  [
+    -1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30,
+    28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30,
+    30, 30, 30,
+  ],
+  [
+    -1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26,
+    26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28,
+    28, 28, 28,
+  ],
+  [
+    -1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28,
+    26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30,
+    30, 30, 30,
+  ],
+  [
+    -1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28,
+    26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30,
+    30, 30, 30,
+  ],
+];
+
+// Error correction blocks, by level and version (index 0 unused)
+const ECC_BLOCKS = [
+  [
+    -1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10,
+    12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25,
+  ],
+  [
+    -1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17,
+    17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49,
+  ],
+  [
+    -1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23,
+    23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68,
+  ],
+  [
+    -1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25,
+    25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77,
+    81,
+  ],
+];
+
+const ALPHANUMERIC_CHARSET = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ $%*+-./:";
+
+/**
+ * Data bits of a text in the most compact single mode, with the bit lengths
+ * of its character count for versions 1-9, 10-26 and 27-40
+ */
+interface Segment {
+  mode: number;
+  count: number;
+  countBits: [number, number, number];
+  bits: number[];
+}
+
+function appendBits(bits: number[], value: number, length: number): void {
+  for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+}
+
+function createSegment(text: string): Segment {
+  const bits: number[] = [];
+  if (/^\d*$/.test(text)) {
+    for (let i = 0; i < text.length; i += 3) {
+      const group = text.slice(i, i + 3);
+      appendBits(bits, Number(group), group.length * 3 + 1);
+    }
+    return { mode: 0x1, count: text.length, countBits: [10, 12, 14], bits };
+  }
+
+  if ([...text].every((char) => ALPHANUMERIC_CHARSET.includes(char))) {
+    for (let i = 0; i < text.length; i += 2) {
+      const first = ALPHANUMERIC_CHARSET.indexOf(text[i]);
+      if (i + 1 < text.length) {
+        const second = ALPHANUMERIC_CHARSET.indexOf(text[i + 1]);
+        appendBits(bits, first * 45 + second, 11);
+      } else {
+        appendBits(bits, first, 6);
+      }
+    }
+    return { mode: 0x2, count: text.length, countBits: [9, 11, 13], bits };
+  }
+
+  const bytes = new TextEncoder().encode(text);
+  bytes.forEach((byte) => appendBits(bits, byte, 8));
+  return { mode: 0x4, count: bytes.length, countBits: [8, 16, 16], bits };
+}
+
+function getRawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const alignments = Math.floor(version / 7) + 2;
+    result -= (25 * alignments - 10) * alignments - 55;
+    if (version >= 7) result -= 36;
+  }
+  return result;
+}
+
+function getDataCodewords(version: number, ordinal: number): number {
+  return (
+    Math.floor(getRawDataModules(version) / 8) -
+    ECC_CODEWORDS_PER_BLOCK[ordinal][version] * ECC_BLOCKS[ordinal][version]
+  );
+}
+
+// Multiplication in GF(2^8) modulo x^8 + x^4 + x^3 + x^2 + 1
+function multiply(x: number, y: number): number {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z & 0xff;
+}
+
+function getDivisor(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < degree; j++) {
+      result[j] = multiply(result[j], root);
+      if (j + 1 < degree) result[j] ^= result[j + 1];
+    }
+    root = multiply(root, 0x02);
+  }
+  return result;
+}
+
+function getRemainder(data: number[], divisor: number[]): number[] {
+  const result = new Array<number>(divisor.length).fill(0);
+  for (const byte of data) {
+    const factor = byte ^ result.shift()!;
+    result.push(0);
+    divisor.forEach((coefficient, i) => {
+      result[i] ^= multiply(coefficient, factor);
+    });
+  }
+  return result;
+}
+
+/**
+ * Split the data codewords into blocks, add their error correction and
+ * interleave them
+ */
+function addErrorCorrection(
+  data: number[],
+  version: number,
+  ordinal: number
+): number[] {
+  const blockCount = ECC_BLOCKS[ordinal][version];
+  const eccLength = ECC_CODEWORDS_PER_BLOCK[ordinal][version];
+  const rawCodewords = Math.floor(getRawDataModules(version) / 8);
+  const shortBlocks = blockCount - (rawCodewords % blockCount);
+  const shortLength = Math.floor(rawCodewords / blockCount);
+  const divisor = getDivisor(eccLength);
+
+  const blocks: number[][] = [];
+  for (let i = 0, k = 0; i < blockCount; i++) {
+    const length = shortLength - eccLength + (i < shortBlocks ? 0 : 1);
+    const block = data.slice(k, k + length);
+    k += length;
+    const ecc = getRemainder(block, divisor);
+    if (i < shortBlocks) block.push(0);
+    blocks.push(block.concat(ecc));
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      // Skip the padding of the short blocks
+      if (i !== shortLength - eccLength || j >= shortBlocks) {
+        result.push(block[i]);
+      }
+    });
+  }
+  return result;
+}
+
+function getAlignmentPositions(version: number): number[] {
+  if (version === 1) return [];
+  const count = Math.floor(version / 7) + 2;
+  const step =
+    version === 32 ? 26 : Math.ceil((version * 4 + 4) / (count * 2 - 2)) * 2;
+  const result = [6];
+  for (let position = version * 4 + 10; result.length < count; ) {
+    result.splice(1, 0, position);
+    position -= step;
+  }
+  return result;
+}
+
+const MASKS: Array<(x: number, y: number) => boolean> = [
+  (x, y) => (x + y) % 2 === 0,
+  (_, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+/**
+ * Modules of a QR code being built, with the function patterns that masks
+ * leave alone
+ */
+interface QrMatrix {
+  size: number;
+  modules: boolean[][];
+  reserved: boolean[][];
+}
+
+function createMatrix(size: number): QrMatrix {
+  const create = () =>
+    Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  return { size, modules: create(), reserved: create() };
+}
+
+function setFunction(
+  matrix: QrMatrix,
+  x: number,
+  y: number,
+  dark: boolean
+): void {
+  matrix.modules[y][x] = dark;
+  matrix.reserved[y][x] = true;
+}
+
+function drawFunctionPatterns(matrix: QrMatrix, version: number): void {
+  const { size } = matrix;
+  for (let i = 0; i < size; i++) {
+    setFunction(matrix, 6, i, i % 2 === 0);
+    setFunction(matrix, i, 6, i % 2 === 0);
+  }
+
+  // Finder patterns with their separators
+  for (const [cx, cy] of [
+    [3, 3],
+    [size - 4, 3],
+    [3, size - 4],
+  ]) {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        const x = cx + dx;
+        const y = cy + dy;
+        if (x >= 0 && x < size && y >= 0 && y < size) {
+          setFunction(matrix, x, y, distance !== 2 && distance !== 4);
+        }
+      }
+    }
+  }
+
+  // Alignment patterns, except over the finder patterns
+  const positions = getAlignmentPositions(version);
+  const last = positions.length - 1;
+  positions.forEach((cx, i) => {
+    positions.forEach((cy, j) => {
+      if ((i === 0 && j === 0) || (i === 0 && j === last)) return;
+      if (i === last && j === 0) return;
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          const distance = Math.max(Math.abs(dx), Math.abs(dy));
+          setFunction(matrix, cx + dx, cy + dy, distance !== 1);
+        }
+      }
+    });
+  });
+
+  // Reserve the format bits, written once the mask is chosen
+  drawFormatBits(matrix, 0, 0);
+
+  if (version >= 7) {
+    let remainder = version;
+    for (let i = 0; i < 12; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+    }
+    const bits = (version << 12) | remainder;
+    for (let i = 0; i < 18; i++) {
+      const dark = ((bits >>> i) & 1) !== 0;
+      const a = size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      setFunction(matrix, a, b, dark);
+      setFunction(matrix, b, a, dark);
+    }
+  }
+}
+
+function drawFormatBits(
+  matrix: QrMatrix,
+  formatBits: number,
+  mask: number
+): void {
+  const data = (formatBits << 3) | mask;
+  let remainder = data;
+  for (let i = 0; i < 10; i++) {
+    remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+  }
+  const bits = ((data << 10) | remainder) ^ 0x5412;
+  const bit = (i: number) => ((bits >>> i) & 1) !== 0;
+  const { size } = matrix;
+
+  for (let i = 0; i <= 5; i++) setFunction(matrix, 8, i, bit(i));
+  setFunction(matrix, 8, 7, bit(6));
+  setFunction(matrix, 8, 8, bit(7));
+  setFunction(matrix, 7, 8, bit(8));
+  for (let i = 9; i < 15; i++) setFunction(matrix, 14 - i, 8, bit(i));
+
+  for (let i = 0; i < 8; i++) setFunction(matrix, size - 1 - i, 8, bit(i));
+  for (let i = 8; i < 15; i++) setFunction(matrix, 8, size - 15 + i, bit(i));
+  setFunction(matrix, 8, size - 8, true);
+}
+
+/**
+ * Place the codewords in the zigzag order, two columns at a time from the
+ * bottom right corner
+ */
+function drawCodewords(matrix: QrMatrix, codewords: number[]): void {
+  const { size } = matrix;
+  let i = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    for (let vertical = 0; vertical < size; vertical++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        const upward = ((right + 1) & 2) === 0;
+        const y = upward ? size - 1 - vertical : vertical;
+        if (!matrix.reserved[y][x] && i < codewords.length * 8) {
+          matrix.modules[y][x] =
+            ((codewords[i >>> 3] >>> (7 - (i & 7))) & 1) !== 0;
+          i++;
+        }
+      }
+    }
+  }
+}
+
+function applyMask(matrix: QrMatrix, mask: number): void {
+  const { size } = matrix;
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (!matrix.reserved[y][x] && MASKS[mask](x, y)) {
+        matrix.modules[y][x] = !matrix.modules[y][x];
+      }
+    }
+  }
+}
+
+/**
+ * Penalty of the finder-like patterns (1:1:3:1:1 with 4 light modules on one
+ * side) in the history of the last seven runs
+ */
+function countFinderPatterns(history: number[]): number {
+  const n = history[1];
+  const core =
+    n > 0 &&
+    history[2] === n &&
+    history[3] === n * 3 &&
+    history[4] === n &&
+    history[5] === n;
+  return (
+    (core && history[0] >= n * 4 && history[6] >= n ? 1 : 0) +
+    (core && history[6] >= n * 4 && history[0] >= n ? 1 : 0)
+  );
+}
+
+function getPenalty(matrix: QrMatrix): number {
+  const { size, modules } = matrix;
+  let penalty = 0;
+
+  // Runs of five or more modules of the same colour, and finder-like patterns
+  const scanLine = (get: (i: number) => boolean) => {
+    const history = new Array<number>(7).fill(0);
+    const addRun = (length: number) => {
+      if (history[0] === 0) length += size; // Light border before the line
+      history.pop();
+      history.unshift(length);
+    };
+    let color = false;
+    let run = 0;
+    for (let i = 0; i < size; i++) {
+      if (get(i) === color) {
+        run++;
+        if (run === 5) penalty += 3;
+        else if (run > 5) penalty++;
+      } else {
+        addRun(run);
+        if (!color) penalty += countFinderPatterns(history) * 40;
+        color = get(i);
+        run = 1;
+      }
+    }
+    if (color) {
+      addRun(run);
+      run = 0;
+    }
+    addRun(run + size); // Light border after the line
+    penalty += countFinderPatterns(history) * 40;
+  };
+  for (let y = 0; y < size; y++) scanLine((x) => modules[y][x]);
+  for (let x = 0; x < size; x++) scanLine((y) => modules[y][x]);
+
+  // 2×2 blocks of the same colour
+  for (let y = 0; y < size - 1; y++) {
+    for (let x = 0; x < size - 1; x++) {
+      const color = modules[y][x];
+      if (
+        color === modules[y][x + 1] &&
+        color === modules[y + 1][x] &&
+        color === modules[y + 1][x + 1]
+      ) {
+        penalty += 3;
+      }
+    }
+  }
+
+  // Imbalance between dark and light modules
+  const dark = modules.reduce(
+    (total, row) => total + row.filter(Boolean).length,
+    0
+  );
+  const total = size * size;
+  const k = Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1;
+  return penalty + k * 10;
+}
+
+function getCountBits(segment: Segment, version: number): number {
+  if (version < 10) return segment.countBits[0];
+  return version < 27 ? segment.countBits[1] : segment.countBits[2];
+}
+
+/**
+ * Modules of the QR code of a text, dark modules true, without quiet zone.
+ * Returns undefined when the text does not fit in version 40.
+ */
+export function encodeQrCode(
+  text: string,
+  level: ErrorCorrectionLevel = "M"
+): boolean[][] | undefined {
+  const { ordinal, formatBits } = LEVELS[level];
+  const segment = createSegment(text);
+
+  let version = 1;
+  for (; version <= 40; version++) {
+    const countBits = getCountBits(segment, version);
+    const used = 4 + countBits + segment.bits.length;
+    if (
+      segment.count < 1 << countBits &&
+      used <= getDataCodewords(version, ordinal) * 8
+    ) {
+      break;
+    }
+  }
+  if (version > 40) return undefined;
+
+  const capacity = getDataCodewords(version, ordinal) * 8;
+  const countBits = getCountBits(segment, version);
+  const bits: number[] = [];
+  appendBits(bits, segment.mode, 4);
+  appendBits(bits, segment.count, countBits);
+  bits.push(...segment.bits);
+  appendBits(bits, 0, Math.min(4, capacity - bits.length));
+  appendBits(bits, 0, (8 - (bits.length % 8)) % 8);
+
+  const data: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    data.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+  for (let pad = 0xec; data.length * 8 < capacity; pad ^= 0xec ^ 0x11) {
+    data.push(pad);
+  }
+
+  const matrix = createMatrix(version * 4 + 17);
+  drawFunctionPatterns(matrix, version);
+  drawCodewords(matrix, addErrorCorrection(data, version, ordinal));
+
+  let best = 0;
+  let lowest = Infinity;
+  for (let mask = 0; mask < 8; mask++) {
+    applyMask(matrix, mask);
+    drawFormatBits(matrix, formatBits, mask);
+    const penalty = getPenalty(matrix);
+    if (penalty < lowest) {
+      best = mask;
+      lowest = penalty;
+    }
+    applyMask(matrix, mask); // Undo
+  }
+  applyMask(matrix, best);
+  drawFormatBits(matrix, formatBits, best);
+  return matrix.modules;
+}
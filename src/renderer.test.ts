@@ -0,0 +1,62 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { generateDocx } from "./index";
+import { DocxGenerationError } from "./types";
+import { createDocx, getBodyText, paragraph, readPart } from "./test-utils";
+
+test("renders missing data as empty text by default", async () => {
+  const template = await createDocx(paragraph("[{name}]{#items}x{/items}"));
+  assert.equal(await getBodyText(await generateDocx(template, {})), "[]");
+});
+
+test("reports every missing path in strict mode", async () => {
+  const template = await createDocx(
+    paragraph("{name} {#items}{label}{/items} {address.city}")
+  );
+  await assert.rejects(
+    generateDocx(template, { items: [{ label: "a" }, {}] }, { strict: true }),
+    (error: unknown) => {
+      assert.ok(error instanceof DocxGenerationError);
+      assert.equal(error.code, "MISSING_DATA");
+      assert.deepEqual(error.details.missing, [
+        "name",
+        "items[1].label",
+        "address.city",
+      ]);
+      return true;
+    }
+  );
+});
+
+test("keeps tags or asks nullGetter for missing data", async () => {
+  const template = await createDocx(paragraph("{name} {title}"));
+  const kept = await generateDocx(template, {}, { missingValue: "keep" });
+  assert.equal(await getBodyText(kept), "{name} {title}");
+
+  const filled = await generateDocx(
+    template,
+    { title: null },
+    {
+      nullGetter: (tag) => (tag.path === "name" ? "N/A" : undefined),
+      missingValue: "keep",
+    }
+  );
+  assert.equal(await getBodyText(filled), "N/A {title}");
+});
+
+test("keeps the run formatting of multi-line values", async () => {
+  const template = await createDocx(
+    paragraph(
+      '<w:r><w:rPr><w:b/></w:rPr><w:t xml:space="preserve">To: {address}!</w:t></w:r>'
+    )
+  );
+  const output = await generateDocx(template, {
+    address: "1 Main St\nLyon\tFR",
+  });
+  const xml = await readPart(output, "word/document.xml");
+  const run = /<w:r><w:rPr><w:b\/><\/w:rPr>[\s\S]*?<\/w:r>/.exec(xml)?.[0];
+  assert.equal(
+    run,
+    '<w:r><w:rPr><w:b/></w:rPr><w:t xml:space="preserve">To: 1 Main St</w:t><w:br/><w:t xml:space="preserve">Lyon</w:t><w:tab/><w:t xml:space="preserve">FR!</w:t></w:r>'
+  );
+});
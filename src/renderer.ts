@@ -0,0 +1,420 @@
+/**
+ * Template renderer: evaluates a parsed template tree against a scope stack
+ */
+import {
+  ChartData,
+  DocxData,
+  DocxGenerationResult,
+  GenerateDocxOptions,
+  ImageData,
+  MissingDataTag,
+  TemplateFilter,
+} from "./types";
+import {
+  GridColumnNode,
+  MergeCellNode,
+  SectionNode,
+  TagNode,
+  TemplateImageNode,
+  TemplateNode,
+} from "./parser";
+import {
+  Scope,
+  collectValues,
+  getFullPath,
+  pushScope,
+  resolvePath,
+} from "./scope";
+import { applyFilters, createBuiltinFilters } from "./filters";
+import { evaluateExpression, isTruthy } from "./expression";
+import { createMarker, escapeXml } from "./docx";
+import { createCodeImage, isCodeData } from "./barcode";
+import { isChartData, validateChart } from "./chart";
+import { getChartReference } from "./drawing";
+import { endItemBookmarks, renderBookmark, renderReference } from "./bookmarks";
+import {
+  InsertedDocument,
+  PartialRegistry,
+  getPartial,
+  isDocxData,
+  renderPartial,
+} from "./partials";
+import { getRichTextRuns, isRichTextValue, renderRichText } from "./richtext";
+import {
+  aggregate,
+  divideCellWidth,
+  repeatGridColumn,
+  setVerticalMerge,
+} from "./tables";
+
+/**
+ * Statistics collected while rendering a template
+ */
+export type GenerationStats = NonNullable<DocxGenerationResult["stats"]>;
+
+/**
+ * An image found while rendering, replaced by an IMAGE marker in the output
+ */
+export interface ImagePlacement {
+  key: string;
+  imageData: ImageData;
+  /** w:drawing of a template picture whose image is swapped */
+  drawing?: string;
+}
+
+/**
+ * A chart found while rendering, replaced by a CHART marker in the output
+ */
+export interface ChartPlacement {
+  chart: ChartData;
+  /** w:drawing of a template chart whose data is replaced */
+  drawing?: string;
+}
+
+export interface RenderContext {
+  options: GenerateDocxOptions;
+  stats: GenerationStats;
+  images: ImagePlacement[];
+  charts: ChartPlacement[];
+  /** Hyperlink targets, referenced by LINK markers as r:id in the output */
+  links: string[];
+  /** Partial templates and docx values of the generation */
+  partials: PartialRegistry;
+  /** Inserted bodies, replaced by DOCX markers in the output */
+  documents: InsertedDocument[];
+  /** Built-in filters merged with options.filters */
+  filters: Record<string, TemplateFilter>;
+  /** Full paths of the missing data, reported when missingValue is "error" */
+  missing: string[];
+  /** Previous content of each {merge:x} cell in the loop being rendered */
+  mergeValues?: Map<MergeCellNode, string>;
+}
+
+// Returned by getMissingValue when the tag should stay visible
+const KEEP_TAG = Symbol("keep");
+
+/**
+ * Value to use for a tag whose data is undefined or null, according to the
+ * nullGetter and missingValue options
+ */
+function getMissingValue(
+  tag: MissingDataTag,
+  scope: Scope,
+  context: RenderContext
+): unknown {
+  const { nullGetter, strict, missingValue = "empty" } = context.options;
+
+  if (nullGetter) {
+    const value = nullGetter(
+      { type: tag.type, path: tag.path, raw: tag.raw },
+      scope.map((frame) => frame.value).reverse()
+    );
+    if (value !== undefined) return value;
+  }
+
+  const mode = strict ? "error" : missingValue;
+  if (mode === "error") context.missing.push(getFullPath(scope, tag.path));
+  return mode === "keep" ? KEEP_TAG : undefined;
+}
+
+export function isImageData(value: unknown): value is ImageData {
+  return (
+    value !== null &&
+    typeof value === "object" &&
+    "type" in value &&
+    (value as ImageData).type === "image"
+  );
+}
+
+function getItems(
+  tag: SectionNode["tag"],
+  scope: Scope,
+  context: RenderContext
+): unknown[] | typeof KEEP_TAG {
+  const { path } = tag;
+  const label = tag.type === "table" ? "Table data" : "Array";
+  let arr = resolvePath(scope, path);
+
+  if (arr == null && tag.type !== "condition") {
+    // Column loops are reported as loops
+    const missingTag: MissingDataTag =
+      tag.type === "column" ? { ...tag, type: "loop" } : tag;
+    arr = getMissingValue(missingTag, scope, context);
+    if (arr === KEEP_TAG) return KEEP_TAG;
+  }
+
+  if (!arr) {
+    if (context.options.debug)
+      console.warn(`Warning: ${label} '${path}' not found in data`);
+    return [];
+  }
+  if (!Array.isArray(arr)) {
+    if (context.options.debug)
+      console.warn(`Warning: '${path}' is not an array, got:`, typeof arr);
+    return [];
+  }
+  if (arr.length === 0) {
+    if (context.options.debug)
+      console.warn(`Warning: ${label} '${path}' is empty`);
+    return [];
+  }
+
+  // Filter out null/undefined items
+  return arr.filter((item) => item != null);
+}
+
+function renderSection(
+  section: SectionNode,
+  scope: Scope,
+  context: RenderContext
+): string {
+  const { stats } = context;
+
+  if (section.tag.type === "condition") {
+    stats.conditionalsProcessed++;
+    // Truthy values render the if content, falsy values render else content;
+    // {^condition} does the opposite
+    const value = evaluateExpression(section.tag.expression, scope);
+    return isTruthy(value) !== Boolean(section.tag.inverted)
+      ? renderNodes(section.children, scope, context)
+      : renderNodes(section.elseChildren || [], scope, context);
+  }
+
+  if (section.tag.type === "table") stats.tablesGenerated++;
+  else stats.loopsProcessed++;
+
+  const items = getItems(section.tag, scope, context);
+  if (items === KEEP_TAG) {
+    // Render the content once so that the tags inside stay visible
+    return renderNodes(section.children, scope, context);
+  }
+  if (section.tag.type === "table" && context.options.debug && items.length) {
+    console.log(
+      `Processing table ${section.tag.path} with ${items.length} items`
+    );
+  }
+
+  // Merged cells only compare the items of the same loop
+  const { mergeValues } = context;
+  context.mergeValues = new Map();
+  const output = items
+    .map((item, index) => {
+      const xml = renderNodes(
+        section.children,
+        pushScope(
+          scope,
+          item,
+          index,
+          items.length,
+          `${getFullPath(scope, section.tag.path)}[${index}]`
+        ),
+        context
+      );
+      if (section.tag.type === "column") {
+        return divideCellWidth(xml, items.length);
+      }
+      return section.tag.type === "loop" ? endItemBookmarks(xml) : xml;
+    })
+    .join("");
+  context.mergeValues = mergeValues;
+  return output;
+}
+
+/**
+ * Cell of a {merge:x} tag: merged with the cell above when it renders the
+ * same content in the previous item of the loop
+ */
+function renderMergeCell(
+  node: MergeCellNode,
+  scope: Scope,
+  context: RenderContext
+): string {
+  const cell = renderNodes(node.children, scope, context);
+  if (!context.mergeValues) return cell;
+  const restart = context.mergeValues.get(node) !== cell;
+  context.mergeValues.set(node, cell);
+  return setVerticalMerge(cell, restart);
+}
+
+/**
+ * Template picture tagged {path} in its alt text or name. The picture stays
+ * as it is when there is no image data; a template chart takes chart data.
+ */
+function renderTemplateImage(
+  node: TemplateImageNode,
+  scope: Scope,
+  context: RenderContext
+): string {
+  let value = resolvePath(scope, node.tag.path);
+  if (value == null) value = getMissingValue(node.tag, scope, context);
+  if (isCodeData(value)) value = createCodeImage(value);
+  if (isChartData(value) && getChartReference(node.value)) {
+    validateChart(value);
+    context.charts.push({ chart: value, drawing: node.value });
+    return createMarker("CHART", context.charts.length - 1);
+  }
+  if (!isImageData(value)) return node.value;
+
+  context.images.push({
+    key: node.tag.path,
+    imageData: value,
+    drawing: node.value,
+  });
+  return createMarker("IMAGE", context.images.length - 1);
+}
+
+/**
+ * w:gridCol of a {column:x} column, repeated for each item
+ */
+function renderGridColumn(
+  node: GridColumnNode,
+  scope: Scope,
+  context: RenderContext
+): string {
+  const items = resolvePath(scope, node.tag.path);
+  if (!Array.isArray(items)) return node.value;
+  const count = items.filter((item) => item != null).length;
+  return count ? repeatGridColumn(node.value, count) : "";
+}
+
+export function createRenderFilters(
+  options: GenerateDocxOptions
+): Record<string, TemplateFilter> {
+  return { ...createBuiltinFilters(options.locale), ...options.filters };
+}
+
+// Tags always sit in a w:t inside a run: breaks and tabs are siblings of the
+// text in the same run, so they keep its formatting
+const RUN_BREAK = '</w:t><w:br/><w:t xml:space="preserve">';
+const RUN_TAB = '</w:t><w:tab/><w:t xml:space="preserve">';
+
+/**
+ * Text value as w:t content: XML-escaped, with line breaks and tabs
+ */
+function toRunText(text: string): string {
+  return escapeXml(text)
+    .replace(/\r\n|\r|\n/g, RUN_BREAK)
+    .replace(/\t/g, RUN_TAB);
+}
+
+/**
+ * Bookmark of a {bookmark:x} tag or cross-reference of a {ref:x} tag, named by
+ * the value of the path, or by the path itself when the data has no value
+ */
+function renderBookmarkTag(
+  node: TagNode,
+  scope: Scope,
+  context: RenderContext
+): string {
+  const { tag, run } = node;
+  let value = resolvePath(scope, tag.path);
+  if (tag.filters.length > 0) {
+    value = applyFilters(value, tag.filters, scope, context.filters);
+  }
+  const name =
+    value == null || typeof value === "object" ? tag.path : String(value);
+  const markup = tag.bookmark
+    ? renderBookmark(name)
+    : renderReference(name, run.props);
+  return `${run.close}${markup}${run.open}`;
+}
+
+/**
+ * Body of a {>name} partial or of a docx value, rendered with the current scope
+ */
+function renderDocument(
+  node: TagNode,
+  source: string | DocxData,
+  scope: Scope,
+  context: RenderContext
+): string {
+  const partial = getPartial(context.partials, source);
+  // Reserve the index first, so the bodies of nested partials come after it
+  const index =
+    context.documents.push({ xml: "", namespaces: partial.namespaces }) - 1;
+  context.documents[index].xml = renderPartial(context.partials, partial, () =>
+    renderNodes(partial.nodes, scope, context)
+  );
+  context.stats.placeholdersReplaced++;
+  return node.run.close + createMarker("DOCX", index) + node.run.open;
+}
+
+/**
+ * Render nodes to XML. Images are emitted as IMAGE markers indexing
+ * context.images, hyperlink ids as LINK markers indexing context.links and
+ * inserted bodies as DOCX markers indexing context.documents (see
+ * createMarker).
+ */
+export function renderNodes(
+  nodes: TemplateNode[],
+  scope: Scope,
+  context: RenderContext
+): string {
+  let output = "";
+
+  for (const node of nodes) {
+    if (node.type === "xml") {
+      output += node.value;
+    } else if (node.type === "section") {
+      output += renderSection(node, scope, context);
+    } else if (node.type === "mergeCell") {
+      output += renderMergeCell(node, scope, context);
+    } else if (node.type === "gridColumn") {
+      output += renderGridColumn(node, scope, context);
+    } else if (node.type === "templateImage") {
+      output += renderTemplateImage(node, scope, context);
+    } else if (node.tag.bookmark || node.tag.ref) {
+      output += renderBookmarkTag(node, scope, context);
+    } else if (node.tag.partial) {
+      output += renderDocument(node, node.tag.path, scope, context);
+    } else {
+      const { filters } = node.tag;
+      let value = node.tag.aggregate
+        ? aggregate(node.tag.aggregate, collectValues(scope, node.tag.path))
+        : resolvePath(scope, node.tag.path);
+      if (filters.length > 0) {
+        value = applyFilters(value, filters, scope, context.filters);
+      } else if (value instanceof Date) {
+        value = context.filters.date(value);
+      }
+      if (value == null) {
+        value = getMissingValue(node.tag, scope, context);
+      }
+      if (isCodeData(value)) value = createCodeImage(value);
+
+      if (value === KEEP_TAG) {
+        output += node.tag.raw;
+      } else if (isDocxData(value)) {
+        output += renderDocument(node, value, scope, context);
+      } else if (isImageData(value)) {
+        // The drawing goes in its own run next to the text run
+        context.images.push({ key: node.tag.path, imageData: value });
+        output +=
+          node.run.close +
+          createMarker("IMAGE", context.images.length - 1) +
+          node.run.open;
+      } else if (isChartData(value)) {
+        validateChart(value);
+        context.charts.push({ chart: value });
+        output +=
+          node.run.close +
+          createMarker("CHART", context.charts.length - 1) +
+          node.run.open;
+      } else if (isRichTextValue(value)) {
+        context.stats.placeholdersReplaced++;
+        const runs = renderRichText(
+          getRichTextRuns(value),
+          node.run.props,
+          toRunText,
+          (url) => createMarker("LINK", context.links.push(url) - 1)
+        );
+        output += `${node.run.close}${runs}${node.run.open}`;
+      } else if (value != null && typeof value !== "object") {
+        context.stats.placeholdersReplaced++;
+        output += toRunText(String(value));
+      }
+    }
+  }
+
+  return output;
+}
@@ -0,0 +1,63 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { generateDocx } from "./index";
+import { parseMarkdown } from "./richtext";
+import { createDocx, getBodyText, paragraph, readPart } from "./test-utils";
+
+test("parses inline Markdown into styled runs", () => {
+  assert.deepEqual(
+    parseMarkdown(
+      "**Approved** by *finance*, see [the *portal*](https://example.com) \\*"
+    ),
+    [
+      { bold: true, text: "Approved" },
+      { text: " by " },
+      { italic: true, text: "finance" },
+      { text: ", see " },
+      { link: "https://example.com", text: "the " },
+      { link: "https://example.com", italic: true, text: "portal" },
+      { text: " *" },
+    ]
+  );
+});
+
+test("renders rich text runs with the formatting of the tag", async () => {
+  const template = await createDocx(
+    paragraph(
+      '<w:r><w:rPr><w:i/><w:sz w:val="20"/></w:rPr><w:t>{note}</w:t></w:r>'
+    )
+  );
+  const output = await generateDocx(template, {
+    note: {
+      type: "richtext",
+      runs: [
+        "Payment is ",
+        { text: "overdue", bold: true, color: "C00000" },
+        ", see ",
+        { text: "our terms", link: "https://example.com/terms?a=1&b=2" },
+      ],
+    },
+  });
+  assert.equal(await getBodyText(output), "Payment is overdue, see our terms");
+
+  const xml = await readPart(output, "word/document.xml");
+  const overdue = /<w:r>(?:(?!<w:r>).)*overdue<\/w:t><\/w:r>/.exec(xml)?.[0];
+  assert.ok(overdue, "the styled run is missing");
+  assert.match(overdue, /<w:b\/>/);
+  assert.match(overdue, /<w:color w:val="C00000"\/>/);
+  assert.match(overdue, /<w:i\/>/);
+  assert.match(overdue, /<w:sz w:val="20"\/>/);
+
+  const link =
+    /<w:hyperlink r:id="(rId\d+)"[^>]*>.*?our terms.*?<\/w:hyperlink>/.exec(
+      xml
+    );
+  assert.ok(link, "the hyperlink is missing");
+  const rels = await readPart(output, "word/_rels/document.xml.rels");
+  assert.match(
+    rels,
+    new RegExp(
+      `<Relationship Id="${link[1]}" Type="[^"]*/hyperlink" Target="https://example.com/terms\\?a=1&amp;b=2" TargetMode="External"/>`
+    )
+  );
+});
@@ -0,0 +1,283 @@
+/**
+ * Rich text values: structured runs, inline Markdown or links rendered as w:r
+ * runs
+ */
+import { LinkData, MarkdownData, RichTextData, RichTextRun } from "./types";
+import { escapeXml } from "./docx";
+import { toBookmarkName } from "./bookmarks";
+
+export function isRichTextValue(
+  value: unknown
+): value is RichTextData | MarkdownData | LinkData {
+  if (value === null || typeof value !== "object" || !("type" in value)) {
+    return false;
+  }
+  const { type } = value as { type: unknown };
+  return type === "richtext" || type === "markdown" || type === "link";
+}
+
+type RunStyle = Omit<RichTextRun, "text">;
+
+// Inline Markdown delimiters, longest first
+const MARKDOWN_MARKERS: Array<[string, RunStyle]> = [
+  ["**", { bold: true }],
+  ["__", { bold: true }],
+  ["~~", { strike: true }],
+  ["*", { italic: true }],
+  ["_", { italic: true }],
+  ["`", { font: "Courier New" }],
+];
+
+const MARKDOWN_LINK_REGEX = /^\[([^\]]+)\]\(([^)\s]+)\)/;
+
+/**
+ * Index of the delimiter closing a Markdown span, -1 if there is none. Escaped
+ * delimiters are skipped, single * and _ do not match half of a ** or __, and
+ * ** followed by * closes on the last two (**bold *both***).
+ */
+function findClosingMarker(text: string, marker: string, from: number) {
+  for (let index = text.indexOf(marker, from); index !== -1; ) {
+    const escaped = text[index - 1] === "\\";
+    const doubled =
+      marker.length === 1 &&
+      marker !== "`" &&
+      (text[index + 1] === marker || text[index - 1] === marker);
+    if (!escaped && !doubled && index > from) {
+      while (marker.length > 1 && text[index + marker.length] === marker[0]) {
+        index++;
+      }
+      return index;
+    }
+    index = text.indexOf(marker, index + (doubled ? 2 : 1));
+  }
+  return -1;
+}
+
+/**
+ * Split inline Markdown into runs: **bold**, *italic*, ~~strike~~, `code` and
+ * [links](https://example.com). Block syntax (headings, lists) is kept as text.
+ */
+export function parseMarkdown(
+  text: string,
+  style: RunStyle = {},
+  runs: RichTextRun[] = []
+): RichTextRun[] {
+  let plain = "";
+  const flush = () => {
+    if (plain) runs.push({ ...style, text: plain });
+    plain = "";
+  };
+
+  let index = 0;
+  while (index < text.length) {
+    const char = text[index];
+    const rest = text.slice(index);
+
+    // Backslash escapes a Markdown character
+    if (char === "\\" && /[\\*_~`[\]()]/.test(text[index + 1] || "")) {
+      plain += text[index + 1];
+      index += 2;
+      continue;
+    }
+
+    const link = MARKDOWN_LINK_REGEX.exec(rest);
+    if (link) {
+      flush();
+      parseMarkdown(link[1], { ...style, link: link[2] }, runs);
+      index += link[0].length;
+      continue;
+    }
+
+    const marker = MARKDOWN_MARKERS.find(([delimiter]) =>
+      rest.startsWith(delimiter)
+    );
+    // _ inside a word (snake_case) is not emphasis
+    const inWord = char === "_" && /\w/.test(text[index - 1] || "");
+    if (marker && !inWord) {
+      const [delimiter, markerStyle] = marker;
+      const end = findClosingMarker(rest, delimiter, delimiter.length);
+      if (end !== -1) {
+        flush();
+        const inner = rest.slice(delimiter.length, end);
+        if (delimiter === "`") {
+          runs.push({ ...style, ...markerStyle, text: inner });
+        } else {
+          parseMarkdown(inner, { ...style, ...markerStyle }, runs);
+        }
+        index += end + delimiter.length;
+        continue;
+      }
+    }
+
+    plain += char;
+    index++;
+  }
+
+  flush();
+  return runs;
+}
+
+/**
+ * Runs of a rich text value; plain strings are unstyled runs
+ */
+export function getRichTextRuns(
+  value: RichTextData | MarkdownData | LinkData
+): RichTextRun[] {
+  if (value.type === "markdown") return parseMarkdown(value.text || "");
+  if (value.type === "link") {
+    const link = value.anchor == null ? value.url : `#${value.anchor}`;
+    return [{ text: value.text ?? value.url ?? "", link }];
+  }
+  return (value.runs || []).map((run) =>
+    typeof run === "string" ? { text: run } : run
+  );
+}
+
+// Order of the w:rPr children required by the WordprocessingML schema
+const RUN_PROPERTY_ORDER = [
+  "w:rStyle",
+  "w:rFonts",
+  "w:b",
+  "w:bCs",
+  "w:i",
+  "w:iCs",
+  "w:caps",
+  "w:smallCaps",
+  "w:strike",
+  "w:dstrike",
+  "w:outline",
+  "w:shadow",
+  "w:emboss",
+  "w:imprint",
+  "w:noProof",
+  "w:snapToGrid",
+  "w:vanish",
+  "w:webHidden",
+  "w:color",
+  "w:spacing",
+  "w:w",
+  "w:kern",
+  "w:position",
+  "w:sz",
+  "w:szCs",
+  "w:highlight",
+  "w:u",
+  "w:effect",
+  "w:bdr",
+  "w:shd",
+  "w:fitText",
+  "w:vertAlign",
+  "w:rtl",
+  "w:cs",
+  "w:em",
+  "w:lang",
+  "w:eastAsianLayout",
+  "w:specVanish",
+  "w:oMath",
+];
+
+// One child element of w:rPr, self-closing or with content
+const RUN_PROPERTY_REGEX =
+  /<([\w:]+)(?:\s[^>]*)?\/>|<([\w:]+)(?:\s[^>]*)?>[\s\S]*?<\/\2>/g;
+
+/**
+ * w:rPr children of a run style, keyed by element name
+ */
+function getStyleProperties(style: RunStyle): Map<string, string> {
+  const properties = new Map<string, string>();
+  const set = (name: string, markup: string) => properties.set(name, markup);
+
+  if (style.link) set("w:rStyle", '<w:rStyle w:val="Hyperlink"/>');
+  if (style.font) {
+    const font = escapeXml(style.font);
+    set(
+      "w:rFonts",
+      `<w:rFonts w:ascii="${font}" w:hAnsi="${font}" w:cs="${font}"/>`
+    );
+  }
+  if (style.bold !== undefined) {
+    set("w:b", style.bold ? "<w:b/>" : '<w:b w:val="0"/>');
+  }
+  if (style.italic !== undefined) {
+    set("w:i", style.italic ? "<w:i/>" : '<w:i w:val="0"/>');
+  }
+  if (style.strike !== undefined) {
+    set("w:strike", style.strike ? "<w:strike/>" : '<w:strike w:val="0"/>');
+  }
+  const color = style.color || (style.link ? "0563C1" : undefined);
+  if (color) {
+    set("w:color", `<w:color w:val="${escapeXml(color.replace(/^#/, ""))}"/>`);
+  }
+  if (style.size) {
+    const halfPoints = Math.round(style.size * 2);
+    set("w:sz", `<w:sz w:val="${halfPoints}"/>`);
+    set("w:szCs", `<w:szCs w:val="${halfPoints}"/>`);
+  }
+  if (style.highlight) {
+    set("w:highlight", `<w:highlight w:val="${escapeXml(style.highlight)}"/>`);
+  }
+  const underline = style.underline ?? (style.link ? true : undefined);
+  if (underline !== undefined) {
+    const value = typeof underline === "string" ? underline : "single";
+    set("w:u", `<w:u w:val="${underline ? escapeXml(value) : "none"}"/>`);
+  }
+  if (style.superscript || style.subscript) {
+    const value = style.superscript ? "superscript" : "subscript";
+    set("w:vertAlign", `<w:vertAlign w:val="${value}"/>`);
+  }
+  return properties;
+}
+
+/**
+ * Run properties of the template run with the style of a rich text run on
+ * top, in schema order
+ */
+function mergeRunProperties(templateProps: string, style: RunStyle): string {
+  const properties = new Map<string, string>();
+  const inner = /^<w:rPr[^>]*>([\s\S]*)<\/w:rPr>$/.exec(templateProps.trim());
+  let match;
+  while (inner && (match = RUN_PROPERTY_REGEX.exec(inner[1])) !== null) {
+    properties.set(match[1] || match[2], match[0]);
+  }
+  RUN_PROPERTY_REGEX.lastIndex = 0;
+
+  getStyleProperties(style).forEach((markup, name) =>
+    properties.set(name, markup)
+  );
+  if (properties.size === 0) return "";
+
+  // Unknown elements (e.g. w:rPrChange) go last, in their original order
+  const rank = (name: string) => {
+    const index = RUN_PROPERTY_ORDER.indexOf(name);
+    return index === -1 ? RUN_PROPERTY_ORDER.length : index;
+  };
+  const ordered = Array.from(properties.entries()).sort(
+    ([a], [b]) => rank(a) - rank(b)
+  );
+  return `<w:rPr>${ordered.map(([, markup]) => markup).join("")}</w:rPr>`;
+}
+
+/**
+ * Render rich text runs as w:r elements. Text goes through toRunText and each
+ * link is turned into a relationship id by addLink; #name links go to a
+ * bookmark of the document.
+ */
+export function renderRichText(
+  runs: RichTextRun[],
+  templateProps: string,
+  toRunText: (text: string) => string,
+  addLink: (url: string) => string
+): string {
+  return runs
+    .map((run) => {
+      const { text, ...style } = run;
+      const xml = `<w:r>${mergeRunProperties(templateProps, style)}<w:t xml:space="preserve">${toRunText(String(text ?? ""))}</w:t></w:r>`;
+      if (!style.link) return xml;
+      if (style.link.startsWith("#")) {
+        const anchor = toBookmarkName(style.link.substring(1));
+        return `<w:hyperlink w:anchor="${anchor}" w:history="1">${xml}</w:hyperlink>`;
+      }
+      return `<w:hyperlink r:id="${addLink(style.link)}" w:history="1">${xml}</w:hyperlink>`;
+    })
+    .join("");
+}
@@ -0,0 +1,38 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { collectValues, createScope, pushScope, resolvePath } from "./scope";
+
+test("resolves dotted and indexed paths", () => {
+  const scope = createScope({
+    customer: { address: { city: "Lyon" } },
+    items: [{ name: "Pen" }, { name: "Ink" }],
+    code: "XYZ",
+  });
+  assert.equal(resolvePath(scope, "customer.address.city"), "Lyon");
+  assert.equal(resolvePath(scope, "items[1].name"), "Ink");
+  assert.equal(resolvePath(scope, "items.length"), 2);
+  assert.equal(resolvePath(scope, "code[0]"), "X");
+  assert.equal(resolvePath(scope, "code.length"), 3);
+  assert.equal(resolvePath(scope, "customer.missing.city"), undefined);
+  assert.equal(resolvePath(scope, "customer.toString"), undefined);
+});
+
+test("falls back to the enclosing scopes", () => {
+  const data = { company: "Acme", items: [{ name: "Pen" }, { name: "Ink" }] };
+  const scope = pushScope(createScope(data), data.items[1], 1, 2, "items[1]");
+  assert.equal(resolvePath(scope, "name"), "Ink");
+  assert.equal(resolvePath(scope, "company"), "Acme");
+  assert.deepEqual(resolvePath(scope, "this"), { name: "Ink" });
+  assert.equal(resolvePath(scope, "$index"), 1);
+  assert.equal(resolvePath(scope, "$last"), true);
+});
+
+test("collects the values of a path through arrays", () => {
+  const scope = createScope({
+    orders: [
+      { lines: [{ price: 1 }, { price: 2 }] },
+      { lines: [{ price: 4 }] },
+    ],
+  });
+  assert.deepEqual(collectValues(scope, "orders.lines.price"), [1, 2, 4]);
+});
@@ -0,0 +1,172 @@
+/**
+ * Data lookup for template tags: dotted/indexed paths and nested loop scopes
+ */
+
+/**
+ * One level of the scope stack. The root data is the first frame, every loop
+ * iteration pushes the current item with its position in the array.
+ */
+export interface ScopeFrame {
+  value: unknown;
+  index?: number;
+  length?: number;
+  /** Path of the loop item from the root data, e.g. employees[1] */
+  path?: string;
+}
+
+/** Scope stack, innermost frame last */
+export type Scope = ScopeFrame[];
+
+/** Characters allowed in a tag path, for use inside the tag regexes */
+export const PATH_PATTERN = "[\\w$.\\[\\]]+";
+
+const pathCache = new Map<string, Array<string | number>>();
+
+/**
+ * Split a path such as customer.address.city or items[0].name into segments
+ */
+export function parsePath(path: string): Array<string | number> {
+  const cached = pathCache.get(path);
+  if (cached) return cached;
+
+  const segments: Array<string | number> = [];
+  const segmentRegex = /([^.[\]]+)|\[(\d+)\]/g;
+  let match;
+  while ((match = segmentRegex.exec(path)) !== null) {
+    segments.push(match[2] !== undefined ? Number(match[2]) : match[1]);
+  }
+
+  pathCache.set(path, segments);
+  return segments;
+}
+
+export function createScope(data: unknown): Scope {
+  return [{ value: data }];
+}
+
+/**
+ * Return a new scope with a loop item pushed on top
+ */
+export function pushScope(
+  scope: Scope,
+  value: unknown,
+  index: number,
+  length: number,
+  path?: string
+): Scope {
+  return [...scope, { value, index, length, path }];
+}
+
+/**
+ * Path of a tag from the root data, for error messages: {name} inside
+ * {#employees} gives employees[1].name
+ */
+export function getFullPath(scope: Scope, path: string): string {
+  const { path: prefix } = scope[scope.length - 1];
+  return prefix ? `${prefix}.${path}` : path;
+}
+
+function getProperty(target: unknown, segment: string | number): unknown {
+  if (
+    segment === "length" &&
+    (Array.isArray(target) || typeof target === "string")
+  ) {
+    return target.length;
+  }
+  if (typeof target === "string") {
+    return Object.prototype.hasOwnProperty.call(target, segment)
+      ? target[Number(segment)]
+      : undefined;
+  }
+  return hasProperty(target, segment) ? target[segment] : undefined;
+}
+
+function hasProperty(
+  target: unknown,
+  segment: string | number
+): target is Record<string | number, unknown> {
+  return (
+    target !== null &&
+    typeof target === "object" &&
+    Object.prototype.hasOwnProperty.call(target, segment)
+  );
+}
+
+function getLoopMeta(scope: Scope, name: string): unknown {
+  for (let i = scope.length - 1; i >= 0; i--) {
+    const frame = scope[i];
+    if (frame.index === undefined) continue;
+    if (name === "$index") return frame.index;
+    if (name === "$first") return frame.index === 0;
+    if (name === "$last") return frame.index === frame.length! - 1;
+  }
+  return undefined;
+}
+
+/**
+ * Resolve a tag path against the scope stack.
+ *
+ * - {this} and {.} return the current loop item (useful for arrays of strings)
+ * - {$index}, {$first} and {$last} describe the position in the innermost loop
+ * - Any other path starts at the innermost frame that defines its first
+ *   segment, so {companyName} still works inside {#employees}
+ */
+export function resolvePath(scope: Scope, path: string): unknown {
+  const trimmed = path.trim();
+  if (trimmed === "." || trimmed === "this") {
+    return scope[scope.length - 1].value;
+  }
+  if (trimmed === "$index" || trimmed === "$first" || trimmed === "$last") {
+    return getLoopMeta(scope, trimmed);
+  }
+
+  const segments = parsePath(trimmed);
+  if (segments.length === 0) return undefined;
+
+  let value: unknown;
+  const [head, ...rest] = segments;
+  if (head === "this") {
+    value = scope[scope.length - 1].value;
+  } else {
+    const frame = [...scope].reverse().find((f) => hasProperty(f.value, head));
+    if (!frame) return undefined;
+    value = getProperty(frame.value, head);
+  }
+
+  for (const segment of rest) {
+    value = getProperty(value, segment);
+    if (value === undefined) return undefined;
+  }
+  return value;
+}
+
+/**
+ * All the values of a path, flattening the arrays met along it:
+ * invoice.items.price gives the price of every item. Used by aggregate tags.
+ */
+export function collectValues(scope: Scope, path: string): unknown[] {
+  const [head, ...rest] = parsePath(path.trim());
+  if (head === undefined) return [];
+
+  let values: unknown[];
+  if (head === "this") {
+    values = [scope[scope.length - 1].value];
+  } else {
+    const frame = [...scope].reverse().find((f) => hasProperty(f.value, head));
+    if (!frame) return [];
+    values = [getProperty(frame.value, head)];
+  }
+
+  for (const segment of rest) {
+    values = values.flatMap((value) =>
+      Array.isArray(value) &&
+      typeof segment === "string" &&
+      segment !== "length"
+        ? value.map((item) => getProperty(item, segment))
+        : [getProperty(value, segment)]
+    );
+  }
+  return values
+    .flatMap((value) => (Array.isArray(value) ? value : [value]))
+    .filter((value) => value != null);
+}
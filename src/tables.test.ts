@@ -0,0 +1,152 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { generateDocx, validateTemplate } from "./index";
+import { createDocx, getText, paragraph, readPart, table } from "./test-utils";
+
+/** Text of each cell, row by row */
+function getCells(xml: string): string[][] {
+  return Array.from(xml.matchAll(/<w:tr[ >][\s\S]*?<\/w:tr>/g), ([row]) =>
+    Array.from(row.matchAll(/<w:tc>[\s\S]*?<\/w:tc>/g), ([cell]) =>
+      getText(cell)
+    )
+  );
+}
+
+test("repeats row groups and marks header rows", async () => {
+  const template = await createDocx(
+    table(
+      ["Order", "Date"],
+      ["{table:orders | header}#{id}", "{date}"],
+      ["{description}", "{/table:orders}"]
+    )
+  );
+  const output = await generateDocx(template, {
+    orders: [
+      { id: 1, date: "May 1", description: "Pens" },
+      { id: 2, date: "May 2", description: "Ink" },
+    ],
+  });
+  const xml = await readPart(output, "word/document.xml");
+  assert.deepEqual(getCells(xml), [
+    ["Order", "Date"],
+    ["#1", "May 1"],
+    ["Pens", ""],
+    ["#2", "May 2"],
+    ["Ink", ""],
+  ]);
+  assert.equal(xml.match(/<w:tblHeader\/>/g)?.length, 1);
+});
+
+test("pairs row groups with the closing tag of their own table", async () => {
+  const template = await createDocx(
+    table(["{table:items}{n}"]) +
+      paragraph("mid") +
+      table(["{table:items}{n}"], ["{d}{/table:items}"])
+  );
+  assert.deepEqual(await validateTemplate(template), {
+    valid: true,
+    diagnostics: [],
+  });
+
+  const output = await generateDocx(template, {
+    items: [
+      { n: "A", d: "a" },
+      { n: "B", d: "b" },
+    ],
+  });
+  const xml = await readPart(output, "word/document.xml");
+  assert.deepEqual(getCells(xml), [["A"], ["B"], ["A"], ["a"], ["B"], ["b"]]);
+  assert.doesNotMatch(xml, /\{table:items\}/);
+});
+
+test("repeats column cells and shares the grid width", async () => {
+  const template = await createDocx(
+    table(["Product", "{column:months}{.}"], ["Pen", "{column:months}x"])
+  );
+  const output = await generateDocx(template, { months: ["Jan", "Feb"] });
+  const xml = await readPart(output, "word/document.xml");
+  assert.deepEqual(getCells(xml), [
+    ["Product", "Jan", "Feb"],
+    ["Pen", "x", "x"],
+  ]);
+  assert.deepEqual(
+    Array.from(xml.matchAll(/<w:gridCol w:w="(\d+)"\/>/g), (match) => match[1]),
+    ["2000", "1000", "1000"]
+  );
+});
+
+test("merges repeated cells and computes totals", async () => {
+  const template = await createDocx(
+    table(
+      ["{table:employees}{merge:department}", "{name}"],
+      ["{sum(employees.salary) | number:0}", "{count(employees)} people"]
+    )
+  );
+  const output = await generateDocx(template, {
+    employees: [
+      { department: "Sales", name: "Ann", salary: 1000 },
+      { department: "Sales", name: "Bob", salary: 1500 },
+      { department: "IT", name: "Cy", salary: 2000 },
+    ],
+  });
+  const xml = await readPart(output, "word/document.xml");
+  assert.deepEqual(getCells(xml), [
+    ["Sales", "Ann"],
+    ["", "Bob"],
+    ["IT", "Cy"],
+    ["4,500", "3 people"],
+  ]);
+  assert.deepEqual(
+    Array.from(
+      xml.matchAll(/<w:vMerge(?: w:val="(\w+)")?\/>/g),
+      (match) => match[1] ?? "continue"
+    ),
+    ["restart", "continue", "restart"]
+  );
+
+  // Totals leave out the floating point noise of their last digits
+  const totals = await generateDocx(
+    await createDocx(paragraph("{sum(lines.price)} / {avg(lines.price)}")),
+    { lines: [{ price: 1.1 }, { price: 2.2 }] }
+  );
+  assert.equal(
+    getText(await readPart(totals, "word/document.xml")),
+    "3.3 / 1.65"
+  );
+});
+
+test("renders tables inside loops and inside table cells", async () => {
+  const template = await createDocx(
+    paragraph("{#orders}") +
+      paragraph("Order {id}") +
+      table(["{table:lines}{sku}", "{qty}"]) +
+      paragraph("{/orders}") +
+      table([
+        "{table:teams}{name}",
+        table(["{table:members}{name}@{team}"]) + paragraph(""),
+      ])
+  );
+  const output = await generateDocx(template, {
+    orders: [
+      {
+        id: 1,
+        lines: [
+          { sku: "A", qty: 2 },
+          { sku: "B", qty: 1 },
+        ],
+      },
+      { id: 2, lines: [] },
+      { id: 3, lines: [{ sku: "C", qty: 5 }] },
+    ],
+    teams: [
+      { name: "Red", team: "red", members: [{ name: "Ann" }, { name: "Bob" }] },
+      { name: "Blue", team: "blue", members: [{ name: "Cy" }] },
+    ],
+  });
+  const xml = await readPart(output, "word/document.xml");
+  assert.equal(
+    getText(xml),
+    "Order 1\nA\n2\nB\n1\nOrder 2\nOrder 3\nC\n5\nRed\nAnn@red\nBob@red\n\nBlue\nCy@blue\n"
+  );
+  assert.equal(xml.match(/<w:tbl>/g)?.length, 5);
+});
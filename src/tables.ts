@@ -0,0 +1,115 @@
+/**
+ * Table helpers for the renderer: repeated columns, merged cells, aggregate
+ * tags and the clean-up of rendered tables
+ */
+import { AggregateFunction } from "./parser";
+
+/**
+ * Repeat a w:gridCol, sharing its width between the copies
+ */
+export function repeatGridColumn(gridColumn: string, count: number): string {
+  const column = gridColumn.replace(
+    /w:w="(\d+)"/,
+    (_, width) => `w:w="${Math.round(Number(width) / count)}"`
+  );
+  return column.repeat(count);
+}
+
+/**
+ * Share the preferred width (w:tcW) of a rendered cell between `count` copies
+ */
+export function divideCellWidth(cell: string, count: number): string {
+  return cell.replace(/<w:tcW\b[^>]*\/>/, (width) =>
+    /w:type="(auto|nil)"/.test(width)
+      ? width
+      : width.replace(
+          /w:w="(\d+)"/,
+          (_, value) => `w:w="${Math.round(Number(value) / count)}"`
+        )
+  );
+}
+
+// w:tcPr children that come after w:vMerge
+const VERTICAL_MERGE_FOLLOWERS =
+  /<w:(tcBorders|shd|noWrap|tcMar|textDirection|tcFitText|vAlign|hideMark|headers|cellIns|cellDel|cellMerge|tcPrChange)\b/;
+
+const CELL_START_REGEX =
+  /^(<w:tc\b[^>]*>)(<w:tcPr\/>|<w:tcPr>[\s\S]*?<\/w:tcPr>)?/;
+
+/**
+ * Mark a rendered cell as the start of a vertical merge, or replace it with a
+ * cell continuing the merge from the cell above
+ */
+export function setVerticalMerge(cell: string, restart: boolean): string {
+  const match = CELL_START_REGEX.exec(cell);
+  if (!match) return cell;
+  const [start, open, props = ""] = match;
+
+  const merge = restart ? '<w:vMerge w:val="restart"/>' : "<w:vMerge/>";
+  const inner = props
+    .replace(/^<w:tcPr\/>$|^<w:tcPr>|<\/w:tcPr>$/g, "")
+    .replace(/<w:vMerge\b[^>]*\/>/, "");
+  const follower = VERTICAL_MERGE_FOLLOWERS.exec(inner);
+  const position = follower ? follower.index : inner.length;
+  const tcPr = `<w:tcPr>${inner.slice(0, position)}${merge}${inner.slice(position)}</w:tcPr>`;
+
+  return restart
+    ? `${open}${tcPr}${cell.slice(start.length)}`
+    : `${open}${tcPr}<w:p/></w:tc>`;
+}
+
+// Table left without rows, e.g. {table:x} over an empty array
+const EMPTY_TABLE_REGEX =
+  /<w:tbl(?:\s[^>]*)?>(?:(?!<w:tr[\s>]|<w:tbl[\s>])[\s\S])*?<\/w:tbl>/g;
+
+// Table cell without any paragraph, e.g. after a loop over an empty array
+const EMPTY_CELL_REGEX =
+  /(<w:tc(?:\s[^>]*)?>(?:<w:tcPr\/>|<w:tcPr>[\s\S]*?<\/w:tcPr>)?)(<\/w:tc>)/g;
+
+/**
+ * Make rendered tables valid for Word, which refuses tables without rows and
+ * cells that do not end with a paragraph
+ */
+export function repairTables(xml: string): string {
+  return xml
+    .replace(EMPTY_TABLE_REGEX, "")
+    .replace(EMPTY_CELL_REGEX, "$1<w:p/>$2")
+    .replace(/<\/w:tbl><\/w:tc>/g, "</w:tbl><w:p/></w:tc>");
+}
+
+/**
+ * A computed number without the floating point noise of its last digits,
+ * e.g. 3.3 instead of 3.3000000000000003 for 1.1 + 2.2
+ */
+function roundResult(value: number): number {
+  return Number(value.toPrecision(15));
+}
+
+/**
+ * Result of an aggregate tag over the values of a path; sum and count also
+ * work on an empty list, the other functions give undefined
+ */
+export function aggregate(
+  fn: AggregateFunction,
+  values: unknown[]
+): number | undefined {
+  if (fn === "count") return values.length;
+
+  const numbers = values
+    .map((value) => (typeof value === "string" ? Number(value) : value))
+    .filter(
+      (value): value is number => typeof value === "number" && !isNaN(value)
+    );
+  const sum = numbers.reduce((total, value) => total + value, 0);
+
+  switch (fn) {
+    case "sum":
+      return roundResult(sum);
+    case "avg":
+      return numbers.length ? roundResult(sum / numbers.length) : undefined;
+    case "min":
+      return numbers.length ? Math.min(...numbers) : undefined;
+    default:
+      return numbers.length ? Math.max(...numbers) : undefined;
+  }
+}
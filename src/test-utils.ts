@@ -0,0 +1,263 @@
+/**
+ * Helpers for the behaviour tests: small DOCX packages built in memory and
+ * readers for the parts of a generated document
+ */
+import assert from "node:assert/strict";
+import { readFileSync } from "fs";
+import JSZip from "jszip";
+import { parseXml } from "./docx";
+
+const NAMESPACES = [
+  'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"',
+  'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"',
+  'xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing"',
+  'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main"',
+  'xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture"',
+].join(" ");
+
+const XML_DECLARATION =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+const RELATIONSHIP_TYPES = {
+  header:
+    "http://schemas.openxmlformats.org/officeDocument/2006/relationships/header",
+  footer:
+    "http://schemas.openxmlformats.org/officeDocument/2006/relationships/footer",
+  styles:
+    "http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles",
+  numbering:
+    "http://schemas.openxmlformats.org/officeDocument/2006/relationships/numbering",
+  footnotes:
+    "http://schemas.openxmlformats.org/officeDocument/2006/relationships/footnotes",
+  comments:
+    "http://schemas.openxmlformats.org/officeDocument/2006/relationships/comments",
+};
+
+const CONTENT_TYPES = {
+  header:
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.header+xml",
+  footer:
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.footer+xml",
+  styles:
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml",
+  numbering:
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml",
+  footnotes:
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.footnotes+xml",
+  comments:
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.comments+xml",
+};
+
+/** Letter page with 1 inch margins: 6.5 inches of text width */
+export const SECTION_PROPERTIES =
+  '<w:pgSz w:w="12240" w:h="15840"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440"/>';
+
+/** The JPEG picture of the examples, 2808×1968 pixels at 72 DPI */
+export const JPEG_IMAGE = readFileSync(
+  new URL("../examples/image.jpg", import.meta.url)
+);
+
+export interface TestDocument {
+  /** Content of w:body, without the final w:sectPr */
+  body: string;
+  /** Content of the default header and footer */
+  header?: string;
+  footer?: string;
+  /** w:style elements of word/styles.xml; no styles part when undefined */
+  styles?: string;
+  /** w:abstractNum and w:num elements of word/numbering.xml */
+  numbering?: string;
+  /** w:footnote elements of word/footnotes.xml */
+  footnotes?: string;
+  /** w:comment elements of word/comments.xml */
+  comments?: string;
+}
+
+/**
+ * Build a DOCX package from a body, or from a body and the other parts
+ */
+export async function createDocx(
+  document: TestDocument | string
+): Promise<Buffer> {
+  const { body, header, footer, styles, numbering, footnotes, comments } =
+    typeof document === "string" ? { body: document } : document;
+  const zip = new JSZip();
+  const relationships: string[] = [];
+  const overrides: string[] = [];
+  let references = "";
+
+  const addPart = (
+    kind: keyof typeof RELATIONSHIP_TYPES,
+    name: string,
+    xml: string
+  ) => {
+    const id = `rId${relationships.length + 1}`;
+    zip.file(`word/${name}`, XML_DECLARATION + xml);
+    relationships.push(
+      `<Relationship Id="${id}" Type="${RELATIONSHIP_TYPES[kind]}" Target="${name}"/>`
+    );
+    overrides.push(
+      `<Override PartName="/word/${name}" ContentType="${CONTENT_TYPES[kind]}"/>`
+    );
+    return id;
+  };
+
+  if (styles !== undefined) {
+    addPart(
+      "styles",
+      "styles.xml",
+      `<w:styles ${NAMESPACES}>${styles}</w:styles>`
+    );
+  }
+  if (numbering !== undefined) {
+    addPart(
+      "numbering",
+      "numbering.xml",
+      `<w:numbering ${NAMESPACES}>${numbering}</w:numbering>`
+    );
+  }
+  if (footnotes !== undefined) {
+    addPart(
+      "footnotes",
+      "footnotes.xml",
+      `<w:footnotes ${NAMESPACES}>${footnotes}</w:footnotes>`
+    );
+  }
+  if (comments !== undefined) {
+    addPart(
+      "comments",
+      "comments.xml",
+      `<w:comments ${NAMESPACES}>${comments}</w:comments>`
+    );
+  }
+  if (header !== undefined) {
+    const id = addPart(
+      "header",
+      "header1.xml",
+      `<w:hdr ${NAMESPACES}>${header}</w:hdr>`
+    );
+    references += `<w:headerReference w:type="default" r:id="${id}"/>`;
+  }
+  if (footer !== undefined) {
+    const id = addPart(
+      "footer",
+      "footer1.xml",
+      `<w:ftr ${NAMESPACES}>${footer}</w:ftr>`
+    );
+    references += `<w:footerReference w:type="default" r:id="${id}"/>`;
+  }
+
+  zip.file(
+    "[Content_Types].xml",
+    XML_DECLARATION +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>' +
+      overrides.join("") +
+      "</Types>"
+  );
+  zip.file(
+    "_rels/.rels",
+    XML_DECLARATION +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>' +
+      "</Relationships>"
+  );
+  zip.file(
+    "word/_rels/document.xml.rels",
+    XML_DECLARATION +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      relationships.join("") +
+      "</Relationships>"
+  );
+  zip.file(
+    "word/document.xml",
+    `${XML_DECLARATION}<w:document ${NAMESPACES}><w:body>${body}<w:sectPr>${references}${SECTION_PROPERTIES}</w:sectPr></w:body></w:document>`
+  );
+  return zip.generateAsync({ type: "nodebuffer" });
+}
+
+/**
+ * Paragraph of plain text runs; arguments starting with "<" are inserted as is
+ */
+export function paragraph(...runs: string[]): string {
+  const content = runs
+    .map((run) =>
+      run.startsWith("<")
+        ? run
+        : `<w:r><w:t xml:space="preserve">${run}</w:t></w:r>`
+    )
+    .join("");
+  return `<w:p>${content}</w:p>`;
+}
+
+/**
+ * Table with one paragraph of text per cell, 2000 twips per column
+ */
+export function table(...rows: string[][]): string {
+  const grid = rows[0].map(() => '<w:gridCol w:w="2000"/>').join("");
+  const content = rows
+    .map(
+      (cells) =>
+        `<w:tr>${cells
+          .map(
+            (cell) =>
+              `<w:tc><w:tcPr><w:tcW w:w="2000" w:type="dxa"/></w:tcPr>${cell.startsWith("<") ? cell : paragraph(cell)}</w:tc>`
+          )
+          .join("")}</w:tr>`
+    )
+    .join("");
+  return `<w:tbl><w:tblGrid>${grid}</w:tblGrid>${content}</w:tbl>`;
+}
+
+/**
+ * Text of a part of a generated document, failing when it is missing or is
+ * not well-formed XML
+ */
+export async function readPart(
+  buffer: Buffer | Uint8Array,
+  path: string
+): Promise<string> {
+  const file = (await JSZip.loadAsync(buffer)).file(path);
+  assert.ok(file, `${path} is missing`);
+  const xml = await file.async("text");
+  const { errors } = parseXml(xml);
+  assert.deepEqual(errors, [], `${path} is not well-formed`);
+  return xml;
+}
+
+/**
+ * Names of the files of a package
+ */
+export async function listParts(
+  buffer: Buffer | Uint8Array
+): Promise<string[]> {
+  const zip = await JSZip.loadAsync(buffer);
+  return Object.values(zip.files)
+    .filter((file) => !file.dir)
+    .map((file) => file.name);
+}
+
+/**
+ * Text of each paragraph of some XML, one line per paragraph
+ */
+export function getText(xml: string): string {
+  return Array.from(
+    xml.matchAll(/<w:p[ >][\s\S]*?<\/w:p>|<w:p\/>/g),
+    ([content]) =>
+      Array.from(
+        content.matchAll(/<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>/g),
+        (match) => match[1]
+      ).join("")
+  ).join("\n");
+}
+
+/**
+ * Text of the body of a generated document
+ */
+export async function getBodyText(
+  buffer: Buffer | Uint8Array
+): Promise<string> {
+  return getText(await readPart(buffer, "word/document.xml"));
+}
@@ -12,19 +12,260 @@ export interface ImageData {
   buffer?: Buffer | Uint8Array | ArrayBuffer;
   /** URL to fetch the image from (alternative to buffer) */
   url?: string;
-  /** File extension of the image (jpg, png, gif, etc.) - auto-detected from URL if not provided */
+  /**
+   * Source of the image for GenerateDocxOptions.imageResolver, e.g. "s3://bucket/logo.png";
+   * data URIs and http(s) URLs are also loaded without a resolver
+   */
+  src?: string;
+  /**
+   * File extension of the image (jpg, png, gif, etc.) - auto-detected from URL if not provided.
+   * Only used for formats that cannot be recognized from the content.
+   */
   extension?: string;
+  /** PNG shown instead of an SVG image by Word versions that cannot display SVG */
+  fallback?: Buffer | Uint8Array | ArrayBuffer;
   /** Optional width in inches. If only width is specified, height is calculated to maintain aspect ratio */
   widthInches?: number;
   /** Optional height in inches. If only height is specified, width is calculated to maintain aspect ratio */
   heightInches?: number;
+  /** Largest width in inches, also when widthInches or heightInches is given */
+  maxWidthInches?: number;
+  /** Alternative text read by screen readers (descr of the drawing) */
+  altText?: string;
+  /** Title of the picture, shown as a tooltip */
+  title?: string;
+  /** Name of the picture in the document, "Picture N" by default */
+  name?: string;
+  /** URL opened when the image is clicked */
+  hyperlink?: string;
+  /** Float the image (wp:anchor) instead of placing it in the line of text */
+  position?: ImagePosition;
+  /** Clockwise rotation in degrees */
+  rotation?: number;
+  flipHorizontal?: boolean;
+  flipVertical?: boolean;
+  /** Part of the image to cut off on each side, in percent of its size */
+  crop?: { top?: number; right?: number; bottom?: number; left?: number };
+  /** Outline around the image */
+  border?: { color?: string; widthPt?: number };
+  /**
+   * Use the size of a picture placed next to the tag in the template, which is
+   * removed, instead of computing a size from the image
+   */
+  keepPlaceholderSize?: boolean;
+  /**
+   * How the image fills its frame (widthInches × heightInches, or the template
+   * picture or placeholder it replaces): stretched by default, fitted inside
+   * it ("contain"), or filling it with the overflow cropped ("cover")
+   */
+  fit?: "contain" | "cover";
+}
+
+/**
+ * Content returned by an image resolver, with the extension of the image when
+ * its format cannot be recognized from the content
+ */
+export type ImageResolverResult =
+  | Buffer
+  | Uint8Array
+  | ArrayBuffer
+  | { buffer: Buffer | Uint8Array | ArrayBuffer; extension?: string };
+
+/**
+ * Loads the image of a src or url. Return undefined to let the built-in
+ * loading handle it (data URIs and http(s) URLs).
+ */
+export type ImageResolver = (
+  src: string,
+  image: ImageData
+) =>
+  | ImageResolverResult
+  | undefined
+  | null
+  | Promise<ImageResolverResult | undefined | null>;
+
+/**
+ * Images loaded from a src or url, the least recently used ones dropped first.
+ * Created with createImageCache; pass the same cache to several generations
+ * to load each source once.
+ */
+export interface ImageCache {
+  maxEntries: number;
+  entries: Map<
+    string,
+    Promise<{ buffer: Buffer | Uint8Array; extension: string }>
+  >;
+}
+
+/**
+ * Position of a floating image. Offsets are measured from the reference area;
+ * an alignment takes precedence over the offset on the same axis.
+ */
+export interface ImagePosition {
+  /** Horizontal reference, "column" by default */
+  horizontalRelativeTo?: "page" | "margin" | "column" | "character";
+  /** Vertical reference, "paragraph" by default */
+  verticalRelativeTo?: "page" | "margin" | "paragraph" | "line";
+  x?: number;
+  y?: number;
+  /** Unit of the offsets, inches by default */
+  unit?: "in" | "cm";
+  horizontalAlign?: "left" | "center" | "right";
+  verticalAlign?: "top" | "center" | "bottom";
+  /** How text flows around the image, "square" by default */
+  wrap?: "square" | "tight" | "behindText" | "inFrontOf" | "topAndBottom";
+}
+
+/**
+ * Image properties shared by QR codes and barcodes
+ */
+type CodeImageOptions = Pick<
+  ImageData,
+  "altText" | "title" | "name" | "hyperlink" | "position"
+>;
+
+/**
+ * QR code drawn as a vector image, with a PNG fallback
+ */
+export interface QrCodeData extends CodeImageOptions {
+  type: "qrcode";
+  /** Text or URL held by the code */
+  value: string;
+  /** Share of the code that can be damaged and still read, "M" by default */
+  errorCorrection?: "L" | "M" | "Q" | "H";
+  /** Width and height in inches, quiet zone included, 1 by default */
+  sizeInches?: number;
+  /** Quiet zone in modules, 4 by default */
+  margin?: number;
+  /** Hex colour of the modules, "000000" by default */
+  color?: string;
+  /** Hex colour of the background, "FFFFFF" by default */
+  background?: string;
+}
+
+/**
+ * Barcode drawn as a vector image, with a PNG fallback
+ */
+export interface BarcodeData extends CodeImageOptions {
+  type: "barcode";
+  /** Code 128 for printable ASCII text, EAN-13 for 12 digits (or 13 with the check digit) */
+  format: "code128" | "ean13";
+  value: string;
+  /** Width in inches, 0.013 inch per module by default */
+  widthInches?: number;
+  /** Height in inches, 0.75 by default */
+  heightInches?: number;
+  /** Quiet zone on each side in modules, 10 by default */
+  margin?: number;
+  /** Hex colour of the bars, "000000" by default */
+  color?: string;
+  /** Hex colour of the background, "FFFFFF" by default */
+  background?: string;
+}
+
+/**
+ * Series of a chart, one value per category; null leaves a gap
+ */
+export interface ChartSeries {
+  name: string;
+  values: Array<number | null>;
+  /** Hex colour of the bars or line, the theme colour by default */
+  color?: string;
+}
+
+/**
+ * Native Word chart, editable in Word with its data in an embedded workbook
+ */
+export interface ChartData
+  extends Pick<ImageData, "altText" | "name" | "position"> {
+  type: "chart";
+  /** "column" for vertical bars, "bar" for horizontal bars */
+  chartType: "column" | "bar" | "line" | "pie";
+  categories: Array<string | number>;
+  series: ChartSeries[];
+  title?: string;
+  /** Stack the series of a column, bar or line chart */
+  stacked?: boolean;
+  /** Position of the legend, "bottom" by default, or false to hide it */
+  legend?: "top" | "bottom" | "left" | "right" | false;
+  /** Width in inches, 6 by default */
+  widthInches?: number;
+  /** Height in inches, 3.5 by default */
+  heightInches?: number;
+}
+
+/**
+ * A piece of rich text. Properties that are not set are inherited from the
+ * formatting of the template tag.
+ */
+export interface RichTextRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  /** true for a single underline, or a Word underline style such as "double" */
+  underline?: boolean | string;
+  strike?: boolean;
+  /** Hex colour, e.g. "FF0000" or "#FF0000" */
+  color?: string;
+  /** Font size in points */
+  size?: number;
+  /** Font name, e.g. "Arial" */
+  font?: string;
+  /** Highlight colour name, e.g. "yellow" */
+  highlight?: string;
+  superscript?: boolean;
+  subscript?: boolean;
+  /** URL the text links to, or #name for the bookmark of a {bookmark:x} tag */
+  link?: string;
+}
+
+/**
+ * Formatted text made of runs; plain strings inherit the template formatting
+ */
+export interface RichTextData {
+  type: "richtext";
+  runs: Array<string | RichTextRun>;
+}
+
+/**
+ * Inline Markdown: **bold**, *italic*, ~~strike~~, `code` and [links](url)
+ */
+export interface MarkdownData {
+  type: "markdown";
+  text: string;
+}
+
+/**
+ * DOCX file whose body is inserted at the tag, rendered with the data visible
+ * there. Its styles, numbering, images and links are merged into the document.
+ */
+export interface DocxData {
+  type: "docx";
+  buffer: Buffer | Uint8Array | ArrayBuffer;
+}
+
+/**
+ * Clickable text linking to a URL, or to a bookmark of the document
+ */
+export interface LinkData {
+  type: "link";
+  /** Text shown, the URL by default */
+  text?: string;
+  url?: string;
+  /** Name of a bookmark set with a {bookmark:x} tag, instead of a URL */
+  anchor?: string;
 }
 
 /**
  * Template data that can be used in DOCX templates
  * - Strings are replaced directly in placeholders
- * - Arrays are used for loops and tables
+ * - Arrays are used for loops and tables; arrays of strings or numbers can be printed with {this}
  * - Objects with ImageData type are embedded as images
+ * - Objects with QrCodeData or BarcodeData type are embedded as code images
+ * - Objects with ChartData type are embedded as native charts
+ * - Objects with RichTextData or MarkdownData type are rendered as formatted text
+ * - Objects with LinkData type are rendered as hyperlinks
+ * - Objects with DocxData type insert the body of another template
  * - Other values are converted to strings
  */
 export interface TemplateData {
@@ -34,20 +275,104 @@ export interface TemplateData {
     | boolean
     | null
     | undefined
+    | Date
     | ImageData
+    | QrCodeData
+    | BarcodeData
+    | ChartData
+    | RichTextData
+    | MarkdownData
+    | LinkData
+    | DocxData
     | TemplateData[]
+    | Array<string | number | boolean>
     | TemplateData;
 }
 
+/**
+ * Tag whose data is missing, passed to GenerateDocxOptions.nullGetter
+ */
+export interface MissingDataTag {
+  type: "variable" | "loop" | "table";
+  /** Path of the tag, e.g. customer.name */
+  path: string;
+  /** Tag as written in the template, e.g. {customer.name} */
+  raw: string;
+}
+
+/**
+ * Filter usable in tags: {value | name:arg1:arg2} calls filter(value, arg1, arg2)
+ */
+export type TemplateFilter = (value: unknown, ...args: unknown[]) => unknown;
+
 /**
  * Options for the generateDocx function
  */
 export interface GenerateDocxOptions {
   /** Enable debug logging for troubleshooting */
   debug?: boolean;
-  /** Custom image size limits in inches */
-  maxImageWidth?: number;
+  /** Shorthand for missingValue: "error" */
+  strict?: boolean;
+  /**
+   * What to render when the data of a tag, loop or table is undefined or null:
+   * - "empty" (default): an empty string; loops and tables render nothing
+   * - "error": throw a DocxGenerationError with code MISSING_DATA listing every missing path
+   * - "keep": leave the tag visible; loops and tables render their content once
+   * Conditions are never treated as missing, a missing flag is false.
+   */
+  missingValue?: "empty" | "error" | "keep";
+  /**
+   * Called for every missing tag with the data visible at the tag, innermost
+   * loop item first. The returned value is rendered instead; return undefined
+   * to fall back to missingValue.
+   */
+  nullGetter?: (tag: MissingDataTag, scope: unknown[]) => unknown;
+  /** Custom filters, added to (or replacing) the built-in ones */
+  filters?: Record<string, TemplateFilter>;
+  /** Locale of the number, currency and date filters, e.g. "fr-FR" */
+  locale?: string;
+  /**
+   * Largest width in inches of an image shown at its natural size, 6 by
+   * default. "auto" uses the width of the page between its margins, or of the
+   * table cell holding the image, and also shrinks images given a size so that
+   * they never overflow it.
+   */
+  maxImageWidth?: number | "auto";
+  /** Largest height in inches of an image shown at its natural size, 6 by default */
   maxImageHeight?: number;
+  /** Loads the images given by src or url, e.g. from a storage service */
+  imageResolver?: ImageResolver;
+  /** Time allowed to load one image, in milliseconds (10000 by default) */
+  imageTimeout?: number;
+  /** Largest size of a loaded image, in bytes (20 MB by default) */
+  maxImageBytes?: number;
+  /**
+   * Hosts that images may be fetched from, e.g. ["cdn.example.com", "*.example.org"].
+   * Any host by default; set it when URLs come from untrusted data.
+   */
+  allowedImageHosts?: string[];
+  /** Headers sent when fetching images, e.g. an Authorization header */
+  imageRequestHeaders?: Record<string, string>;
+  /** Number of images loaded at the same time, 4 by default */
+  imageConcurrency?: number;
+  /** Cache of loaded images, shared between generations; one per generation by default */
+  imageCache?: ImageCache;
+  /** Templates inserted by {>name} tags, by name */
+  partials?: Record<string, Buffer | Uint8Array | ArrayBuffer>;
+}
+
+/**
+ * Options of generateBatch
+ */
+export interface GenerateBatchOptions extends GenerateDocxOptions {
+  /** One document holding every record (default), or one document per record */
+  mode?: "single" | "separate";
+  /** Break between records of a single document: a page break (default), or a section break restarting page numbers */
+  separator?: "page" | "section";
+  /** Return the separate documents as one zip file */
+  zip?: boolean;
+  /** Name of each document in the zip, document-1.docx, document-2.docx... by default */
+  fileName?: (record: TemplateData, index: number) => string;
 }
 
 /**
@@ -68,9 +393,86 @@ export interface DocxGenerationResult {
     tablesGenerated: number;
     /** Number of images embedded */
     imagesEmbedded: number;
+    /** Number of charts embedded */
+    chartsEmbedded: number;
   };
 }
 
+/**
+ * Problem found in a template by validateTemplate
+ */
+export interface TemplateDiagnostic {
+  /** Error code in the DocxGenerationError scheme, e.g. UNCLOSED_TAG */
+  code: string;
+  /** Human readable description */
+  message: string;
+  /** Part containing the tag, e.g. word/document.xml or word/header1.xml */
+  part: string;
+  /** Zero-based index of the paragraph within the part, -1 if the part could not be parsed */
+  paragraphIndex: number;
+  /** Text of the paragraph containing the tag */
+  context: string;
+  /** Raw text of the offending tag */
+  tag?: string;
+}
+
+/**
+ * Result of template validation
+ */
+export interface TemplateValidationResult {
+  /** True when no diagnostics were found */
+  valid: boolean;
+  diagnostics: TemplateDiagnostic[];
+}
+
+/**
+ * How a field is used by a tag
+ */
+export type TemplateFieldUsage = "value" | "loop" | "condition" | "table";
+
+/**
+ * Place where a field is used in a template
+ */
+export interface TemplateFieldLocation {
+  /** Part containing the tag, e.g. word/document.xml */
+  part: string;
+  /** Zero-based index of the paragraph within the part */
+  paragraphIndex: number;
+  usage: TemplateFieldUsage;
+}
+
+/**
+ * Data field expected by a template, as found by inspectTemplate
+ */
+export interface TemplateField {
+  /** Key of the field in its parent object or list item */
+  name: string;
+  /** Path from the root data or from the enclosing list item, e.g. customer.address.city */
+  path: string;
+  /**
+   * - value: printed by a {tag}
+   * - object: has nested fields, e.g. customer in {customer.name}
+   * - list: repeated by {#list} or {table:list}
+   * - condition: only tested by {?condition}
+   */
+  type: "value" | "object" | "list" | "condition";
+  /** The tag is alone in its paragraph, so it may hold an image */
+  imageSlot?: boolean;
+  /** The items of a list are printed directly with {this} or {.} */
+  scalarItems?: boolean;
+  /** Nested fields of an object, or fields of each item of a list */
+  fields?: TemplateField[];
+  /** Every tag using this field */
+  locations: TemplateFieldLocation[];
+}
+
+/**
+ * Data required by a template
+ */
+export interface TemplateInspection {
+  fields: TemplateField[];
+}
+
 /**
  * Error thrown when DOCX generation fails
  */
@@ -94,6 +496,21 @@ export declare function generateDocx(
   options?: GenerateDocxOptions
 ): Promise<Buffer>;
 
+/**
+ * Generate one document holding every record, or one document per record:
+ * a list of buffers, or one zip buffer with zip: true
+ */
+export declare function generateBatch(
+  templateBuffer: Buffer,
+  records: TemplateData[],
+  options: GenerateBatchOptions & { mode: "separate"; zip?: false }
+): Promise<Buffer[]>;
+export declare function generateBatch(
+  templateBuffer: Buffer,
+  records: TemplateData[],
+  options?: GenerateBatchOptions
+): Promise<Buffer>;
+
 /**
  * Alternative function that returns detailed result with statistics
  */
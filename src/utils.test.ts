@@ -0,0 +1,110 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { generateDocx, generateDocxDetailed } from "./index";
+import {
+  createDocx,
+  getBodyText,
+  getText,
+  JPEG_IMAGE,
+  paragraph,
+  readPart,
+} from "./test-utils";
+
+test("renders tags in the body, headers, footers and footnotes", async () => {
+  const template = await createDocx({
+    body: paragraph("Dear {name}"),
+    header: paragraph("Header {company}"),
+    footer: paragraph("Footer {company}"),
+    footnotes:
+      '<w:footnote w:id="1"><w:p><w:r><w:t>Note {name}</w:t></w:r></w:p></w:footnote>',
+  });
+  const output = await generateDocx(template, { name: "Ann", company: "Acme" });
+
+  assert.equal(await getBodyText(output), "Dear Ann");
+  assert.equal(
+    getText(await readPart(output, "word/header1.xml")),
+    "Header Acme"
+  );
+  assert.equal(
+    getText(await readPart(output, "word/footer1.xml")),
+    "Footer Acme"
+  );
+  assert.equal(
+    getText(await readPart(output, "word/footnotes.xml")),
+    "Note Ann"
+  );
+});
+
+test("merges placeholders split across runs", async () => {
+  const template = await createDocx(
+    paragraph("Total: {", "amo", "unt}", " EUR")
+  );
+  const output = await generateDocx(template, { amount: 12 });
+  assert.equal(await getBodyText(output), "Total: 12 EUR");
+});
+
+test("counts replaced placeholders", async () => {
+  const template = await createDocx(paragraph("{a} {b}"));
+  const { stats } = await generateDocxDetailed(template, { a: 1, b: 2 });
+  assert.equal(stats?.placeholdersReplaced, 2);
+});
+
+test("repeats whole paragraphs and list items", async () => {
+  const item = (text: string) =>
+    `<w:p><w:pPr><w:numPr><w:ilvl w:val="0"/><w:numId w:val="1"/></w:numPr></w:pPr><w:r><w:t>${text}</w:t></w:r></w:p>`;
+  const template = await createDocx(
+    paragraph("{#items}") +
+      item("{name}") +
+      paragraph("{/items}") +
+      paragraph("{?empty}Nothing{/empty}") +
+      paragraph("{^empty}Done{/empty}")
+  );
+  const output = await generateDocx(template, {
+    items: [{ name: "Pen" }, { name: "Ink" }],
+    empty: false,
+  });
+  const xml = await readPart(output, "word/document.xml");
+  assert.equal(getText(xml), "Pen\nInk\n\nDone");
+  assert.equal(xml.match(/<w:numId w:val="1"\/>/g)?.length, 2);
+});
+
+test("reads dotted paths and the data around a loop", async () => {
+  const template = await createDocx(
+    paragraph("{customer.address.city}: {#items}{name}@{company} {/items}")
+  );
+  const output = await generateDocx(template, {
+    company: "Acme",
+    customer: { address: { city: "Lyon" } },
+    items: [{ name: "Pen" }, { name: "Ink", company: "Inkly" }],
+  });
+  assert.equal(await getBodyText(output), "Lyon: Pen@Acme Ink@Inkly ");
+});
+
+test("keeps marker-like text of the data as text", async () => {
+  const template = await createDocx(
+    paragraph("{note} {logo}") + paragraph("{link} {part}")
+  );
+  const note = "see __IMAGE__0__ __LINK__0__ __DOCX__0__ \u0001IMAGE:0\u0001";
+  const output = await generateDocx(template, {
+    note,
+    logo: { type: "image", buffer: JPEG_IMAGE, widthInches: 1 },
+    link: {
+      type: "richtext",
+      runs: [{ text: "terms", link: "https://example.com/terms" }],
+    },
+    part: { type: "docx", buffer: await createDocx(paragraph("Inserted")) },
+  });
+  const xml = await readPart(output, "word/document.xml");
+  assert.equal(
+    getText(xml),
+    "see __IMAGE__0__ __LINK__0__ __DOCX__0__ IMAGE:0 \nterms \nInserted"
+  );
+  assert.equal(xml.match(/<w:drawing>/g)?.length, 1);
+  assert.doesNotMatch(xml, /<w:t[^>]*>[^<]*<w:drawing>/);
+
+  const id = /<w:hyperlink r:id="(rId\d+)"/.exec(xml)?.[1];
+  assert.match(
+    await readPart(output, "word/_rels/document.xml.rels"),
+    new RegExp(`Id="${id}"[^>]*Target="https://example.com/terms"`)
+  );
+});
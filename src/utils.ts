@@ -3,331 +3,859 @@ import { DOMParser, XMLSerializer } from "xmldom";
 import {
   TemplateData,
   ImageData,
+  ChartData,
   GenerateDocxOptions,
+  GenerateBatchOptions,
   DocxGenerationResult,
   DocxGenerationError,
 } from "./types";
+import {
+  createMarker,
+  ensureBuffer,
+  getNextRelationshipId,
+  getRelsPath,
+  getTemplateParts,
+  normalizeDocxText,
+  readRelationships,
+  resolveTarget,
+} from "./docx";
+import { createScope } from "./scope";
+import { TemplateNode, parseTemplate } from "./parser";
+import {
+  ChartPlacement,
+  GenerationStats,
+  ImagePlacement,
+  RenderContext,
+  createRenderFilters,
+  renderNodes,
+} from "./renderer";
+import { repairTables } from "./tables";
+import {
+  DrawingReference,
+  Extent,
+  createChartXML,
+  createImageXML,
+  getAvailableWidth,
+  getChartReference,
+  getExtentLimits,
+  getPageWidth,
+  layoutImage,
+  removePlaceholderDrawing,
+  replaceTemplateChart,
+  replaceTemplateImage,
+} from "./drawing";
+import {
+  ImageInfo,
+  getDisplaySize,
+  getImageInfo,
+  getOrientationTransform,
+} from "./imageinfo";
+import {
+  ImageLoader,
+  createImageCache,
+  createImageLoader,
+} from "./imagesource";
+import { createChartPart, createChartWorkbook, updateChartPart } from "./chart";
+import { resolveBookmarks } from "./bookmarks";
+import {
+  addRecordNotes,
+  copyRecordPart,
+  joinRecords,
+  removeTemplateBookmarks,
+  replacePartReferences,
+} from "./batch";
+import {
+  addPartialNotes,
+  addPartialRelationships,
+  insertDocuments,
+  loadPartials,
+  writePartials,
+} from "./partials";
+
+// 1×1 transparent PNG shown by Word versions that cannot display SVG images
+const SVG_FALLBACK_PNG = new Uint8Array([
+  0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00, 0x00, 0x0d, 0x49,
+  0x48, 0x44, 0x52, 0x00, 0x00, 0x00, 0x01, 0x00, 0x00, 0x00, 0x01, 0x08, 0x06,
+  0x00, 0x00, 0x00, 0x1f, 0x15, 0xc4, 0x89, 0x00, 0x00, 0x00, 0x0b, 0x49, 0x44,
+  0x41, 0x54, 0x78, 0xda, 0x63, 0x60, 0x00, 0x02, 0x00, 0x00, 0x05, 0x00, 0x01,
+  0xe9, 0xfa, 0xdc, 0xd8, 0x00, 0x00, 0x00, 0x00, 0x49, 0x45, 0x4e, 0x44, 0xae,
+  0x42, 0x60, 0x82,
+]);
+
+function createStats(): GenerationStats {
+  return {
+    placeholdersReplaced: 0,
+    loopsProcessed: 0,
+    conditionalsProcessed: 0,
+    tablesGenerated: 0,
+    imagesEmbedded: 0,
+    chartsEmbedded: 0,
+  };
+}
 
-// Cross-platform image size detection
-function getImageSize(buffer: Buffer | Uint8Array): {
-  width: number;
-  height: number;
-} {
-  // Convert to Uint8Array for consistent handling
-  const bytes = buffer instanceof Buffer ? new Uint8Array(buffer) : buffer;
-
-  // PNG signature: 89 50 4E 47 0D 0A 1A 0A
-  if (
-    bytes[0] === 0x89 &&
-    bytes[1] === 0x50 &&
-    bytes[2] === 0x4e &&
-    bytes[3] === 0x47
-  ) {
-    // PNG format - width and height are at bytes 16-19 and 20-23 (big-endian)
-    const width =
-      (bytes[16] << 24) | (bytes[17] << 16) | (bytes[18] << 8) | bytes[19];
-    const height =
-      (bytes[20] << 24) | (bytes[21] << 16) | (bytes[22] << 8) | bytes[23];
-    return { width, height };
-  }
+const IMAGE_RELATIONSHIP_TYPE =
+  "http://schemas.openxmlformats.org/officeDocument/2006/relationships/image";
 
-  // JPEG signature: FF D8
-  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
-    // JPEG format - scan for SOF markers
-    let i = 2;
-    while (i < bytes.length - 8) {
-      if (bytes[i] === 0xff) {
-        const marker = bytes[i + 1];
-        // SOF0, SOF1, SOF2 markers (Start of Frame)
-        if (marker >= 0xc0 && marker <= 0xc3) {
-          const height = (bytes[i + 5] << 8) | bytes[i + 6];
-          const width = (bytes[i + 7] << 8) | bytes[i + 8];
-          return { width, height };
-        }
-        // Skip to next marker
-        const length = (bytes[i + 2] << 8) | bytes[i + 3];
-        i += length + 2;
-      } else {
-        i++;
-      }
+const HYPERLINK_RELATIONSHIP_TYPE =
+  "http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink";
+
+const CHART_RELATIONSHIP_TYPE =
+  "http://schemas.openxmlformats.org/officeDocument/2006/relationships/chart";
+
+const PACKAGE_RELATIONSHIP_TYPE =
+  "http://schemas.openxmlformats.org/officeDocument/2006/relationships/package";
+
+const CHART_CONTENT_TYPE =
+  "application/vnd.openxmlformats-officedocument.drawingml.chart+xml";
+
+const WORKBOOK_CONTENT_TYPE =
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+/**
+ * A template part, parsed once for every document rendered from it
+ */
+type CompiledPart = {
+  partPath: string;
+  nodes: TemplateNode[];
+};
+
+/**
+ * Parse every template part of the package
+ */
+async function compileTemplate(
+  doc: JSZip,
+  options: GenerateDocxOptions
+): Promise<CompiledPart[]> {
+  const parts: CompiledPart[] = [];
+  for (const partPath of getTemplateParts(doc)) {
+    const partXml = await doc.file(partPath)!.async("text");
+    // First, we need to normalize the text to handle split placeholders
+    const { nodes, errors } = parseTemplate(normalizeDocxText(partXml));
+
+    if (options.debug) {
+      errors.forEach((error) => console.warn(`Warning: ${error.message}`));
     }
+    parts.push({ partPath, nodes });
+  }
+  return parts;
+}
+
+/**
+ * Render one parsed part. Images are left as IMAGE markers for
+ * embedImages; inserted bodies take the place of their markers.
+ */
+function renderTemplateXml(
+  nodes: TemplateNode[],
+  data: TemplateData,
+  context: RenderContext
+): string {
+  const xmlString = renderNodes(nodes, createScope(data), context);
+  return repairTables(insertDocuments(xmlString, context.documents));
+}
+
+/**
+ * An image stored in the package, under word/media
+ */
+type ResolvedImage = {
+  target: string;
+  /** Displayed size in pixels at 96 DPI */
+  dims: { width: number; height: number };
+  info: ImageInfo;
+  buffer: Buffer | Uint8Array;
+  /** PNG picture of an SVG image, for Word versions without SVG support */
+  fallback?: ResolvedImage;
+};
+
+/**
+ * Images embedded by one generation and shared by every part that uses them.
+ * Each distinct image is stored once, each drawing gets its own id. Charts
+ * are numbered after the ones of the template.
+ */
+type ImageRegistry = {
+  /** Stored images by checksum of their content */
+  stored: Map<string, ResolvedImage[]>;
+  /** Image of each ImageData object, so that it is read or fetched once */
+  byData: WeakMap<ImageData, ResolvedImage>;
+  /** Content types of the stored media files by extension */
+  contentTypes: Map<string, string>;
+  /** Content types of the new chart parts by part name */
+  overrides: Map<string, string>;
+  load: ImageLoader;
+  mediaCount: number;
+  chartCount: number;
+  drawingCount: number;
+};
+
+function createImageRegistry(options: GenerateDocxOptions): ImageRegistry {
+  return {
+    load: createImageLoader(options),
+    stored: new Map(),
+    byData: new WeakMap(),
+    contentTypes: new Map(),
+    overrides: new Map(),
+    mediaCount: 0,
+    chartCount: 0,
+    drawingCount: 0,
+  };
+}
+
+/**
+ * FNV-1a checksum of the content of an image, with its length
+ */
+function getChecksum(bytes: Uint8Array): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < bytes.length; i++) {
+    hash ^= bytes[i];
+    hash = Math.imul(hash, 0x01000193);
   }
+  return `${bytes.length}:${(hash >>> 0).toString(16)}`;
+}
 
-  // GIF signature: 47 49 46 38 (GIF8)
-  if (
-    bytes[0] === 0x47 &&
-    bytes[1] === 0x49 &&
-    bytes[2] === 0x46 &&
-    bytes[3] === 0x38
-  ) {
-    // GIF format - width at bytes 6-7, height at bytes 8-9 (little-endian)
-    const width = bytes[6] | (bytes[7] << 8);
-    const height = bytes[8] | (bytes[9] << 8);
-    return { width, height };
+function isSameContent(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return false;
   }
+  return true;
+}
 
-  // Default fallback if format not recognized
-  return { width: 100, height: 100 };
+/**
+ * Store an image in word/media, unless the same content was already stored.
+ * Media files are named image1, image2... after the ones the template already
+ * has, with the extension of the format found in their content.
+ */
+function storeImage(
+  doc: JSZip,
+  buffer: Buffer | Uint8Array,
+  extension: string,
+  registry: ImageRegistry
+): ResolvedImage {
+  const checksum = getChecksum(buffer);
+  const candidates = registry.stored.get(checksum) || [];
+  const stored = candidates.find((candidate) =>
+    isSameContent(candidate.buffer, buffer)
+  );
+  if (stored) return stored;
+
+  const info = getImageInfo(buffer, extension);
+  let target: string;
+  do {
+    target = `media/image${++registry.mediaCount}.${info.extension}`;
+  } while (doc.file(`word/${target}`));
+  const image = { target, dims: getDisplaySize(info), info, buffer };
+  doc.file(`word/${target}`, buffer);
+  registry.stored.set(checksum, [...candidates, image]);
+  registry.contentTypes.set(info.extension, info.contentType);
+  return image;
 }
 
-// Cross-platform buffer handling
-function ensureBuffer(data: Buffer | Uint8Array | ArrayBuffer): Buffer {
-  if (typeof Buffer !== "undefined" && Buffer.isBuffer(data)) {
-    return data;
+/**
+ * Stored image of an ImageData, with the PNG fallback of an SVG image
+ */
+async function resolveImage(
+  doc: JSZip,
+  imageData: ImageData,
+  key: string,
+  registry: ImageRegistry
+): Promise<ResolvedImage> {
+  const cached = registry.byData.get(imageData);
+  if (cached) return cached;
+
+  const { buffer, extension } = await registry.load(imageData, key);
+  let image = storeImage(doc, buffer, extension, registry);
+  if (image.info.extension === "svg") {
+    const fallback = imageData.fallback
+      ? ensureBuffer(imageData.fallback)
+      : SVG_FALLBACK_PNG;
+    image = {
+      ...image,
+      fallback: storeImage(doc, fallback, "png", registry),
+    };
   }
-  if (data instanceof ArrayBuffer) {
-    return typeof Buffer !== "undefined"
-      ? Buffer.from(data)
-      : (new Uint8Array(data) as any);
+
+  registry.byData.set(imageData, image);
+  return image;
+}
+
+/**
+ * Extent and effects of a new drawing displaying an image upright, whatever
+ * its EXIF orientation. A picture turned by a quarter is laid out with its
+ * stored proportions, its rotation brings it to the displayed ones.
+ */
+function orientImage(
+  image: ResolvedImage,
+  layout: { extent: Extent; crop?: ImageData["crop"] },
+  imageData: ImageData
+): { extent: Extent; imageData: ImageData } {
+  const { extent, crop } = layout;
+  const { rotation, flipHorizontal } = getOrientationTransform(
+    image.info.orientation
+  );
+  if (rotation === 0 && !flipHorizontal) {
+    return { extent, imageData: { ...imageData, crop } };
   }
-  if (data instanceof Uint8Array) {
-    return typeof Buffer !== "undefined" ? Buffer.from(data) : (data as any);
+
+  const quarterTurn = rotation % 180 !== 0;
+  return {
+    extent: quarterTurn ? { cx: extent.cy, cy: extent.cx } : extent,
+    imageData: {
+      ...imageData,
+      crop:
+        crop && quarterTurn
+          ? {
+              top: crop.left,
+              bottom: crop.right,
+              left: crop.top,
+              right: crop.bottom,
+            }
+          : crop,
+      rotation: (rotation + (imageData.rotation || 0)) % 360,
+      flipHorizontal: flipHorizontal !== !!imageData.flipHorizontal,
+    },
+  };
+}
+
+// Drawing ids (wp:docPr) must be unique in the whole document
+const DRAWING_ID_REGEX = /(<wp:docPr\b[^>]*?\sid=")(\d+)"/g;
+
+/**
+ * Highest drawing id used by the rendered parts
+ */
+function getMaxDrawingId(parts: string[]): number {
+  let max = 0;
+  for (const xml of parts) {
+    for (const match of xml.matchAll(DRAWING_ID_REGEX)) {
+      max = Math.max(max, Number(match[2]));
+    }
   }
-  return data as Buffer;
+  return max;
 }
 
-// Cross-platform URL fetching for images
-async function fetchImageFromUrl(url: string): Promise<{
-  buffer: Buffer | Uint8Array;
-  extension: string;
-}> {
-  try {
-    // Extract extension from URL
-    const urlPath = new URL(url).pathname;
-    const extensionMatch = urlPath.match(/\.([a-zA-Z0-9]+)(?:\?|$)/);
-    let extension = extensionMatch ? extensionMatch[1].toLowerCase() : "";
-
-    // Map common extensions
-    if (extension === "jpeg") extension = "jpg";
-
-    if (typeof window !== "undefined" && typeof fetch !== "undefined") {
-      // Browser environment
-      const response = await fetch(url);
-      if (!response.ok) {
-        throw new Error(
-          `Failed to fetch image: ${response.status} ${response.statusText}`
-        );
-      }
+/**
+ * Give new ids to the drawings that share an id with an earlier drawing, e.g.
+ * a template picture repeated by a loop
+ */
+function renumberDuplicateDrawings(
+  xml: string,
+  seen: Set<string>,
+  registry: ImageRegistry
+): string {
+  return xml.replace(DRAWING_ID_REGEX, (match, start, id) => {
+    if (!seen.has(id)) {
+      seen.add(id);
+      return match;
+    }
+    const newId = String(++registry.drawingCount);
+    seen.add(newId);
+    return `${start}${newId}"`;
+  });
+}
 
-      // Try to get extension from Content-Type if not available from URL
-      if (!extension) {
-        const contentType = response.headers.get("content-type");
-        if (contentType) {
-          if (contentType.includes("jpeg")) extension = "jpg";
-          else if (contentType.includes("png")) extension = "png";
-          else if (contentType.includes("gif")) extension = "gif";
-          else if (contentType.includes("webp")) extension = "webp";
+/**
+ * Replace the IMAGE markers of one part with drawings. Media files are
+ * written once, relationships are added to the part's own .rels file and
+ * image hyperlinks to `links`, as LINK markers for addHyperlinks.
+ * `pageWidth` is used by the parts without a section, headers and footers.
+ */
+async function embedImages(
+  doc: JSZip,
+  partPath: string,
+  xmlString: string,
+  images: ImagePlacement[],
+  links: string[],
+  registry: ImageRegistry,
+  options: GenerateDocxOptions,
+  pageWidth: number | undefined,
+  stats: GenerationStats
+): Promise<string> {
+  if (images.length === 0) return xmlString;
+
+  const relsPath = getRelsPath(partPath);
+  const relsDoc = await readRelationships(doc, relsPath);
+  let relIdCounter = getNextRelationshipId(relsDoc);
+
+  // One relationship per media file and part
+  const relIds = new Map<string, string>();
+  const getRelationshipId = (target: string) => {
+    let rId = relIds.get(target);
+    if (!rId) {
+      rId = `rId${relIdCounter++}`;
+      const relElem = relsDoc.createElement("Relationship");
+      relElem.setAttribute("Id", rId);
+      relElem.setAttribute("Type", IMAGE_RELATIONSHIP_TYPE);
+      relElem.setAttribute("Target", target);
+      relsDoc.documentElement.appendChild(relElem);
+      relIds.set(target, rId);
+    }
+    return rId;
+  };
+
+  for (let index = 0; index < images.length; index++) {
+    const { key, imageData, drawing } = images[index];
+    const image = await resolveImage(doc, imageData, key, registry);
+
+    // The blip of an SVG image shows its fallback and refers to the SVG
+    const reference: DrawingReference = image.fallback
+      ? {
+          rId: getRelationshipId(image.fallback.target),
+          svgId: getRelationshipId(image.target),
+          id: ++registry.drawingCount,
         }
-      }
-
-      const arrayBuffer = await response.arrayBuffer();
-      const buffer = new Uint8Array(arrayBuffer);
+      : { rId: getRelationshipId(image.target), id: ++registry.drawingCount };
+    if (imageData.hyperlink) {
+      reference.linkId = createMarker(
+        "LINK",
+        links.push(imageData.hyperlink) - 1
+      );
+    }
 
-      return { buffer, extension: extension || "jpg" };
+    const marker = createMarker("IMAGE", index);
+    if (drawing) {
+      // Template picture: only the image changes. A function replacer keeps
+      // "$" patterns of the alt text as they are.
+      const xml = replaceTemplateImage(
+        drawing,
+        reference,
+        image.dims,
+        imageData
+      );
+      xmlString = xmlString.replace(marker, () => xml);
     } else {
-      // Node.js environment
-      let fetch: any;
-      try {
-        // Try built-in fetch (Node.js 18+)
-        fetch = globalThis.fetch;
-        if (!fetch) {
-          // Fallback: try to dynamically import node-fetch
-          try {
-            const nodeFetch = await eval('import("node-fetch")');
-            fetch = nodeFetch.default || nodeFetch;
-          } catch {
-            throw new Error("node-fetch not available");
-          }
+      const placeholder = imageData.keepPlaceholderSize
+        ? removePlaceholderDrawing(xmlString, marker)
+        : undefined;
+      if (placeholder) xmlString = placeholder.xml;
+
+      // Room left by the page or table cell holding the image
+      let availableWidth: number | undefined;
+      if (options.maxImageWidth === "auto") {
+        const position = xmlString.indexOf(marker);
+        const page = getPageWidth(xmlString, position) ?? pageWidth;
+        if (page) {
+          availableWidth = getAvailableWidth(xmlString, position, page);
         }
-      } catch {
-        throw new Error(
-          "URL fetching requires either Node.js 18+ with built-in fetch or the node-fetch package. " +
-            "Install node-fetch: npm install node-fetch"
-        );
       }
+      const layout = layoutImage(
+        image.dims,
+        imageData,
+        getExtentLimits(options, imageData, availableWidth),
+        placeholder?.extent
+      );
 
-      const response = await fetch(url);
-      if (!response.ok) {
-        throw new Error(
-          `Failed to fetch image: ${response.status} ${response.statusText}`
-        );
-      }
+      // Replace image marker
+      const oriented = orientImage(image, layout, imageData);
+      const xml = createImageXML(
+        reference,
+        oriented.extent,
+        oriented.imageData
+      );
+      xmlString = xmlString.replace(marker, () => xml);
+    }
+    stats.imagesEmbedded++;
+  }
 
-      // Try to get extension from Content-Type if not available from URL
-      if (!extension) {
-        const contentType = response.headers.get("content-type");
-        if (contentType) {
-          if (contentType.includes("jpeg")) extension = "jpg";
-          else if (contentType.includes("png")) extension = "png";
-          else if (contentType.includes("gif")) extension = "gif";
-          else if (contentType.includes("webp")) extension = "webp";
-        }
-      }
+  doc.file(relsPath, new XMLSerializer().serializeToString(relsDoc));
+  return xmlString;
+}
 
-      const arrayBuffer = await response.arrayBuffer();
-      const buffer = Buffer.from(arrayBuffer);
+/**
+ * Chart part of a template chart, with its data replaced. The new part keeps
+ * the relationships of the template chart, except for its data.
+ */
+async function copyTemplateChart(
+  doc: JSZip,
+  partPath: string,
+  relsDoc: Document,
+  drawing: string,
+  chart: ChartData,
+  chartPath: string,
+  workbookTarget: string
+): Promise<string> {
+  const relationship = Array.from(
+    relsDoc.getElementsByTagName("Relationship")
+  ).find(
+    (element) => element.getAttribute("Id") === getChartReference(drawing)
+  );
+  const templatePath =
+    relationship &&
+    resolveTarget(partPath, relationship.getAttribute("Target") || "");
+  const templateFile = templatePath ? doc.file(templatePath) : null;
+  if (!templatePath || !templateFile) {
+    throw new DocxGenerationError(
+      "Chart part of a template chart not found",
+      "INVALID_CHART",
+      { target: relationship?.getAttribute("Target") }
+    );
+  }
 
-      return { buffer, extension: extension || "jpg" };
+  const chartRels = await readRelationships(doc, getRelsPath(templatePath));
+  for (const element of Array.from(
+    chartRels.getElementsByTagName("Relationship")
+  )) {
+    const target = element.getAttribute("Target") || "";
+    if (element.getAttribute("Type") === PACKAGE_RELATIONSHIP_TYPE) {
+      chartRels.documentElement.removeChild(element);
+    } else if (element.getAttribute("TargetMode") !== "External") {
+      // Relative targets would resolve from the new chart part
+      element.setAttribute("Target", `/${resolveTarget(templatePath, target)}`);
     }
-  } catch (error) {
-    throw new Error(
-      `Failed to fetch image from URL "${url}": ${error instanceof Error ? error.message : String(error)}`
-    );
   }
+  const workbookId = `rId${getNextRelationshipId(chartRels)}`;
+  const workbook = chartRels.createElement("Relationship");
+  workbook.setAttribute("Id", workbookId);
+  workbook.setAttribute("Type", PACKAGE_RELATIONSHIP_TYPE);
+  workbook.setAttribute("Target", workbookTarget);
+  chartRels.documentElement.appendChild(workbook);
+  doc.file(
+    getRelsPath(chartPath),
+    new XMLSerializer().serializeToString(chartRels)
+  );
+
+  const xml = await templateFile.async("text");
+  return updateChartPart(xml, chart, workbookId);
 }
 
-// Process ImageData to ensure we have buffer and extension
-async function processImageData(
-  imageData: ImageData,
-  key: string
-): Promise<{
-  buffer: Buffer | Uint8Array;
-  extension: string;
-}> {
-  if (imageData.buffer) {
-    // Buffer provided - use it directly
-    const buffer = ensureBuffer(imageData.buffer);
-    const extension = imageData.extension || "jpg";
-    return { buffer, extension };
-  } else if (imageData.url) {
-    // URL provided - fetch the image
-    const { buffer, extension: fetchedExtension } = await fetchImageFromUrl(
-      imageData.url
+/**
+ * Replace the CHART markers of one part with chart drawings. Each
+ * chart gets its own chart part under word/charts, with its data in a
+ * workbook under word/embeddings.
+ */
+async function embedCharts(
+  doc: JSZip,
+  partPath: string,
+  xmlString: string,
+  charts: ChartPlacement[],
+  registry: ImageRegistry,
+  stats: GenerationStats
+): Promise<string> {
+  if (charts.length === 0) return xmlString;
+
+  const relsPath = getRelsPath(partPath);
+  const relsDoc = await readRelationships(doc, relsPath);
+  let relIdCounter = getNextRelationshipId(relsDoc);
+
+  for (let index = 0; index < charts.length; index++) {
+    const { chart, drawing } = charts[index];
+    let number: number;
+    do {
+      number = ++registry.chartCount;
+    } while (
+      doc.file(`word/charts/chart${number}.xml`) ||
+      doc.file(`word/embeddings/Microsoft_Excel_Worksheet${number}.xlsx`)
     );
-    const extension = imageData.extension || fetchedExtension;
-    return { buffer, extension };
-  } else {
-    throw new Error(
-      `Image data for "${key}" must have either 'buffer' or 'url' property`
+    const chartPath = `word/charts/chart${number}.xml`;
+    const workbookPath = `word/embeddings/Microsoft_Excel_Worksheet${number}.xlsx`;
+    const workbookTarget = `../embeddings/Microsoft_Excel_Worksheet${number}.xlsx`;
+
+    let chartXml: string;
+    if (drawing) {
+      chartXml = await copyTemplateChart(
+        doc,
+        partPath,
+        relsDoc,
+        drawing,
+        chart,
+        chartPath,
+        workbookTarget
+      );
+    } else {
+      chartXml = createChartPart(chart, "rId1");
+      doc.file(
+        getRelsPath(chartPath),
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n' +
+          '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+          `<Relationship Id="rId1" Type="${PACKAGE_RELATIONSHIP_TYPE}" Target="${workbookTarget}"/>` +
+          "</Relationships>"
+      );
+    }
+    doc.file(chartPath, chartXml);
+    doc.file(workbookPath, await createChartWorkbook(chart));
+    registry.overrides.set(`/${chartPath}`, CHART_CONTENT_TYPE);
+    registry.contentTypes.set("xlsx", WORKBOOK_CONTENT_TYPE);
+
+    const rId = `rId${relIdCounter++}`;
+    const relElem = relsDoc.createElement("Relationship");
+    relElem.setAttribute("Id", rId);
+    relElem.setAttribute("Type", CHART_RELATIONSHIP_TYPE);
+    relElem.setAttribute("Target", `charts/chart${number}.xml`);
+    relsDoc.documentElement.appendChild(relElem);
+
+    // The chart title is not the title of the drawing
+    const { altText, name, position, widthInches, heightInches } = chart;
+    const frame = { altText, name, position, widthInches, heightInches };
+    const id = ++registry.drawingCount;
+    const chartDrawing = drawing
+      ? replaceTemplateChart(drawing, rId, id, frame)
+      : createChartXML(rId, id, frame);
+    xmlString = xmlString.replace(
+      createMarker("CHART", index),
+      () => chartDrawing
     );
+    stats.chartsEmbedded++;
   }
+
+  doc.file(relsPath, new XMLSerializer().serializeToString(relsDoc));
+  return xmlString;
 }
 
 /**
- * Normalize DOCX text by merging split text runs to handle placeholders properly
+ * Replace the LINK markers of one part with the ids of external
+ * hyperlink relationships, numbered after the highest id of the part's .rels
  */
-function normalizeDocxText(xmlString: string) {
-  // This function merges adjacent <w:t> elements that might split placeholders
-  const xmlDoc = new DOMParser().parseFromString(xmlString, "text/xml");
-  const textNodes = xmlDoc.getElementsByTagName("w:t");
-
-  // Extract all text content and merge it
-  let fullText = "";
-  const textElements: Array<{
-    element: Element;
-    text: string;
-    startIndex: number;
-  }> = [];
+async function addHyperlinks(
+  doc: JSZip,
+  partPath: string,
+  xmlString: string,
+  links: string[]
+): Promise<string> {
+  if (links.length === 0) return xmlString;
+
+  const relsPath = getRelsPath(partPath);
+  const relsDoc = await readRelationships(doc, relsPath);
+  let relIdCounter = getNextRelationshipId(relsDoc);
+
+  const relIds = new Map<string, string>();
+  links.forEach((url, index) => {
+    let rId = relIds.get(url);
+    if (!rId) {
+      rId = `rId${relIdCounter++}`;
+      const relElem = relsDoc.createElement("Relationship");
+      relElem.setAttribute("Id", rId);
+      relElem.setAttribute("Type", HYPERLINK_RELATIONSHIP_TYPE);
+      relElem.setAttribute("Target", url);
+      relElem.setAttribute("TargetMode", "External");
+      relsDoc.documentElement.appendChild(relElem);
+      relIds.set(url, rId);
+    }
+    xmlString = xmlString.replace(createMarker("LINK", index), rId);
+  });
 
-  for (let i = 0; i < textNodes.length; i++) {
-    const textNode = textNodes[i];
-    const text = textNode.textContent || "";
-    fullText += text;
-    textElements.push({
-      element: textNode,
-      text: text,
-      startIndex: fullText.length - text.length,
-    });
-  }
+  doc.file(relsPath, new XMLSerializer().serializeToString(relsDoc));
+  return xmlString;
+}
 
-  // Find placeholders in the full text
-  const placeholderRegex = /{[^}]+}/g;
-  let match;
-  const replacements: Array<{
-    placeholder: string;
-    start: number;
-    end: number;
-  }> = [];
+/**
+ * Register the extensions of the stored images and workbooks, and the new
+ * chart parts, in [Content_Types].xml
+ */
+async function registerContentTypes(
+  doc: JSZip,
+  contentTypes: Map<string, string>,
+  overrides: Map<string, string>
+): Promise<void> {
+  const contentTypesPath = "[Content_Types].xml";
+  const contentTypesXml = await doc.file(contentTypesPath)!.async("text");
+  const contentTypesDoc = new DOMParser().parseFromString(
+    contentTypesXml,
+    "text/xml"
+  );
 
-  while ((match = placeholderRegex.exec(fullText)) !== null) {
-    replacements.push({
-      placeholder: match[0],
-      start: match.index,
-      end: match.index + match[0].length,
-    });
-  }
+  // Add image extensions if not already present
+  contentTypes.forEach((contentType, ext) => {
+    if (!contentTypesXml.includes(`Extension="${ext}"`)) {
+      const defaultElem = contentTypesDoc.createElement("Default");
+      defaultElem.setAttribute("Extension", ext);
+      defaultElem.setAttribute("ContentType", contentType);
+      contentTypesDoc.documentElement.appendChild(defaultElem);
+    }
+  });
+  overrides.forEach((contentType, partName) => {
+    const overrideElem = contentTypesDoc.createElement("Override");
+    overrideElem.setAttribute("PartName", partName);
+    overrideElem.setAttribute("ContentType", contentType);
+    contentTypesDoc.documentElement.appendChild(overrideElem);
+  });
 
-  // Create a map of elements to their replacement content
-  const elementReplacements = new Map<Element, string>();
+  doc.file(
+    contentTypesPath,
+    new XMLSerializer().serializeToString(contentTypesDoc)
+  );
+}
+
+/**
+ * Render every template part of the package in place. The body is rendered
+ * once per record, the other parts with the first record.
+ */
+async function renderDocx(
+  doc: JSZip,
+  parts: CompiledPart[],
+  records: TemplateData[],
+  options: GenerateBatchOptions,
+  stats: GenerationStats
+): Promise<void> {
+  const missing: string[] = [];
+  const filters = createRenderFilters(options);
+  const partials = await loadPartials(doc, records, options);
+  const rendered: Array<{
+    partPath: string;
+    xmlString: string;
+    context: RenderContext;
+  }> = [];
 
-  // Process each element to build its final content
-  textElements.forEach((textEl) => {
-    const elStart = textEl.startIndex;
-    const elEnd = textEl.startIndex + textEl.text.length;
+  const createContext = (): RenderContext => ({
+    options,
+    stats,
+    images: [],
+    charts: [],
+    links: [],
+    partials,
+    documents: [],
+    filters,
+    missing,
+  });
 
-    // Find all placeholders that overlap with this element
-    const overlappingPlaceholders = replacements.filter(
-      (replacement) => elStart < replacement.end && elEnd > replacement.start
-    );
+  const registry = createImageRegistry(options);
+  const bodyPart = parts.find(
+    ({ partPath }) => partPath === "word/document.xml"
+  );
+  const bodyContext = createContext();
+  const bodies = bodyPart
+    ? records.map((record) =>
+        renderTemplateXml(bodyPart.nodes, record, bodyContext)
+      )
+    : [];
+
+  for (const { partPath, nodes } of parts) {
+    if (partPath === bodyPart?.partPath) continue;
+    const context = createContext();
+    const part = {
+      partPath,
+      xmlString: renderTemplateXml(nodes, records[0], context),
+      context,
+    };
+    rendered.push(part);
+    // Parts without tags are the same for every record
+    if (records.length === 1 || nodes.every((node) => node.type === "xml")) {
+      continue;
+    }
 
-    if (overlappingPlaceholders.length === 0) {
-      // No placeholders affect this element, keep original content
-      return;
+    const notes = /^word\/(footnote|endnote)s\.xml$/.exec(partPath);
+    for (let i = 1; i < records.length; i++) {
+      if (notes) {
+        const merged = addRecordNotes(
+          notes[1] as "footnote" | "endnote",
+          part.xmlString,
+          renderTemplateXml(nodes, records[i], context),
+          bodies[i]
+        );
+        part.xmlString = merged.notesXml;
+        bodies[i] = merged.body;
+        continue;
+      }
+      // Headers and footers get a part for each record
+      const copy = await copyRecordPart(doc, partPath, registry.overrides);
+      const recordContext = createContext();
+      rendered.push({
+        partPath: copy.path,
+        xmlString: removeTemplateBookmarks(
+          renderTemplateXml(nodes, records[i], recordContext)
+        ),
+        context: recordContext,
+      });
+      bodies[i] = replacePartReferences(bodies[i], copy.ids);
     }
+  }
 
-    // Build the content for this element
-    let elementContent = "";
-    let currentPos = elStart;
+  if (bodyPart) {
+    rendered.unshift({
+      partPath: bodyPart.partPath,
+      xmlString: joinRecords(bodies, options.separator),
+      context: bodyContext,
+    });
+  }
 
-    // Sort overlapping placeholders by start position
-    overlappingPlaceholders.sort((a, b) => a.start - b.start);
+  // Report all missing data at once, before fetching any image
+  if (missing.length > 0) {
+    const paths = Array.from(new Set(missing));
+    throw new DocxGenerationError(
+      `Missing data for ${paths.join(", ")}`,
+      "MISSING_DATA",
+      { missing: paths }
+    );
+  }
 
-    for (const replacement of overlappingPlaceholders) {
-      // Add any text before this placeholder (within this element's range)
-      const beforeStart = Math.max(currentPos, elStart);
-      const beforeEnd = Math.min(replacement.start, elEnd);
-      if (beforeStart < beforeEnd) {
-        elementContent += fullText.substring(beforeStart, beforeEnd);
-      }
+  // Bookmarks and cross-references may sit in different parts
+  resolveBookmarks(
+    rendered.map(({ xmlString }) => xmlString),
+    options.debug
+  ).forEach((xmlString, index) => (rendered[index].xmlString = xmlString));
 
-      // Add the placeholder (only if it starts within this element)
-      if (replacement.start >= elStart && replacement.start < elEnd) {
-        elementContent += replacement.placeholder;
-      }
+  // Notes and comments of partials, in parts that may not be rendered
+  for (const part of await addPartialNotes(partials, rendered)) {
+    rendered.push({ ...part, context: createContext() });
+  }
 
-      // Move current position past this placeholder
-      currentPos = Math.max(currentPos, replacement.end);
-    }
+  // Parts copied from partials take their names before new images and charts
+  await writePartials(partials, registry.contentTypes, registry.overrides);
 
-    // Add any remaining text after the last placeholder
-    if (currentPos < elEnd) {
-      elementContent += fullText.substring(currentPos, elEnd);
+  // Start loading every image, then embed them in order
+  for (const { context } of rendered) {
+    for (const { key, imageData } of context.images) {
+      registry.load(imageData, key).catch(() => undefined);
     }
+  }
 
-    // Store the replacement for this element
-    elementReplacements.set(textEl.element, elementContent);
-  });
-
-  // Apply all replacements
-  elementReplacements.forEach((content, element) => {
-    element.textContent = content;
-  });
+  // New drawings are numbered after the ones of the template
+  registry.drawingCount = getMaxDrawingId(
+    rendered.map(({ xmlString }) => xmlString)
+  );
+  const drawingIds = new Set<string>();
+  const body = rendered.find(
+    ({ partPath }) => partPath === "word/document.xml"
+  )?.xmlString;
+  const pageWidth = body
+    ? getPageWidth(body, body.lastIndexOf("<w:sectPr"))
+    : undefined;
+  for (const { partPath, xmlString, context } of rendered) {
+    const withPartials = await addPartialRelationships(
+      partials,
+      partPath,
+      xmlString
+    );
+    const withImages = await embedImages(
+      doc,
+      partPath,
+      renumberDuplicateDrawings(withPartials, drawingIds, registry),
+      context.images,
+      context.links,
+      registry,
+      options,
+      pageWidth,
+      stats
+    );
+    const withCharts = await embedCharts(
+      doc,
+      partPath,
+      withImages,
+      context.charts,
+      registry,
+      stats
+    );
+    doc.file(
+      partPath,
+      await addHyperlinks(doc, partPath, withCharts, context.links)
+    );
+  }
 
-  // Clear elements that had overlapping placeholders but aren't the primary element
-  replacements.forEach((replacement) => {
-    let primaryElementSet = false;
-
-    textElements.forEach((textEl) => {
-      const elStart = textEl.startIndex;
-      const elEnd = textEl.startIndex + textEl.text.length;
-
-      if (elStart < replacement.end && elEnd > replacement.start) {
-        if (elementReplacements.has(textEl.element) && !primaryElementSet) {
-          // This is the primary element for this placeholder range, keep its content
-          primaryElementSet = true;
-        } else if (!elementReplacements.has(textEl.element)) {
-          // This element was affected but doesn't have replacement content, clear it
-          textEl.element.textContent = "";
-        }
-      }
-    });
-  });
+  if (registry.contentTypes.size > 0 || registry.overrides.size > 0) {
+    await registerContentTypes(doc, registry.contentTypes, registry.overrides);
+  }
+}
 
-  return new XMLSerializer().serializeToString(xmlDoc);
+// Generate appropriate buffer type based on environment
+async function generateOutputBuffer(doc: JSZip): Promise<Buffer | Uint8Array> {
+  if (typeof Buffer !== "undefined") {
+    // Node.js environment
+    return (await doc.generateAsync({ type: "nodebuffer" })) as Buffer;
+  } else {
+    // Browser environment
+    return (await doc.generateAsync({ type: "uint8array" })) as Uint8Array;
+  }
 }
 
 /**
  * Replace placeholders {tag} in a DOCX with data values, loop arrays, conditionals, tables, and embed images.
+ * The document body, headers, footers, footnotes and endnotes are all processed.
  *
  * Supported features:
  *
@@ -335,255 +863,73 @@ function normalizeDocxText(xmlString: string) {
  *
  * Loops: {#arrayName}...{/arrayName} - Repeats content for each item in array
  *
+ * Loops, conditionals and tables can be nested to any depth; tags inside a loop are
+ * evaluated against the current item first, then the enclosing data.
+ *
  * Conditionals:
  * - {?condition}content{/condition} - Shows content if condition is truthy
  * - {?condition}if content{:else}else content{/condition} - Shows if/else content based on condition
+ * - {?total > 1000}...{:elseif total > 100}...{:else}...{/} - Expressions and else-if chains
+ * - {^condition}content{/condition} - Shows content if condition is falsy
  *
- * Tables: {table:arrayName} - Place in a table row, generates rows for each array item
+ * Tables:
+ * - {table:arrayName} - Place in a table row, generates rows for each array item
+ * - {table:arrayName | header}...{/table:arrayName} - Repeats a group of rows; rows above repeat on every page
+ * - {column:arrayName} - Repeats a table cell and its grid column for each array item
+ * - {merge:path} - Merges the cell with the cell above when the value is the same
+ * - {sum(items.price)}, {count(items)}, {avg(...)}, {min(...)}, {max(...)} - Totals
  *
  * Images:
- * - { type: "image", buffer: Buffer.from(...), extension: "jpg" } - Auto-scale to max 6 inches, maintain aspect ratio
+ * - { type: "image", buffer: Buffer.from(...), extension: "jpg" } - Auto-scale to max 6 inches (options.maxImageWidth/maxImageHeight), maintain aspect ratio
  * - { type: "image", buffer: Buffer.from(...), extension: "png", widthInches: 3 } - Set width to 3", auto-calculate height
  * - { type: "image", buffer: Buffer.from(...), extension: "jpg", heightInches: 2 } - Set height to 2", auto-calculate width
  * - { type: "image", buffer: Buffer.from(...), extension: "png", widthInches: 4, heightInches: 3 } - Exact 4"x3" (may distort)
+ * - { type: "image", buffer, widthInches: 4, heightInches: 3, fit: "contain" } - Fit inside 4"x3", or fill it with fit: "cover"
+ * - { type: "image", buffer, maxWidthInches: 2 } - Never wider than 2"; options.maxImageWidth: "auto" fits images to their page or cell
  * - { type: "image", url: "https://example.com/image.jpg" } - Fetch from URL, auto-detect extension, auto-scale
  * - { type: "image", url: "https://example.com/image.png", widthInches: 3 } - Fetch from URL, set width to 3"
  * - { type: "image", url: "https://example.com/image.jpg", extension: "jpg" } - Override auto-detected extension
+ * - { type: "image", src: "s3://bucket/logo.png" } - Loaded by options.imageResolver; data URIs work without one
+ * - URLs are fetched within options.imageTimeout, maxImageBytes and allowedImageHosts
+ * - { type: "image", buffer, altText: "Logo", title: "Logo", hyperlink: "https://example.com" } - Alt text, title and link
+ * - Template pictures with {tag} as alt text or name get the image of the tag, keeping their frame
+ * - { type: "image", buffer: svgBuffer, fallback: pngBuffer } - SVG image, PNG for older Word versions
+ * - The format is detected from the content; DPI and EXIF orientation are honoured
+ * - { type: "qrcode", value: "https://example.com", errorCorrection: "Q", sizeInches: 1 } - QR code image
+ * - { type: "barcode", format: "code128" | "ean13", value: "ABC-123" } - Barcode image
+ *
+ * Charts:
+ * - { type: "chart", chartType: "column", categories: ["Q1", "Q2"], series: [{ name: "Sales", values: [10, 12] }] } - Native chart, data in an embedded workbook
+ * - Template charts with {tag} as alt text or name get the data of the tag, keeping their type and formatting
+ *
+ * Rich text: { type: "richtext", runs: [{ text: "Bold", bold: true }, " plain"] } or
+ * { type: "markdown", text: "**Bold** and [a link](https://example.com)" }
+ *
+ * Links and cross-references:
+ * - { type: "link", text: "Website", url: "https://example.com" } - External hyperlink
+ * - { type: "link", text: "See appendix", anchor: "appendix_1" } - Link to a bookmark
+ * - {bookmark:path} - Bookmarks the rest of the paragraph, named by the value of path (or path itself)
+ * - {ref:path} - Cross-reference showing the text of a bookmark and linking to it
+ *
+ * Sub-templates:
+ * - {>name} - Inserts the body of options.partials[name], rendered with the data at the tag
+ * - { type: "docx", buffer } - Inserts the body of another DOCX; styles, numbering, images and links are merged
+ *
+ * Missing data renders as empty text unless options.strict, options.missingValue
+ * or options.nullGetter say otherwise. generateBatch renders many records at once.
  */
 export async function generateDocx(
   templateBuffer: Buffer | Uint8Array | ArrayBuffer,
-  data: TemplateData
+  data: TemplateData,
+  options: GenerateDocxOptions = {}
 ): Promise<Buffer | Uint8Array> {
   const zip = new JSZip();
   const doc = await zip.loadAsync(ensureBuffer(templateBuffer));
+  const parts = await compileTemplate(doc, options);
 
-  const documentXml = await doc.file("word/document.xml")!.async("text");
-  const serializer = new XMLSerializer();
-
-  // First, we need to normalize the text to handle split placeholders
-  let xmlString = normalizeDocxText(documentXml);
-
-  // Handle loops: {#array}...{/array}
-  xmlString = xmlString.replace(
-    /{#(\w+)}([\s\S]*?){\/\1}/g,
-    (match, key, inner) => {
-      const arr = data[key];
-      if (!arr) {
-        console.warn(`Warning: Array '${key}' not found in data`);
-        return "";
-      }
-      if (!Array.isArray(arr)) {
-        console.warn(`Warning: '${key}' is not an array, got:`, typeof arr);
-        return "";
-      }
-      if (arr.length === 0) {
-        console.warn(`Warning: Array '${key}' is empty`);
-        return "";
-      }
-
-      return arr
-        .filter((item) => item != null) // Filter out null/undefined items
-        .map((item) =>
-          inner.replace(/{(\w+)}/g, (_match: string, k: string) => {
-            const value = (item as any)[k];
-            return value != null ? String(value) : "";
-          })
-        )
-        .join("");
-    }
-  );
-
-  // Handle conditional statements: {?condition}...{/condition} and {?condition}...{:else}...{/condition}
-  xmlString = xmlString.replace(
-    /{\?(\w+)}([\s\S]*?)(?:{:else}([\s\S]*?))?{\/\1}/g,
-    (match, key, ifContent, elseContent = "") => {
-      const condition = data[key];
-
-      // Evaluate condition - truthy values render the if content, falsy values render else content
-      if (
-        condition &&
-        condition !== "false" &&
-        condition !== "0" &&
-        condition !== "" &&
-        !(Array.isArray(condition) && condition.length === 0)
-      ) {
-        return ifContent;
-      } else {
-        return elseContent;
-      }
-    }
-  );
-
-  // Handle table generation: {table:arrayName}
-  // Process each table placeholder
-  const tableMatches = Array.from(xmlString.matchAll(/{table:(\w+)}/g));
-
-  for (const tableMatch of tableMatches) {
-    const [fullMatch, key] = tableMatch;
-    const arr = data[key];
-
-    if (!Array.isArray(arr) || arr.length === 0) {
-      console.warn(`Warning: Table data '${key}' not found or empty`);
-      xmlString = xmlString.replace(fullMatch, "");
-      continue;
-    }
-
-    const matchIndex = tableMatch.index!;
-
-    // Find the table row containing this placeholder
-    const trStartIndex = xmlString.lastIndexOf("<w:tr", matchIndex);
-    const trEndIndex = xmlString.indexOf("</w:tr>", matchIndex) + 7;
-
-    if (trStartIndex === -1 || trEndIndex === 6) {
-      // 6 means indexOf returned -1, +7 = 6
-      console.warn(
-        `Warning: Could not find table row structure for {table:${key}}`
-      );
-      xmlString = xmlString.replace(fullMatch, "");
-      continue;
-    }
-
-    // Extract the row template
-    const rowTemplate = xmlString.substring(trStartIndex, trEndIndex);
-
-    console.log(`Processing table ${key} with ${arr.length} items`);
-
-    // Generate new rows
-    const newRows = arr
-      .filter((item) => item != null)
-      .map((item) => {
-        // Start with the template and remove the table placeholder
-        let newRow = rowTemplate.replace(/{table:\w+}/, "");
-
-        // Replace data placeholders
-        newRow = newRow.replace(/{(\w+)}/g, (_, fieldName) => {
-          const value = item[fieldName];
-          return value != null ? String(value) : "";
-        });
-
-        return newRow;
-      })
-      .join("");
-
-    // Replace the original row with the new rows
-    xmlString =
-      xmlString.substring(0, trStartIndex) +
-      newRows +
-      xmlString.substring(trEndIndex);
-  }
-
-  // Handle simple replacements: {name}
-  xmlString = xmlString.replace(/{(\w+)}/g, (_, key) => {
-    const value = data[key];
-    if (typeof value === "string") return value;
-    if (typeof value === "number" || typeof value === "boolean")
-      return String(value);
-    if (
-      value &&
-      typeof value === "object" &&
-      "type" in value &&
-      value.type === "image"
-    ) {
-      return `__IMAGE__${key}__`;
-    }
-    return "";
-  });
-
-  // Replace the XML content
-  doc.file("word/document.xml", xmlString);
-
-  // Embed images if any
-  const hasImages = Object.values(data).some(
-    (v): v is ImageData =>
-      v !== null && typeof v === "object" && "type" in v && v.type === "image"
-  );
-
-  if (hasImages) {
-    const relsPath = "word/_rels/document.xml.rels";
-    let relsXml = await doc.file(relsPath)!.async("text");
-    const relsDoc = new DOMParser().parseFromString(relsXml, "text/xml");
-
-    let relIdCounter = 100;
-    for (const [key, value] of Object.entries(data)) {
-      // Type guard for ImageData
-      if (
-        !value ||
-        typeof value !== "object" ||
-        !("type" in value) ||
-        value.type !== "image"
-      ) {
-        continue;
-      }
-
-      const imageData = value as ImageData;
-      const { buffer: imgBuffer, extension } = await processImageData(
-        imageData,
-        key
-      );
-      const dims = getImageSize(imgBuffer);
-
-      const imgFile = `word/media/${key}.${extension}`;
-      doc.file(imgFile, imgBuffer);
-
-      // Add to relationships
-      const relElem = relsDoc.createElement("Relationship");
-      const rId = `rId${relIdCounter++}`;
-      relElem.setAttribute("Id", rId);
-      relElem.setAttribute(
-        "Type",
-        "http://schemas.openxmlformats.org/officeDocument/2006/relationships/image"
-      );
-      relElem.setAttribute("Target", `media/${key}.${extension}`);
-      relsDoc.documentElement.appendChild(relElem);
-
-      // Replace image marker
-      let docXml = await doc.file("word/document.xml")!.async("text");
-      docXml = docXml.replace(
-        `__IMAGE__${key}__`,
-        createImageXML(rId, dims, imageData)
-      );
-      doc.file("word/document.xml", docXml);
-    }
-
-    relsXml = serializer.serializeToString(relsDoc);
-    doc.file(relsPath, relsXml);
-
-    // Update [Content_Types].xml to include image types
-    const contentTypesPath = "[Content_Types].xml";
-    let contentTypesXml = await doc.file(contentTypesPath)!.async("text");
-    const contentTypesDoc = new DOMParser().parseFromString(
-      contentTypesXml,
-      "text/xml"
-    );
-
-    // Add image extensions if not already present
-    const imageExtensions = ["jpg", "jpeg", "png", "gif"];
-    imageExtensions.forEach((ext) => {
-      if (!contentTypesXml.includes(`Extension="${ext}"`)) {
-        const defaultElem = contentTypesDoc.createElement("Default");
-        defaultElem.setAttribute("Extension", ext);
-        defaultElem.setAttribute(
-          "ContentType",
-          `image/${ext === "jpg" ? "jpeg" : ext}`
-        );
-        contentTypesDoc.documentElement.appendChild(defaultElem);
-      }
-    });
-
-    contentTypesXml = serializer.serializeToString(contentTypesDoc);
-    doc.file(contentTypesPath, contentTypesXml);
-  }
+  await renderDocx(doc, parts, [data], options, createStats());
 
-  // Generate appropriate buffer type based on environment
-  if (typeof Buffer !== "undefined") {
-    // Node.js environment
-    const outputBuffer = await doc.generateAsync({ type: "nodebuffer" });
-    return outputBuffer as Buffer;
-  } else {
-    // Browser environment
-    const outputBuffer = await doc.generateAsync({ type: "uint8array" });
-    return outputBuffer as Uint8Array;
-  }
+  return generateOutputBuffer(doc);
 }
 
 /**
@@ -595,270 +941,21 @@ export async function generateDocxDetailed(
   options: GenerateDocxOptions = {}
 ): Promise<DocxGenerationResult> {
   // Track statistics
-  let placeholdersReplaced = 0;
-  let loopsProcessed = 0;
-  let conditionalsProcessed = 0;
-  let tablesGenerated = 0;
-  let imagesEmbedded = 0;
+  const stats = createStats();
 
   try {
     const zip = new JSZip();
     const doc = await zip.loadAsync(ensureBuffer(templateBuffer));
+    const parts = await compileTemplate(doc, options);
 
-    const documentXml = await doc.file("word/document.xml")!.async("text");
-    const serializer = new XMLSerializer();
-
-    // First, we need to normalize the text to handle split placeholders
-    let xmlString = normalizeDocxText(documentXml);
-
-    // Count and handle loops
-    const loopMatches = xmlString.match(/{#(\w+)}([\s\S]*?){\/\1}/g);
-    if (loopMatches) {
-      loopsProcessed = loopMatches.length;
-      if (options.debug) console.log(`Processing ${loopsProcessed} loops`);
-    }
-
-    xmlString = xmlString.replace(
-      /{#(\w+)}([\s\S]*?){\/\1}/g,
-      (match, key, inner) => {
-        const arr = data[key];
-        if (!arr) {
-          if (options.debug)
-            console.warn(`Warning: Array '${key}' not found in data`);
-          return "";
-        }
-        if (!Array.isArray(arr)) {
-          if (options.debug)
-            console.warn(`Warning: '${key}' is not an array, got:`, typeof arr);
-          return "";
-        }
-        if (arr.length === 0) {
-          if (options.debug) console.warn(`Warning: Array '${key}' is empty`);
-          return "";
-        }
-
-        return arr
-          .filter((item) => item != null)
-          .map((item) =>
-            inner.replace(/{(\w+)}/g, (_match: string, k: string) => {
-              const value = (item as any)[k];
-              if (value != null) placeholdersReplaced++;
-              return value != null ? String(value) : "";
-            })
-          )
-          .join("");
-      }
-    );
-
-    // Count and handle conditionals
-    const conditionalMatches = xmlString.match(
-      /{\?(\w+)}([\s\S]*?)(?:{:else}([\s\S]*?))?{\/\1}/g
-    );
-    if (conditionalMatches) {
-      conditionalsProcessed = conditionalMatches.length;
-      if (options.debug)
-        console.log(`Processing ${conditionalsProcessed} conditionals`);
-    }
-
-    xmlString = xmlString.replace(
-      /{\?(\w+)}([\s\S]*?)(?:{:else}([\s\S]*?))?{\/\1}/g,
-      (match, key, ifContent, elseContent = "") => {
-        const condition = data[key];
-        if (
-          condition &&
-          condition !== "false" &&
-          condition !== "0" &&
-          condition !== "" &&
-          !(Array.isArray(condition) && condition.length === 0)
-        ) {
-          return ifContent;
-        } else {
-          return elseContent;
-        }
-      }
-    );
-
-    // Handle tables
-    const tableMatches = Array.from(xmlString.matchAll(/{table:(\w+)}/g));
-    tablesGenerated = tableMatches.length;
-    if (options.debug && tablesGenerated > 0) {
-      console.log(`Processing ${tablesGenerated} tables`);
-    }
-
-    for (const tableMatch of tableMatches) {
-      const [fullMatch, key] = tableMatch;
-      const arr = data[key];
-
-      if (!Array.isArray(arr) || arr.length === 0) {
-        if (options.debug)
-          console.warn(`Warning: Table data '${key}' not found or empty`);
-        xmlString = xmlString.replace(fullMatch, "");
-        continue;
-      }
-
-      const matchIndex = tableMatch.index!;
-      const trStartIndex = xmlString.lastIndexOf("<w:tr", matchIndex);
-      const trEndIndex = xmlString.indexOf("</w:tr>", matchIndex) + 7;
-
-      if (trStartIndex === -1 || trEndIndex === 6) {
-        if (options.debug)
-          console.warn(
-            `Warning: Could not find table row structure for {table:${key}}`
-          );
-        xmlString = xmlString.replace(fullMatch, "");
-        continue;
-      }
-
-      const rowTemplate = xmlString.substring(trStartIndex, trEndIndex);
-      if (options.debug)
-        console.log(`Processing table ${key} with ${arr.length} items`);
-
-      const newRows = arr
-        .filter((item) => item != null)
-        .map((item) => {
-          let newRow = rowTemplate.replace(/{table:\w+}/, "");
-          newRow = newRow.replace(/{(\w+)}/g, (_, fieldName) => {
-            const value = (item as any)[fieldName];
-            if (value != null) placeholdersReplaced++;
-            return value != null ? String(value) : "";
-          });
-          return newRow;
-        })
-        .join("");
-
-      xmlString =
-        xmlString.substring(0, trStartIndex) +
-        newRows +
-        xmlString.substring(trEndIndex);
-    }
-
-    // Count and handle simple replacements
-    xmlString = xmlString.replace(/{(\w+)}/g, (_, key) => {
-      const value = data[key];
-      if (typeof value === "string") {
-        placeholdersReplaced++;
-        return value;
-      }
-      if (typeof value === "number" || typeof value === "boolean") {
-        placeholdersReplaced++;
-        return String(value);
-      }
-      if (
-        value &&
-        typeof value === "object" &&
-        "type" in value &&
-        value.type === "image"
-      ) {
-        return `__IMAGE__${key}__`;
-      }
-      return "";
-    });
-
-    doc.file("word/document.xml", xmlString);
-
-    // Handle images
-    const hasImages = Object.values(data).some(
-      (v): v is ImageData =>
-        v !== null && typeof v === "object" && "type" in v && v.type === "image"
-    );
-
-    if (hasImages) {
-      const relsPath = "word/_rels/document.xml.rels";
-      let relsXml = await doc.file(relsPath)!.async("text");
-      const relsDoc = new DOMParser().parseFromString(relsXml, "text/xml");
-
-      let relIdCounter = 100;
-      for (const [key, value] of Object.entries(data)) {
-        if (
-          !value ||
-          typeof value !== "object" ||
-          !("type" in value) ||
-          value.type !== "image"
-        ) {
-          continue;
-        }
-
-        imagesEmbedded++;
-        const imageData = value as ImageData;
-        const { buffer: imgBuffer, extension } = await processImageData(
-          imageData,
-          key
-        );
-        const dims = getImageSize(imgBuffer);
-
-        const imgFile = `word/media/${key}.${extension}`;
-        doc.file(imgFile, imgBuffer);
-
-        const relElem = relsDoc.createElement("Relationship");
-        const rId = `rId${relIdCounter++}`;
-        relElem.setAttribute("Id", rId);
-        relElem.setAttribute(
-          "Type",
-          "http://schemas.openxmlformats.org/officeDocument/2006/relationships/image"
-        );
-        relElem.setAttribute("Target", `media/${key}.${extension}`);
-        relsDoc.documentElement.appendChild(relElem);
-
-        let docXml = await doc.file("word/document.xml")!.async("text");
-        docXml = docXml.replace(
-          `__IMAGE__${key}__`,
-          createImageXML(rId, dims, imageData)
-        );
-        doc.file("word/document.xml", docXml);
-      }
-
-      relsXml = serializer.serializeToString(relsDoc);
-      doc.file(relsPath, relsXml);
-
-      const contentTypesPath = "[Content_Types].xml";
-      let contentTypesXml = await doc.file(contentTypesPath)!.async("text");
-      const contentTypesDoc = new DOMParser().parseFromString(
-        contentTypesXml,
-        "text/xml"
-      );
-
-      const imageExtensions = ["jpg", "jpeg", "png", "gif"];
-      imageExtensions.forEach((ext) => {
-        if (!contentTypesXml.includes(`Extension="${ext}"`)) {
-          const defaultElem = contentTypesDoc.createElement("Default");
-          defaultElem.setAttribute("Extension", ext);
-          defaultElem.setAttribute(
-            "ContentType",
-            `image/${ext === "jpg" ? "jpeg" : ext}`
-          );
-          contentTypesDoc.documentElement.appendChild(defaultElem);
-        }
-      });
-
-      contentTypesXml = serializer.serializeToString(contentTypesDoc);
-      doc.file(contentTypesPath, contentTypesXml);
-    }
-
-    // Generate appropriate buffer type based on environment
-    let outputBuffer: Buffer | Uint8Array;
-    if (typeof Buffer !== "undefined") {
-      // Node.js environment
-      outputBuffer = (await doc.generateAsync({
-        type: "nodebuffer",
-      })) as Buffer;
-    } else {
-      // Browser environment
-      outputBuffer = (await doc.generateAsync({
-        type: "uint8array",
-      })) as Uint8Array;
-    }
+    await renderDocx(doc, parts, [data], options, stats);
 
     return {
-      buffer: outputBuffer,
-      stats: {
-        placeholdersReplaced,
-        loopsProcessed,
-        conditionalsProcessed,
-        tablesGenerated,
-        imagesEmbedded,
-      },
+      buffer: await generateOutputBuffer(doc),
+      stats,
     };
   } catch (error) {
+    if (error instanceof DocxGenerationError) throw error;
     throw new DocxGenerationError(
       `Failed to generate DOCX: ${error instanceof Error ? error.message : String(error)}`,
       "GENERATION_FAILED",
@@ -867,88 +964,75 @@ export async function generateDocxDetailed(
   }
 }
 
-function createImageXML(
-  rId: string,
-  dims: any,
-  imageData: Pick<ImageData, "widthInches" | "heightInches"> = {}
-) {
-  // Convert inches to EMUs (914400 EMUs per inch)
-  const inchesToEMU = 914400;
-
-  // Initialize with default values
-  let cx: number = dims.width * 9525; // Convert pixels to EMUs
-  let cy: number = dims.height * 9525;
-
-  // If custom width/height specified in inches, use those
-  if (imageData.widthInches || imageData.heightInches) {
-    if (imageData.widthInches && imageData.heightInches) {
-      // Both specified - use exact dimensions
-      cx = imageData.widthInches * inchesToEMU;
-      cy = imageData.heightInches * inchesToEMU;
-    } else if (imageData.widthInches) {
-      // Only width specified - maintain aspect ratio
-      const aspectRatio = dims.height / dims.width;
-      cx = imageData.widthInches * inchesToEMU;
-      cy = cx * aspectRatio;
-    } else if (imageData.heightInches) {
-      // Only height specified - maintain aspect ratio
-      const aspectRatio = dims.width / dims.height;
-      cy = imageData.heightInches * inchesToEMU;
-      cx = cy * aspectRatio;
-    }
-  } else {
-    // No custom size - use original logic with scaling
-    const maxWidthTwips = 6 * inchesToEMU; // 6 inches max
-    const maxHeightTwips = 6 * inchesToEMU;
-
-    // Scale down if too large
-    if (cx > maxWidthTwips) {
-      const ratio = maxWidthTwips / cx;
-      cx = maxWidthTwips;
-      cy = cy * ratio;
-    }
-    if (cy > maxHeightTwips) {
-      const ratio = maxHeightTwips / cy;
-      cy = maxHeightTwips;
-      cx = cx * ratio;
+/**
+ * Mail merge: render a template for many records, parsing it once.
+ *
+ * - mode "single" (default) - One document with the body repeated for each record,
+ *   separated by page breaks, or by section breaks restarting page numbers with
+ *   separator: "section". Headers, footers and notes holding tags are rendered
+ *   for each record.
+ * - mode "separate" - One document per record, or a zip of them with zip: true,
+ *   named by options.fileName
+ *
+ * Images are loaded once for the whole batch unless options.imageCache is given.
+ */
+export async function generateBatch(
+  templateBuffer: Buffer | Uint8Array | ArrayBuffer,
+  records: TemplateData[],
+  options: GenerateBatchOptions & { mode: "separate"; zip?: false }
+): Promise<Array<Buffer | Uint8Array>>;
+export async function generateBatch(
+  templateBuffer: Buffer | Uint8Array | ArrayBuffer,
+  records: TemplateData[],
+  options?: GenerateBatchOptions
+): Promise<Buffer | Uint8Array>;
+export async function generateBatch(
+  templateBuffer: Buffer | Uint8Array | ArrayBuffer,
+  records: TemplateData[],
+  options: GenerateBatchOptions = {}
+): Promise<Buffer | Uint8Array | Array<Buffer | Uint8Array>> {
+  const template = await new JSZip().loadAsync(ensureBuffer(templateBuffer));
+  const parts = await compileTemplate(template, options);
+  const batchOptions: GenerateBatchOptions = {
+    ...options,
+    imageCache: options.imageCache || createImageCache(),
+  };
+
+  if (options.mode !== "separate") {
+    if (records.length === 0) {
+      throw new DocxGenerationError(
+        "A single document needs at least one record",
+        "NO_RECORDS"
+      );
     }
+    await renderDocx(template, parts, records, batchOptions, createStats());
+    return generateOutputBuffer(template);
   }
 
-  return `<w:r>
-      <w:drawing>
-        <wp:inline distT="0" distB="0" distL="0" distR="0">
-          <wp:extent cx="${Math.round(cx)}" cy="${Math.round(cy)}"/>
-          <wp:effectExtent l="0" t="0" r="0" b="0"/>
-          <wp:docPr id="1" name="Picture"/>
-          <wp:cNvGraphicFramePr>
-            <a:graphicFrameLocks xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" noChangeAspect="1"/>
-          </wp:cNvGraphicFramePr>
-          <a:graphic xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main">
-            <a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture">
-              <pic:pic xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture">
-                <pic:nvPicPr>
-                  <pic:cNvPr id="1" name="Picture"/>
-                  <pic:cNvPicPr/>
-                </pic:nvPicPr>
-                <pic:blipFill>
-                  <a:blip r:embed="${rId}"/>
-                  <a:stretch>
-                    <a:fillRect/>
-                  </a:stretch>
-                </pic:blipFill>
-                <pic:spPr>
-                  <a:xfrm>
-                    <a:off x="0" y="0"/>
-                    <a:ext cx="${Math.round(cx)}" cy="${Math.round(cy)}"/>
-                  </a:xfrm>
-                  <a:prstGeom prst="rect">
-                    <a:avLst/>
-                  </a:prstGeom>
-                </pic:spPr>
-              </pic:pic>
-            </a:graphicData>
-          </a:graphic>
-        </wp:inline>
-      </w:drawing>
-    </w:r>`;
+  // Each document starts from the unzipped files of the template
+  const files = await Promise.all(
+    Object.values(template.files)
+      .filter((file) => !file.dir)
+      .map(async (file) => ({
+        name: file.name,
+        content: await file.async("uint8array"),
+      }))
+  );
+  const buffers: Array<Buffer | Uint8Array> = [];
+  for (const record of records) {
+    const doc = new JSZip();
+    files.forEach(({ name, content }) => doc.file(name, content));
+    await renderDocx(doc, parts, [record], batchOptions, createStats());
+    buffers.push(await generateOutputBuffer(doc));
+  }
+  if (!options.zip) return buffers;
+
+  const archive = new JSZip();
+  buffers.forEach((buffer, index) => {
+    const name = options.fileName
+      ? options.fileName(records[index], index)
+      : `document-${index + 1}.docx`;
+    archive.file(name, buffer);
+  });
+  return generateOutputBuffer(archive);
 }
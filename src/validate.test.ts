@@ -0,0 +1,84 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { validateTemplate } from "./index";
+import { createDocx, paragraph, table } from "./test-utils";
+
+test("accepts a well-formed template", async () => {
+  const template = await createDocx({
+    body: paragraph("{#items}{name}{/items}") + table(["{table:rows}{x}"]),
+    header: paragraph("{?draft}Draft{/draft}"),
+  });
+  assert.deepEqual(await validateTemplate(template), {
+    valid: true,
+    diagnostics: [],
+  });
+});
+
+test("reports each problem with its part and paragraph", async () => {
+  const template = await createDocx({
+    body:
+      paragraph("Hello {name}") +
+      paragraph("{#items}x") +
+      paragraph("{?a}b{/c}") +
+      paragraph("{name") +
+      paragraph("} split") +
+      paragraph("{table:rows}") +
+      paragraph("{bad tag!}"),
+    footer: paragraph("{/page}"),
+  });
+  const { valid, diagnostics } = await validateTemplate(template);
+  assert.equal(valid, false);
+  assert.deepEqual(
+    diagnostics.map(({ code, part, paragraphIndex, tag }) => ({
+      code,
+      part,
+      paragraphIndex,
+      tag,
+    })),
+    [
+      {
+        code: "UNCLOSED_TAG",
+        part: "word/document.xml",
+        paragraphIndex: 1,
+        tag: "{#items}",
+      },
+      {
+        code: "UNCLOSED_TAG",
+        part: "word/document.xml",
+        paragraphIndex: 2,
+        tag: "{?a}",
+      },
+      {
+        code: "UNMATCHED_CLOSING_TAG",
+        part: "word/document.xml",
+        paragraphIndex: 2,
+        tag: "{/c}",
+      },
+      {
+        code: "TAG_SPANS_PARAGRAPHS",
+        part: "word/document.xml",
+        paragraphIndex: 3,
+        tag: "{name}",
+      },
+      {
+        code: "TABLE_OUTSIDE_ROW",
+        part: "word/document.xml",
+        paragraphIndex: 5,
+        tag: "{table:rows}",
+      },
+      {
+        code: "UNKNOWN_TAG",
+        part: "word/document.xml",
+        paragraphIndex: 6,
+        tag: "{bad tag!}",
+      },
+      {
+        code: "UNMATCHED_CLOSING_TAG",
+        part: "word/footer1.xml",
+        paragraphIndex: 0,
+        tag: "{/page}",
+      },
+    ]
+  );
+  assert.equal(diagnostics[0].context, "{#items}x");
+});
@@ -0,0 +1,148 @@
+import JSZip from "jszip";
+import {
+  DocxGenerationError,
+  TemplateDiagnostic,
+  TemplateValidationResult,
+} from "./types";
+import {
+  ensureBuffer,
+  getParagraphIndex,
+  getParagraphText,
+  getParagraphs,
+  getTemplateParts,
+  normalizeDocxText,
+  parseXml,
+} from "./docx";
+import { parseTemplate } from "./parser";
+
+function getParagraph(node: Node): Element | null {
+  let current: Node | null = node.parentNode;
+  while (current && current.nodeName !== "w:p") {
+    current = current.parentNode;
+  }
+  return current as Element | null;
+}
+
+/**
+ * Find tags whose text starts in one paragraph and ends in another
+ */
+function findTagsSpanningParagraphs(
+  doc: Document,
+  part: string
+): TemplateDiagnostic[] {
+  const paragraphs = getParagraphs(doc);
+  const textNodes = doc.getElementsByTagName("w:t");
+
+  let fullText = "";
+  const owners: Array<{ start: number; paragraph: number }> = [];
+  for (let i = 0; i < textNodes.length; i++) {
+    const paragraph = getParagraph(textNodes[i]);
+    owners.push({
+      start: fullText.length,
+      paragraph: paragraph ? paragraphs.indexOf(paragraph) : -1,
+    });
+    fullText += textNodes[i].textContent || "";
+  }
+
+  const paragraphAt = (position: number) => {
+    let owner = owners[0];
+    for (const candidate of owners) {
+      if (candidate.start > position) break;
+      owner = candidate;
+    }
+    return owner.paragraph;
+  };
+
+  const diagnostics: TemplateDiagnostic[] = [];
+  const placeholderRegex = /{[^}]+}/g;
+  let match;
+  while ((match = placeholderRegex.exec(fullText)) !== null) {
+    const first = paragraphAt(match.index);
+    const last = paragraphAt(match.index + match[0].length - 1);
+    if (first !== last) {
+      diagnostics.push({
+        code: "TAG_SPANS_PARAGRAPHS",
+        message: `Tag ${match[0]} starts and ends in different paragraphs`,
+        part,
+        paragraphIndex: first,
+        context: first >= 0 ? getParagraphText(paragraphs[first]) : "",
+        tag: match[0],
+      });
+    }
+  }
+  return diagnostics;
+}
+
+/**
+ * Diagnostics of one part, in paragraph order
+ */
+async function validatePart(
+  doc: JSZip,
+  part: string
+): Promise<TemplateDiagnostic[]> {
+  const xml = await doc.file(part)!.async("text");
+  const diagnostics: TemplateDiagnostic[] = [];
+
+  const raw = parseXml(xml);
+  if (raw.errors.length > 0) {
+    diagnostics.push({
+      code: "INVALID_XML",
+      message: `${part} is not well-formed XML: ${raw.errors[0]}`,
+      part,
+      paragraphIndex: -1,
+      context: "",
+    });
+    return diagnostics;
+  }
+  diagnostics.push(...findTagsSpanningParagraphs(raw.doc, part));
+
+  // Same normalization and parsing as generateDocx
+  const normalized = normalizeDocxText(xml);
+  const paragraphs = getParagraphs(parseXml(normalized).doc);
+  for (const error of parseTemplate(normalized).errors) {
+    const paragraphIndex = getParagraphIndex(normalized, error.offset);
+    diagnostics.push({
+      code: error.code,
+      message: error.message,
+      part,
+      paragraphIndex,
+      context:
+        paragraphIndex >= 0 && paragraphs[paragraphIndex]
+          ? getParagraphText(paragraphs[paragraphIndex])
+          : "",
+      tag: error.tag,
+    });
+  }
+
+  return diagnostics.sort((a, b) => a.paragraphIndex - b.paragraphIndex);
+}
+
+/**
+ * Validate every template part of a DOCX without rendering it.
+ *
+ * Reports unbalanced or mismatched section tags, unknown tag syntax,
+ * {table:x} tags outside a table row and tags split across paragraphs, each
+ * with the part, paragraph index and paragraph text where it was found.
+ */
+export async function validateTemplate(
+  templateBuffer: Buffer | Uint8Array | ArrayBuffer
+): Promise<TemplateValidationResult> {
+  let doc: JSZip;
+  try {
+    doc = await new JSZip().loadAsync(ensureBuffer(templateBuffer));
+  } catch (error) {
+    throw new DocxGenerationError(
+      `Failed to read template: ${error instanceof Error ? error.message : String(error)}`,
+      "INVALID_TEMPLATE_FILE",
+      error
+    );
+  }
+
+  const diagnostics: TemplateDiagnostic[] = [];
+
+  for (const part of getTemplateParts(doc)) {
+    diagnostics.push(...(await validatePart(doc, part)));
+  }
+
+  return { valid: diagnostics.length === 0, diagnostics };
+}